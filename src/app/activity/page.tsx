@@ -3,6 +3,8 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { LayoutWrapper } from "@/components/layout-wrapper";
+import { useAppStore } from "@/lib/store";
+import { withClubScope } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -74,6 +76,14 @@ interface Leaderboards {
   allTimeBattlers: LeaderboardMember[];
 }
 
+interface ClubWeek {
+  matches: number;
+  wins: number;
+  winRate: number;
+  stacked: { matches: number; winRate: number };
+  solo: { matches: number; winRate: number };
+}
+
 const PODIUM_COLORS = [
   "from-yellow-500/20 to-yellow-600/5 border-yellow-500/40",
   "from-slate-300/20 to-slate-400/5 border-slate-400/40",
@@ -358,17 +368,20 @@ const categories = [
 export default function LeaderboardPage() {
   const [leaderboards, setLeaderboards] = useState<Leaderboards | null>(null);
   const [memberCount, setMemberCount] = useState(0);
+  const [clubWeek, setClubWeek] = useState<ClubWeek | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("trophyLeaders");
+  const { activeClubTag } = useAppStore();
 
   useEffect(() => {
     const load = async () => {
       try {
-        const res = await fetch("/api/leaderboard");
+        const res = await fetch(withClubScope("/api/leaderboard", activeClubTag));
         if (res.ok) {
           const data = await res.json();
           setLeaderboards(data.leaderboards);
           setMemberCount(data.memberCount || 0);
+          setClubWeek(data.club?.weekly || null);
         }
       } catch (err) {
         console.error("Error loading leaderboard:", err);
@@ -377,7 +390,7 @@ export default function LeaderboardPage() {
       }
     };
     load();
-  }, []);
+  }, [activeClubTag]);
 
   return (
     <LayoutWrapper>
@@ -390,6 +403,10 @@ export default function LeaderboardPage() {
             </h1>
             <p className="text-sm text-muted-foreground">
               {memberCount} members tracked
+              {clubWeek && clubWeek.matches > 0 && (
+                <> · {clubWeek.matches} club matches this week, {clubWeek.winRate}% won
+                  (stacked {clubWeek.stacked.winRate}% of {clubWeek.stacked.matches}, solo {clubWeek.solo.winRate}% of {clubWeek.solo.matches})</>
+              )}
             </p>
           </div>
         </div>
@@ -1,5 +1,12 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getClubScope, getClubTimezone, getCurrentMemberTags } from "@/lib/clubs";
+import { getZonedDayRange } from "@/lib/timezone";
+import { getAliasesByTag } from "@/lib/player-names";
+import type { MatchPlayer } from "@/lib/matches";
+import type { MatchParticipant } from "@/types/database";
+
+type FeedPlayer = { tag: string; name: string; brawler: string | null; power: number | null };
 
 export async function GET(request: Request) {
   try {
@@ -11,12 +18,8 @@ export async function GET(request: Request) {
     const date = searchParams.get("date") || null; // YYYY-MM-DD
 
     // Get only current club member tags from member_history
-    const { data: currentMemberHistory } = await supabase
-      .from("member_history")
-      .select("player_tag")
-      .eq("is_current_member", true);
-
-    const currentMemberTags = currentMemberHistory?.map((m) => m.player_tag) || [];
+    const clubTag = getClubScope(request);
+    const currentMemberTags = await getCurrentMemberTags(clubTag);
 
     // Get current member names from members table
     const { data: members } = await supabase
@@ -25,12 +28,11 @@ export async function GET(request: Request) {
       .in("player_tag", currentMemberTags.length > 0 ? currentMemberTags : [""]);
 
     const nameMap = new Map((members || []).map((m) => [m.player_tag, m.player_name]));
-    const clubTags = new Set(nameMap.keys());
 
-    // Build query - fetch raw battles
+    // One row per match; the inner join keeps only matches with a participant in scope
     let query = supabase
-      .from("battle_history")
-      .select("*", { count: "exact" })
+      .from("matches")
+      .select("id, battle_time, mode, map, is_showdown, teams, match_participants!inner(player_tag)", { count: "exact" })
       .order("battle_time", { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -38,257 +40,99 @@ export async function GET(request: Request) {
       query = query.eq("mode", mode);
     }
 
+    if (clubTag) {
+      query = query.eq("match_participants.club_tag", clubTag);
+    }
+
     if (player) {
-      query = query.eq("player_tag", player);
+      query = query.eq("match_participants.player_tag", player);
     }
 
     if (date) {
-      // Filter battles for a specific day (YYYY-MM-DD)
-      const dayStart = `${date}T00:00:00.000Z`;
-      const dayEnd = `${date}T23:59:59.999Z`;
-      query = query.gte("battle_time", dayStart).lte("battle_time", dayEnd);
+      // Filter matches for a specific club-local day (YYYY-MM-DD)
+      const { start, end } = getZonedDayRange(date, await getClubTimezone());
+      query = query.gte("battle_time", start).lt("battle_time", end);
     }
 
-    const { data: battles, error, count } = await query;
+    const { data: matches, error, count } = await query;
     if (error) throw error;
 
-    // Group battles into matches
-    // Key: battle_time + mode + map (battles at the same time on the same map = same match)
-    const matchMap = new Map<string, {
-      battle_time: string;
-      mode: string;
-      map: string;
-      clubPlayers: {
-        tag: string;
-        name: string;
-        brawler: string | null;
-        power: number | null;
-        result: string;
-        trophy_change: number;
-        is_star_player: boolean;
-      }[];
-      teams: { tag: string; name: string; brawler: string | null; power: number | null; trophies: number | null }[][] | null;
-    }>();
-
-    for (const b of battles || []) {
-      const key = `${b.battle_time}|${b.mode}|${b.map}`;
-
-      if (!matchMap.has(key)) {
-        // Parse teams_json if available
-        let teams = null;
-        if (b.teams_json) {
-          try {
-            teams = typeof b.teams_json === "string" ? JSON.parse(b.teams_json) : b.teams_json;
-          } catch { /* ignore */ }
-        }
-
-        matchMap.set(key, {
-          battle_time: b.battle_time,
-          mode: b.mode || "unknown",
-          map: b.map || "unknown",
-          clubPlayers: [],
-          teams,
-        });
-      }
-
-      const match = matchMap.get(key)!;
-      // Add this club member to the match (avoid duplicates)
-      if (!match.clubPlayers.some((p) => p.tag === b.player_tag)) {
-        match.clubPlayers.push({
-          tag: b.player_tag,
-          name: nameMap.get(b.player_tag) || b.player_tag,
-          brawler: b.brawler_name,
-          power: b.brawler_power,
-          result: b.result || "unknown",
-          trophy_change: b.trophy_change || 0,
-          is_star_player: b.is_star_player || false,
-        });
-      }
-
-      // If this battle has teams_json and the match doesn't yet, use it
-      if (!match.teams && b.teams_json) {
-        try {
-          match.teams = typeof b.teams_json === "string" ? JSON.parse(b.teams_json) : b.teams_json;
-        } catch { /* ignore */ }
-      }
+    // Every club participant of the page's matches (the filter above may have hidden some)
+    const matchIds = (matches || []).map((m) => m.id);
+    let participantsQuery = supabase
+      .from("match_participants")
+      .select("*")
+      .in("match_id", matchIds.length > 0 ? matchIds : [-1]);
+    if (clubTag) {
+      participantsQuery = participantsQuery.eq("club_tag", clubTag);
     }
+    const { data: participants, error: participantsError } = await participantsQuery;
+    if (participantsError) throw participantsError;
 
-    // Convert to array, sorted by time descending
-    const matches = [...matchMap.values()].sort(
-      (a, b) => new Date(b.battle_time).getTime() - new Date(a.battle_time).getTime()
-    );
-
-    // Detect Showdown modes
-    const isShowdownMode = (mode: string) =>
-      mode === "soloShowdown" || mode === "duoShowdown" || mode === "showdown";
-
-    // Normalize tag format: Brawl Stars API may use %23 instead of #
-    const normalizeTag = (tag: string) => tag.startsWith("%23") ? "#" + tag.slice(3) : tag;
-
-    type RawPlayer = {
-      tag?: string;
-      name?: string;
-      brawler?: string | null;
-      power?: number | null;
-      trophies?: number | null;
-    };
-
-    type TeamPlayer = { tag: string; name: string; brawler: string | null; power: number | null; trophies: number | null };
-
-    const toTeamPlayer = (p: RawPlayer): TeamPlayer | null => {
-      if (!p?.tag) return null;
-      const tag = normalizeTag(p.tag);
-      return {
-        tag,
-        name: nameMap.get(tag) || p.name || tag,
-        brawler: p.brawler ?? null,
-        power: p.power ?? null,
-        trophies: p.trophies ?? null,
-      };
-    };
-
-    const normalizeTeams = (raw: unknown): TeamPlayer[][] => {
-      if (!raw) return [];
-
-      const value = raw as unknown;
-      const asObject = typeof value === "object" && value !== null ? value as Record<string, unknown> : null;
-
-      const source =
-        Array.isArray(value) ? value :
-        Array.isArray(asObject?.teams) ? asObject.teams :
-        Array.isArray(asObject?.players) ? asObject.players :
-        [];
-
-      if (!Array.isArray(source) || source.length === 0) return [];
-
-      const first = source[0];
-
-      // Flat players array => showdown-style one player per team
-      if (!Array.isArray(first)) {
-        return source
-          .map((player) => toTeamPlayer(player as RawPlayer))
-          .filter((player): player is TeamPlayer => !!player)
-          .map((player) => [player]);
-      }
-
-      // teams[][] shape
-      return source
-        .map((team) =>
-          (team as unknown[])
-            .map((player) => toTeamPlayer(player as RawPlayer))
-            .filter((player): player is TeamPlayer => !!player)
-        )
-        .filter((team) => team.length > 0);
-    };
-
-    // For each match, identify which team is "ours" and which is "theirs"
-    const enrichedMatches = matches.map((match) => {
-      let ourTeam: { tag: string; name: string; brawler: string | null; power: number | null }[] = [];
-      const theirTeam: { tag: string; name: string; brawler: string | null; power: number | null }[] = [];
-      const isShowdown = isShowdownMode(match.mode);
-
-      const normalizedTeams = normalizeTeams(match.teams);
-
-      if (normalizedTeams.length > 0) {
-        const clubPlayerTags = new Set(match.clubPlayers.map((p) => p.tag));
-
-        if (isShowdown) {
-          // Showdown: each "team" is a single player (solo) or a duo
-          // Club player(s) go into ourTeam, everyone else into theirTeam
-          for (const team of normalizedTeams) {
-            const hasClubPlayer = team.some((p: { tag: string }) => {
-              const nt = normalizeTag(p.tag);
-              return clubPlayerTags.has(nt) || clubTags.has(nt);
-            });
-            const mapped = team.map((p: { tag: string; name: string; brawler: string | null; power: number | null }) => ({
-              tag: normalizeTag(p.tag),
-              name: nameMap.get(normalizeTag(p.tag)) || p.name,
-              brawler: p.brawler,
-              power: p.power,
-            }));
-            if (hasClubPlayer) {
-              ourTeam.push(...mapped);
-            } else {
-              theirTeam.push(...mapped);
-            }
-          }
-        } else {
-          // Standard team modes: find which team contains a club member
-          let ourTeamIndex = -1;
-
-          for (let i = 0; i < normalizedTeams.length; i++) {
-            const team = normalizedTeams[i];
-            if (team.some((p: { tag: string }) => {
-              const nt = normalizeTag(p.tag);
-              return clubPlayerTags.has(nt) || clubTags.has(nt);
-            })) {
-              ourTeamIndex = i;
-              break;
-            }
-          }
+    const participantsByMatch = new Map<number, MatchParticipant[]>();
+    for (const p of (participants || []) as MatchParticipant[]) {
+      if (!participantsByMatch.has(p.match_id)) participantsByMatch.set(p.match_id, []);
+      participantsByMatch.get(p.match_id)!.push(p);
+    }
 
-          if (ourTeamIndex >= 0) {
-            ourTeam = normalizedTeams[ourTeamIndex].map((p: { tag: string; name: string; brawler: string | null; power: number | null }) => ({
-              tag: normalizeTag(p.tag),
-              name: nameMap.get(normalizeTag(p.tag)) || p.name,
-              brawler: p.brawler,
-              power: p.power,
-            }));
+    const toFeedPlayer = (p: MatchPlayer): FeedPlayer => ({
+      tag: p.tag,
+      name: nameMap.get(p.tag) || p.name,
+      brawler: p.brawler,
+      power: p.power,
+    });
 
-            // All other teams are opponents
-            for (let i = 0; i < normalizedTeams.length; i++) {
-              if (i !== ourTeamIndex) {
-                theirTeam.push(
-                  ...normalizedTeams[i].map((p: { tag: string; name: string; brawler: string | null; power: number | null }) => ({
-                    tag: normalizeTag(p.tag),
-                    name: nameMap.get(normalizeTag(p.tag)) || p.name,
-                    brawler: p.brawler,
-                    power: p.power,
-                  }))
-                );
-              }
-            }
-          }
-        }
+    // Split the stored teams into "ours" (teams with a club participant) and "theirs"
+    const enrichedMatches = (matches || []).map((match) => {
+      const matchParticipants = participantsByMatch.get(match.id) || [];
+      const teams = (match.teams || []) as MatchPlayer[][];
+      const ourTeamIndexes = new Set(
+        matchParticipants.map((p) => p.team_index).filter((i): i is number => i !== null)
+      );
+
+      const ourTeam: FeedPlayer[] = [];
+      const theirTeam: FeedPlayer[] = [];
+      if (ourTeamIndexes.size > 0) {
+        // Team modes have one side for the club; showdown can have several (solo) teams
+        const ours = match.is_showdown ? ourTeamIndexes : new Set([Math.min(...ourTeamIndexes)]);
+        teams.forEach((team, i) => {
+          (ours.has(i) ? ourTeam : theirTeam).push(...team.map(toFeedPlayer));
+        });
       }
 
       return {
         battle_time: match.battle_time,
-        mode: match.mode,
-        map: match.map,
-        clubPlayers: match.clubPlayers,
+        mode: match.mode || "unknown",
+        map: match.map || "unknown",
+        clubPlayers: matchParticipants.map((p) => ({
+          tag: p.player_tag,
+          name: nameMap.get(p.player_tag) || p.player_tag,
+          brawler: p.brawler_name,
+          power: p.brawler_power,
+          result: p.result || "unknown",
+          trophy_change: p.trophy_change || 0,
+          is_star_player: p.is_star_player || false,
+        })),
         ourTeam: ourTeam.length > 0 ? ourTeam : null,
         theirTeam: theirTeam.length > 0 ? theirTeam : null,
-        isShowdown,
+        isShowdown: match.is_showdown,
       };
     });
 
-    // Fix timezone offset for existing data: if battles appear in the future, adjust them
-    const serverNow = Date.now();
-    const matchBattleTimes = enrichedMatches.map(m => new Date(m.battle_time).getTime());
-    const maxMatchTime = matchBattleTimes.length > 0 ? matchBattleTimes.reduce((max, t) => t > max ? t : max, 0) : 0;
-    
-    if (maxMatchTime > serverNow + 60000) { // More than 1 minute in the future
-      const rawOffsetMs = maxMatchTime - serverNow;
-      const offsetHours = Math.ceil(rawOffsetMs / 3600000);
-      const offsetMs = offsetHours * 3600000;
-      for (const match of enrichedMatches) {
-        match.battle_time = new Date(new Date(match.battle_time).getTime() - offsetMs).toISOString();
-      }
-    }
-
     // Get distinct modes for filter
     const { data: modes } = await supabase
-      .from("battle_history")
+      .from("matches")
       .select("mode")
       .not("mode", "is", null);
 
     const uniqueModes = [...new Set((modes || []).map((m) => m.mode))].filter(Boolean).sort();
 
     // Build members list for filter dropdown
+    const aliasesByTag = await getAliasesByTag(members || []);
     const memberList = (members || []).map((m) => ({
       tag: m.player_tag,
       name: m.player_name,
+      aliases: aliasesByTag.get(m.player_tag) || [],
     })).sort((a, b) => a.name.localeCompare(b.name));
 
     return NextResponse.json({
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getClubScope, getClubTimezone } from "@/lib/clubs";
+import { fetchRowsBetween } from "@/lib/retention";
+import { buildClubHistory, buildClubProfileChanges } from "@/lib/club-snapshots";
+import type { ClubSnapshot } from "@/types/database";
+
+// Club trophies and member count per club-local day (summed across clubs when not
+// scoped to one) and the club profile changes seen in the same window
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "90") || 90, 1), 365);
+    const clubTag = getClubScope(request);
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const [rows, timeZone] = await Promise.all([
+      fetchRowsBetween<ClubSnapshot>("club_snapshots", "recorded_at", "*", since, new Date().toISOString()),
+      getClubTimezone(),
+    ]);
+    const snapshots = rows.filter((s) => !clubTag || s.club_tag === clubTag);
+
+    return NextResponse.json({
+      history: buildClubHistory(snapshots, timeZone),
+      changes: buildClubProfileChanges(snapshots),
+    });
+  } catch (error) {
+    console.error("Error fetching club history:", error);
+    return NextResponse.json({ error: "Failed to fetch club history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { getClub } from "@/lib/brawl-api";
+import { configureDataSource } from "@/lib/data-source";
+import { getRegisteredClubs, normalizeClubTag } from "@/lib/clubs";
+
+// GET - List registered clubs with their current member counts
+export async function GET() {
+  try {
+    const clubs = await getRegisteredClubs();
+
+    const { data: currentMembers } = await supabase
+      .from("member_history")
+      .select("club_tag")
+      .eq("is_current_member", true);
+
+    const memberCounts = new Map<string, number>();
+    for (const row of currentMembers || []) {
+      memberCounts.set(row.club_tag, (memberCounts.get(row.club_tag) || 0) + 1);
+    }
+
+    return NextResponse.json({
+      clubs: clubs.map((club) => ({
+        ...club,
+        member_count: memberCounts.get(club.club_tag) || 0,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching clubs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch clubs" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Register a club (verified against the Brawl Stars API)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.clubTag) {
+      return NextResponse.json(
+        { error: "clubTag is required" },
+        { status: 400 }
+      );
+    }
+
+    const clubTag = normalizeClubTag(body.clubTag);
+    let apiKey = body.apiKey;
+    if (!apiKey) {
+      const { data: apiKeySetting } = await supabase
+        .from("settings")
+        .select("value")
+        .eq("key", "api_key")
+        .single();
+      apiKey = apiKeySetting?.value || process.env.BRAWL_API_KEY;
+    }
+
+    if (!configureDataSource(apiKey)) {
+      return NextResponse.json(
+        { error: "API key required" },
+        { status: 400 }
+      );
+    }
+
+    const club = await getClub(clubTag);
+
+    const existingClubs = await getRegisteredClubs();
+    const { error } = await supabase
+      .from("clubs")
+      .upsert({
+        club_tag: clubTag,
+        club_name: club.name,
+        required_trophies: club.requiredTrophies ?? null,
+        sort_order: existingClubs.find((c) => c.club_tag === clubTag)?.sort_order ?? existingClubs.length,
+      }, { onConflict: "club_tag" });
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      club: {
+        club_tag: clubTag,
+        club_name: club.name,
+        required_trophies: club.requiredTrophies ?? null,
+        member_count: club.members.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error registering club:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: "Failed to register club", message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a club from the registry (?tag=#ABC123). Stored history is kept.
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const tag = searchParams.get("tag");
+    if (!tag) {
+      return NextResponse.json(
+        { error: "tag is required" },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("clubs")
+      .delete()
+      .eq("club_tag", normalizeClubTag(tag));
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing club:", error);
+    return NextResponse.json(
+      { error: "Failed to remove club" },
+      { status: 500 }
+    );
+  }
+}
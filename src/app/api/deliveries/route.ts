@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDueWebhookDeliveries } from "@/lib/event-webhooks";
+import { runDueNotificationDeliveries } from "@/lib/notification-channels";
+
+// GET handler for the delivery cron: sends queued channel notifications and webhook
+// deliveries, and retries whose backoff has passed, independently of any sync
+export async function GET(request: NextRequest) {
+  try {
+    // Same optional secret as the sync cron
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      console.log("Unauthorized delivery cron request - invalid secret");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const channels = await runDueNotificationDeliveries();
+    const webhooks = await runDueWebhookDeliveries();
+    return NextResponse.json({ success: true, channels, webhooks });
+  } catch (error) {
+    console.error("Error running deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to run deliveries" },
+      { status: 500 }
+    );
+  }
+}
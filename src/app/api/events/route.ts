@@ -1,14 +1,22 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getClubScope } from "@/lib/clubs";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const { data: events, error } = await supabase
+    const clubTag = getClubScope(request);
+    let query = supabase
       .from("club_events")
       .select("*")
       .order("event_time", { ascending: false })
       .limit(50);
 
+    if (clubTag) {
+      query = query.or(`club_tag.eq.${clubTag},from_club_tag.eq.${clubTag}`);
+    }
+
+    const { data: events, error } = await query;
+
     if (error) throw error;
 
     return NextResponse.json({ events: events || [] });
@@ -21,20 +29,28 @@ export async function GET() {
   }
 }
 
-// DELETE endpoint to clear all events and reset tracking from today
-export async function DELETE() {
+// DELETE endpoint to clear all events and reset tracking from today (optionally for one club)
+export async function DELETE(request: NextRequest) {
   try {
+    const clubTag = getClubScope(request);
+
     // Clear all club events
-    const { error: eventsError } = await supabase
+    let deleteQuery = supabase
       .from("club_events")
       .delete()
       .neq("id", 0); // Delete all rows
 
+    if (clubTag) {
+      deleteQuery = deleteQuery.eq("club_tag", clubTag);
+    }
+
+    const { error: eventsError } = await deleteQuery;
+
     if (eventsError) throw eventsError;
 
     // Reset member history - mark all current members as baseline
     // This means joins/leaves will only be tracked from this point forward
-    const { error: historyError } = await supabase
+    let historyQuery = supabase
       .from("member_history")
       .update({
         first_seen: new Date().toISOString(),
@@ -43,6 +59,12 @@ export async function DELETE() {
       })
       .eq("is_current_member", true);
 
+    if (clubTag) {
+      historyQuery = historyQuery.eq("club_tag", clubTag);
+    }
+
+    const { error: historyError } = await historyQuery;
+
     if (historyError) throw historyError;
 
     return NextResponse.json({ 
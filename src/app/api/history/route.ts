@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getClubScope } from "@/lib/clubs";
+import { getAliasesByTag } from "@/lib/player-names";
+import { getRoleHistory } from "@/lib/role-history";
 
 function parseDate(value: string | null | undefined): Date | null {
   if (!value) return null;
@@ -17,11 +20,18 @@ export async function GET(request: NextRequest) {
       ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
       : null;
 
-    const { data: history, error } = await supabase
+    const clubTag = getClubScope(request);
+    let query = supabase
       .from("member_history")
       .select("*")
       .order("last_seen", { ascending: false });
 
+    if (clubTag) {
+      query = query.eq("club_tag", clubTag);
+    }
+
+    const { data: history, error } = await query;
+
     if (error) throw error;
 
     let filteredHistory = history || [];
@@ -39,7 +49,21 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    return NextResponse.json({ history: filteredHistory });
+    // Every other name each player went by, for alias search, and their role periods
+    const [aliasesByTag, rolePeriods] = await Promise.all([
+      getAliasesByTag(filteredHistory),
+      getRoleHistory(filteredHistory.map((record) => record.player_tag), clubTag),
+    ]);
+
+    return NextResponse.json({
+      history: filteredHistory.map((record) => ({
+        ...record,
+        aliases: aliasesByTag.get(record.player_tag) || [],
+        role_history: rolePeriods.filter(
+          (period) => period.player_tag === record.player_tag && period.club_tag === record.club_tag
+        ),
+      })),
+    });
   } catch (error) {
     console.error("Error fetching history:", error);
     return NextResponse.json(
@@ -52,7 +76,7 @@ export async function GET(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { player_tag, notes } = body;
+    const { player_tag, club_tag, notes } = body;
 
     if (!player_tag) {
       return NextResponse.json(
@@ -61,11 +85,18 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const { error } = await supabase
+    let query = supabase
       .from("member_history")
       .update({ notes: notes || null })
       .eq("player_tag", player_tag);
 
+    // History is kept per club; without club_tag the note applies to every club record
+    if (club_tag) {
+      query = query.eq("club_tag", club_tag);
+    }
+
+    const { error } = await query;
+
     if (error) throw error;
 
     return NextResponse.json({ success: true });
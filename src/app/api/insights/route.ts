@@ -1,22 +1,27 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getClubScope, getClubTimezone, getCurrentMemberTags } from "@/lib/clubs";
+import { fetchClubMatches, summarizeClubMatches } from "@/lib/club-match-stats";
+import { addDays, getZonedDayStart, getZonedToday } from "@/lib/timezone";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const now = new Date();
-    const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const prevWeekStart = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
-    const weekAgoStr = sevenDaysAgo.toISOString().split("T")[0];
-    const prevWeekStr = prevWeekStart.toISOString().split("T")[0];
+    const clubTag = getClubScope(request);
+    // daily_stats dates are club-local days
+    const timeZone = await getClubTimezone();
+    const today = getZonedToday(timeZone);
+    const weekAgoStr = addDays(today, -7);
+    const prevWeekStr = addDays(today, -14);
+    const weekAgo = getZonedDayStart(weekAgoStr, timeZone).toISOString();
+    const prevWeek = getZonedDayStart(prevWeekStr, timeZone).toISOString();
     // Parallel data fetches
-    const [currentMembersRes, membersRes, thisWeekStatsRes, prevWeekStatsRes] = await Promise.all([
-      supabase.from("member_history").select("player_tag").eq("is_current_member", true),
+    const [currentMemberTags, membersRes, thisWeekStatsRes] = await Promise.all([
+      getCurrentMemberTags(clubTag),
       supabase.from("members").select("player_tag, player_name, trophies, is_active, last_updated"),
-      supabase.from("daily_stats").select("player_tag, date, battles, wins, trophies_gained, trophies_lost").gte("date", weekAgoStr),
-      supabase.from("daily_stats").select("player_tag, battles").gte("date", prevWeekStr).lt("date", weekAgoStr),
+      supabase.from("daily_stats").select("player_tag, trophies_gained").gte("date", weekAgoStr),
     ]);
 
-    const currentTags = new Set((currentMembersRes.data || []).map(h => h.player_tag));
+    const currentTags = new Set(currentMemberTags);
     const members = (membersRes.data || []).filter(m => currentTags.has(m.player_tag));
     // Build name lookup — normalize tags to handle any format differences
     const nameMap = new Map<string, string>();
@@ -26,47 +31,44 @@ export async function GET() {
       if (!m.player_tag.startsWith("#")) nameMap.set(`#${m.player_tag}`, m.player_name);
     }
     const thisWeekStats = thisWeekStatsRes.data || [];
-    const prevWeekStats = prevWeekStatsRes.data || [];
+
+    // Club totals count each real match once, however many members played in it
+    const memberTags = members.map((m) => m.player_tag);
+    const [thisWeekMatches, prevWeekMatches] = await Promise.all([
+      fetchClubMatches({ since: weekAgo, playerTags: memberTags, clubTag }),
+      fetchClubMatches({ since: prevWeek, until: weekAgo, playerTags: memberTags, clubTag }),
+    ]);
+    const clubMatches = summarizeClubMatches(thisWeekMatches);
 
     // ============================
-    // 0. MEGA PIG STATUS — derived from tracked battle_history
+    // 0. MEGA PIG STATUS — derived from tracked matches
     // Note: Official API does not currently expose a direct club Mega Pig rank field.
     // ============================
-    const { data: recentBattles } = await supabase
-      .from("battle_history")
-      .select("battle_time, mode, result")
-      .in("player_tag", members.map((m) => m.player_tag))
-      .gte("battle_time", weekAgoStr);
-
-    const megaPigBattles = (recentBattles || []).filter((battle) => {
-      const mode = (battle.mode || "").toLowerCase();
+    const megaPigMatches = thisWeekMatches.filter((match) => {
+      const mode = (match.mode || "").toLowerCase();
       return mode.includes("mega") || mode.includes("pig");
     });
 
-    const megaPigWins = megaPigBattles.reduce((sum, battle) => {
-      return sum + (battle.result === "victory" ? 1 : 0);
-    }, 0);
+    const megaPigWins = megaPigMatches.filter((match) => match.result === "victory").length;
 
     const megaPigStatus = {
-      isTracked: megaPigBattles.length > 0,
+      isTracked: megaPigMatches.length > 0,
       totalWins: megaPigWins,
-      totalBattles: megaPigBattles.length,
+      totalBattles: megaPigMatches.length,
       rankReached: null as string | null,
-      lastBattleAt: megaPigBattles.length > 0
-        ? megaPigBattles
-            .map((battle) => new Date(battle.battle_time).getTime())
+      lastBattleAt: megaPigMatches.length > 0
+        ? megaPigMatches
+            .map((match) => new Date(match.battleTime).getTime())
             .sort((a, b) => b - a)[0]
         : null,
     };
 
     // ============================
-    // 1. WIN RATE — Club win percentage this week
+    // 1. WIN RATE — Club match win percentage this week
     // ============================
-    const totalWins = thisWeekStats.reduce((sum, s) => sum + (s.wins || 0), 0);
-    const totalBattlesThisWeek = thisWeekStats.reduce((sum, s) => sum + (s.battles || 0), 0);
-    const winRate = totalBattlesThisWeek > 0
-      ? Math.round((totalWins / totalBattlesThisWeek) * 100)
-      : 0;
+    const totalWins = clubMatches.wins;
+    const totalBattlesThisWeek = clubMatches.matches;
+    const winRate = clubMatches.winRate;
 
     // ============================
     // 2. KICK LIST — Inactive members (is_active = false, consistent with Active Players stat)
@@ -105,10 +107,10 @@ export async function GET() {
       });
 
     // ============================
-    // 3. ACTIVITY TREND — This week vs last week total battles
+    // 3. ACTIVITY TREND — This week vs last week club matches
     // ============================
-    const thisWeekTotal = thisWeekStats.reduce((sum, s) => sum + (s.battles || 0), 0);
-    const prevWeekTotal = prevWeekStats.reduce((sum, s) => sum + (s.battles || 0), 0);
+    const thisWeekTotal = thisWeekMatches.length;
+    const prevWeekTotal = prevWeekMatches.length;
     const trendDiff = prevWeekTotal > 0
       ? Math.round(((thisWeekTotal - prevWeekTotal) / prevWeekTotal) * 100)
       : thisWeekTotal > 0 ? 100 : 0;
@@ -167,6 +169,7 @@ export async function GET() {
         winRate,
         totalWins,
         totalBattlesThisWeek,
+        clubMatches,
         // Kick List
         kickList: kickCandidates,
         kickCount: kickCandidates.length,
@@ -1,28 +1,51 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getClubScope, getClubTimezone, getCurrentMemberTags } from "@/lib/clubs";
+import { fetchClubMatches, summarizeClubMatches } from "@/lib/club-match-stats";
+import { getRollupWatermark } from "@/lib/retention";
+import { addDays, daysBetween, getZonedDayStart, getZonedToday } from "@/lib/timezone";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const now = new Date();
-    const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    const clubTag = getClubScope(request);
 
     // Fetch all data in parallel
-    const [membersRes, allDailyStatsRes, currentMembersRes] = await Promise.all([
+    const [membersRes, allDailyStatsRes, monthlyStatsRes, rollupWatermark, currentMemberTags, timeZone] = await Promise.all([
       supabase.from("members").select("player_tag, player_name, trophies, highest_trophies, role, win_rate, solo_victories, duo_victories, trio_victories, brawlers_count, rank_current, rank_highest, exp_level"),
       supabase.from("daily_stats").select("player_tag, date, battles, wins, losses, star_player, trophies_gained, trophies_lost").limit(5000),
-      supabase.from("member_history").select("player_tag").eq("is_current_member", true),
+      // Days past the raw retention window only survive in the monthly rollups
+      supabase.from("monthly_stats").select("player_tag, battles, wins, losses, star_player, trophies_gained, trophies_lost, active_days").limit(5000),
+      getRollupWatermark("daily_stats"),
+      getCurrentMemberTags(clubTag),
+      getClubTimezone(),
     ]);
 
-    const currentTags = new Set((currentMembersRes.data || []).map((m) => m.player_tag));
+    const currentTags = new Set(currentMemberTags);
     const members = (membersRes.data || []).filter((m) => currentTags.has(m.player_tag));
-    const allDailyStats = allDailyStatsRes.data || [];
+    // Raw rows before the watermark are already counted in the rollups (purge may lag behind)
+    const allDailyStats = (allDailyStatsRes.data || []).filter((ds) => !rollupWatermark || ds.date >= rollupWatermark);
 
-    const weekAgoStr = sevenDaysAgo.toISOString().split("T")[0];
+    // daily_stats dates are club-local days, so "today" has to be too
+    const todayStr = getZonedToday(timeZone);
+    const weekAgoStr = addDays(todayStr, -7);
 
     // Aggregate weekly AND all-time stats from daily_stats
     const weeklyMap = new Map<string, { battles: number; wins: number; losses: number; starPlayer: number; trophiesGained: number; trophiesLost: number; activeDays: number }>();
     const allTimeMap = new Map<string, { battles: number; wins: number; losses: number; starPlayer: number; trophiesGained: number; trophiesLost: number; activeDays: number; dates: Set<string> }>();
 
+    // All-time starts from the rolled-up months
+    for (const ms of monthlyStatsRes.data || []) {
+      const at = allTimeMap.get(ms.player_tag) || { battles: 0, wins: 0, losses: 0, starPlayer: 0, trophiesGained: 0, trophiesLost: 0, activeDays: 0, dates: new Set<string>() };
+      at.battles += ms.battles || 0;
+      at.wins += ms.wins || 0;
+      at.losses += ms.losses || 0;
+      at.starPlayer += ms.star_player || 0;
+      at.trophiesGained += ms.trophies_gained || 0;
+      at.trophiesLost += ms.trophies_lost || 0;
+      at.activeDays += ms.active_days || 0;
+      allTimeMap.set(ms.player_tag, at);
+    }
+
     for (const ds of allDailyStats) {
       // All-time aggregation
       const at = allTimeMap.get(ds.player_tag) || { battles: 0, wins: 0, losses: 0, starPlayer: 0, trophiesGained: 0, trophiesLost: 0, activeDays: 0, dates: new Set<string>() };
@@ -58,7 +81,6 @@ export async function GET() {
         playerDates.get(ds.player_tag)!.push({ date: ds.date, battles: ds.battles || 0 });
       }
     }
-    const todayStr = now.toISOString().split("T")[0];
     for (const [tag, dates] of playerDates) {
       dates.sort((a, b) => a.date.localeCompare(b.date));
       let currentStreak = 0;
@@ -68,9 +90,7 @@ export async function GET() {
       for (let i = 0; i < dates.length; i++) {
         peakDayBattles = Math.max(peakDayBattles, dates[i].battles);
         if (i > 0) {
-          const prev = new Date(dates[i - 1].date);
-          const curr = new Date(dates[i].date);
-          const diffDays = (curr.getTime() - prev.getTime()) / (1000 * 60 * 60 * 24);
+          const diffDays = daysBetween(dates[i - 1].date, dates[i].date);
           if (diffDays === 1) {
             streak++;
           } else {
@@ -82,8 +102,7 @@ export async function GET() {
       bestStreak = Math.max(bestStreak, streak);
       // Current streak: check if last active date is today or yesterday
       const lastDate = dates[dates.length - 1].date;
-      const lastDateObj = new Date(lastDate);
-      const diffFromToday = (new Date(todayStr).getTime() - lastDateObj.getTime()) / (1000 * 60 * 60 * 24);
+      const diffFromToday = daysBetween(lastDate, todayStr);
       currentStreak = diffFromToday <= 1 ? streak : 0;
       streakMap.set(tag, { currentStreak, bestStreak, peakDayBattles });
     }
@@ -114,7 +133,7 @@ export async function GET() {
           starPlayer: at?.starPlayer || 0,
           trophiesGained: at?.trophiesGained || 0,
           trophiesLost: at?.trophiesLost || 0,
-          activeDays: at?.dates.size || 0,
+          activeDays: (at?.activeDays || 0) + (at?.dates.size || 0),
           currentStreak: streaks?.currentStreak || 0,
           bestStreak: streaks?.bestStreak || 0,
           peakDayBattles: streaks?.peakDayBattles || 0,
@@ -176,7 +195,16 @@ export async function GET() {
         .slice(0, 30),
     };
 
-    return NextResponse.json({ leaderboards, memberCount: enriched.length });
+    // Club-wide week, counted per match (member rows above count shared matches once each)
+    const weeklyClubMatches = summarizeClubMatches(
+      await fetchClubMatches({
+        since: getZonedDayStart(weekAgoStr, timeZone).toISOString(),
+        playerTags: members.map((m) => m.player_tag),
+        clubTag,
+      })
+    );
+
+    return NextResponse.json({ leaderboards, memberCount: enriched.length, club: { weekly: weeklyClubMatches } });
   } catch (error) {
     console.error("Error fetching leaderboard:", error);
     return NextResponse.json({ error: "Failed to fetch leaderboard" }, { status: 500 });
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { getClubScope, getCurrentMemberTags } from "@/lib/clubs";
+import { getLatestBrawlerSnapshots } from "@/lib/brawler-events";
+import { getLoadoutItems, getSnapshotLoadout } from "@/lib/loadouts";
+
+// Which current members own an item (gadget, star power, gear or hypercharge),
+// from each member's latest brawler snapshot. ?item= matches item names,
+// ?brawler= optionally narrows it to one brawler.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const item = (searchParams.get("item") || "").trim().toLowerCase();
+    const brawler = (searchParams.get("brawler") || "").trim().toLowerCase();
+    if (!item) {
+      return NextResponse.json({ error: "item is required" }, { status: 400 });
+    }
+
+    const clubTag = getClubScope(request);
+    const currentMemberTags = await getCurrentMemberTags(clubTag);
+    const [{ data: members }, snapshots] = await Promise.all([
+      supabase
+        .from("members")
+        .select("player_tag, player_name")
+        .in("player_tag", currentMemberTags.length > 0 ? currentMemberTags : [""]),
+      getLatestBrawlerSnapshots(currentMemberTags),
+    ]);
+    const nameMap = new Map((members || []).map((m) => [m.player_tag, m.player_name]));
+
+    const owners = [];
+    for (const [playerTag, brawlers] of snapshots) {
+      for (const snapshot of brawlers) {
+        if (brawler && !snapshot.brawler_name.toLowerCase().includes(brawler)) continue;
+        const loadout = getSnapshotLoadout(snapshot);
+        if (!loadout) continue;
+        for (const owned of getLoadoutItems(loadout)) {
+          if (!owned.name.toLowerCase().includes(item)) continue;
+          owners.push({
+            playerTag,
+            playerName: nameMap.get(playerTag) || playerTag,
+            brawlerName: snapshot.brawler_name,
+            power: snapshot.power_level,
+            kind: owned.kind,
+            itemName: owned.name,
+          });
+        }
+      }
+    }
+
+    owners.sort((a, b) => a.brawlerName.localeCompare(b.brawlerName) || b.power - a.power);
+    return NextResponse.json({ owners, membersChecked: snapshots.size });
+  } catch (error) {
+    console.error("Error searching loadouts:", error);
+    return NextResponse.json({ error: "Failed to search loadouts" }, { status: 500 });
+  }
+}
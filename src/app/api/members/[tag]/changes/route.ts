@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMemberChanges, isMemberChangeField, MEMBER_CHANGE_FIELDS } from "@/lib/member-changes";
+
+// Field change stream for one player, newest first. ?field= narrows it to one tracked
+// field, ?before= pages back from a changed_at timestamp.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tag: string }> }
+) {
+  try {
+    const { tag } = await params;
+    const playerTag = decodeURIComponent(tag);
+    const { searchParams } = new URL(request.url);
+    const field = searchParams.get("field");
+    const before = searchParams.get("before") || undefined;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "200"), 1000);
+
+    if (field !== null && !isMemberChangeField(field)) {
+      return NextResponse.json(
+        { error: `Unknown field. Tracked fields: ${MEMBER_CHANGE_FIELDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const changes = await getMemberChanges(playerTag, { field: field ?? undefined, before, limit });
+
+    return NextResponse.json({ changes });
+  } catch (error) {
+    console.error("Error fetching member changes:", error);
+    return NextResponse.json({ error: "Failed to fetch member changes" }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBrawlerEvents, getProgressionTotals } from "@/lib/brawler-events";
+
+// Brawler progression ledger for one player: newest events first plus all-time totals
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tag: string }> }
+) {
+  try {
+    const { tag } = await params;
+    const playerTag = decodeURIComponent(tag);
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "200"), 1000);
+
+    const [events, totals] = await Promise.all([
+      getBrawlerEvents(playerTag, limit),
+      getProgressionTotals(playerTag),
+    ]);
+
+    return NextResponse.json({ events, totals });
+  } catch (error) {
+    console.error("Error fetching brawler progression:", error);
+    return NextResponse.json({ error: "Failed to fetch brawler progression" }, { status: 500 });
+  }
+}
@@ -1,6 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
-import { getPlayer, setApiKey, getPlayerRankedData, getLastBattleTime, getPlayerBattleStats, getBrawlerPowerDistribution, calculateEnhancedStats, calculateWinRateFromBattleLog, getPlayerBattleLog } from "@/lib/brawl-api";
+import { configureDataSource } from "@/lib/data-source";
+import { getCacheAge } from "@/lib/response-cache";
+import { getMonthlyHistory } from "@/lib/retention";
+import { getProgressionTotals } from "@/lib/brawler-events";
+import { BrawlerLoadout, getBrawlerLoadout, getSnapshotLoadout } from "@/lib/loadouts";
+import { getClubTimezone } from "@/lib/clubs";
+import { getPlayerNames } from "@/lib/player-names";
+import { getRoleHistory } from "@/lib/role-history";
+import { addDays, getZonedToday } from "@/lib/timezone";
+import { getPlayer, getPlayerRankedData, getLastBattleTime, getPlayerBattleStats, getBrawlerPowerDistribution, calculateEnhancedStats, calculateWinRateFromBattleLog, getPlayerBattleLog } from "@/lib/brawl-api";
+
+type BrawlerBuild = {
+  id: number;
+  name: string;
+  power: number;
+  trophies: number;
+  loadout: BrawlerLoadout | null;
+};
 
 type RecentMatch = {
   battle_time: string;
@@ -25,9 +42,7 @@ export async function GET(
     const { searchParams } = new URL(request.url);
     const apiKey = searchParams.get('apiKey') || process.env.BRAWL_API_KEY;
     console.log(`[Member API] API key found: ${apiKey ? 'Yes' : 'No'}`);
-    if (apiKey) {
-      setApiKey(apiKey);
-    }
+    const hasDataSource = configureDataSource(apiKey);
 
     // Get member from database
     const { data: member, error } = await supabase
@@ -59,24 +74,47 @@ export async function GET(
       .order("battle_time", { ascending: false })
       .limit(25);
 
-    // Get member history
-    const { data: memberHistory } = await supabase
+    // Get member history (kept per club: the member's current club, else the latest one)
+    let memberHistoryQuery = supabase
       .from("member_history")
       .select("*")
-      .eq("player_tag", playerTag)
-      .single();
-
-    // Get daily stats from database (last 28 days)
-    const twentyEightDaysAgo = new Date();
-    twentyEightDaysAgo.setDate(twentyEightDaysAgo.getDate() - 28);
+      .eq("player_tag", playerTag);
+    if (member.club_tag) {
+      memberHistoryQuery = memberHistoryQuery.eq("club_tag", member.club_tag);
+    }
+    const { data: memberHistory } = await memberHistoryQuery
+      .order("last_seen", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    // Get daily stats from database (last 28 club-local days)
+    const timeZone = await getClubTimezone();
+    const twentyEightDaysAgo = addDays(getZonedToday(timeZone), -28);
     
     const { data: dailyStats } = await supabase
       .from("daily_stats")
       .select("*")
       .eq("player_tag", playerTag)
-      .gte("date", twentyEightDaysAgo.toISOString().slice(0, 10))
+      .gte("date", twentyEightDaysAgo)
       .order("date", { ascending: true });
 
+    // Ranked points over time (oldest first, for the chart)
+    const { data: rankedHistory } = await supabase
+      .from("ranked_snapshots")
+      .select("current_points, highest_points, current_rank, recorded_at")
+      .eq("player_tag", playerTag)
+      .order("recorded_at", { ascending: false })
+      .limit(500);
+
+    // Month-by-month stats beyond the raw retention window (from the rollups)
+    const monthlyHistory = await getMonthlyHistory(playerTag);
+
+    // Every name this tag has gone by, and every role held in any club
+    const [names, roleHistory] = await Promise.all([
+      getPlayerNames(playerTag),
+      getRoleHistory([playerTag]),
+    ]);
+
     // Get player tracking info
     const { data: playerTracking } = await supabase
       .from("player_tracking")
@@ -84,10 +122,19 @@ export async function GET(
       .eq("player_tag", playerTag)
       .single();
 
-    // Calculate enhanced stats from stored data
+    // Calculate enhanced stats from stored data (power-up / unlock totals from the ledger)
     let enhancedStats = null;
     if (dailyStats && dailyStats.length > 0) {
-      enhancedStats = calculateEnhancedStats(dailyStats, playerTracking);
+      const progression = await getProgressionTotals(playerTag);
+      enhancedStats = calculateEnhancedStats(
+        dailyStats,
+        {
+          power_ups: progression.powerUps,
+          unlocks: progression.unlocks,
+          tracking_started: playerTracking?.tracking_started || new Date().toISOString(),
+        },
+        timeZone
+      );
     }
 
     // Fetch additional data from API
@@ -105,13 +152,15 @@ export async function GET(
       icon_url: string;
     }> = [];
     let playerTags: string[] = [];
+    // Every brawler's gadgets, star powers, gears and hypercharges
+    let loadouts: BrawlerBuild[] = [];
 
-    if (apiKey) {
+    if (hasDataSource) {
       try {
         // Run API calls in parallel
         const [battleTimeResult, battleStatsResult, playerData] = await Promise.all([
           getLastBattleTime(playerTag),
-          getPlayerBattleStats(playerTag),
+          getPlayerBattleStats(playerTag, timeZone),
           getPlayer(playerTag),
         ]);
 
@@ -131,6 +180,13 @@ export async function GET(
 
         brawlers = playerData.brawlers;
         powerDistribution = getBrawlerPowerDistribution(playerData.brawlers);
+        loadouts = playerData.brawlers.map((brawler) => ({
+          id: brawler.id,
+          name: brawler.name,
+          power: brawler.power,
+          trophies: brawler.trophies,
+          loadout: getBrawlerLoadout(brawler),
+        }));
 
         // Top brawlers by trophies
         topBrawlers = [...playerData.brawlers]
@@ -191,7 +247,7 @@ export async function GET(
     if (topBrawlers.length === 0) {
       const { data: snapshotRows } = await supabase
         .from("brawler_snapshots")
-        .select("brawler_id, brawler_name, power_level, trophies, rank, recorded_at")
+        .select("brawler_id, brawler_name, power_level, trophies, rank, gadgets, star_powers, gears, hypercharges, recorded_at")
         .eq("player_tag", playerTag)
         .order("recorded_at", { ascending: false })
         .limit(500);
@@ -203,6 +259,7 @@ export async function GET(
         trophies: number;
         rank: number;
         max_trophies: number;
+        loadout: BrawlerLoadout | null;
       }>();
 
       for (const row of snapshotRows || []) {
@@ -215,6 +272,7 @@ export async function GET(
             trophies: row.trophies,
             rank: row.rank,
             max_trophies: row.trophies,
+            loadout: getSnapshotLoadout(row),
           });
         } else if (row.trophies > existing.max_trophies) {
           existing.max_trophies = row.trophies;
@@ -222,6 +280,14 @@ export async function GET(
         }
       }
 
+      loadouts = Array.from(latestByBrawler.values()).map((brawler) => ({
+        id: brawler.brawler_id,
+        name: brawler.brawler_name,
+        power: brawler.power_level,
+        trophies: brawler.trophies,
+        loadout: brawler.loadout,
+      }));
+
       topBrawlers = Array.from(latestByBrawler.values())
         .sort((a, b) => b.trophies - a.trophies)
         .slice(0, 5)
@@ -246,9 +312,18 @@ export async function GET(
       powerDistribution,
       brawlers,
       topBrawlers,
+      loadouts,
       recentMatches: (recentMatches || []) as RecentMatch[],
       playerTags,
       calendarBattlesByDay,
+      rankedHistory: (rankedHistory || []).reverse(),
+      monthlyHistory,
+      names,
+      roleHistory,
+      // How old the live API data above is (it may come from the response cache)
+      dataAge: hasDataSource
+        ? { player: getCacheAge("player", playerTag), battleLog: getCacheAge("battlelog", playerTag) }
+        : null,
     });
   } catch (error) {
     console.error("Error fetching member:", error);
@@ -270,31 +345,31 @@ export async function POST(
     const body = await request.json();
     const apiKey = body.apiKey || process.env.BRAWL_API_KEY;
 
-    if (!apiKey) {
+    if (!configureDataSource(apiKey)) {
       return NextResponse.json(
         { error: "API key required" },
         { status: 400 }
       );
     }
-
-    setApiKey(apiKey);
     
     // Fetch player data, ranked data, and battle log in parallel
+    // (cached copies are reused unless the caller forces a refresh)
+    const cacheOptions = { refresh: body.force === true };
     const [player, rankedData, battleLog] = await Promise.all([
-      getPlayer(playerTag),
-      getPlayerRankedData(playerTag),
-      getPlayerBattleLog(playerTag),
+      getPlayer(playerTag, cacheOptions),
+      getPlayerRankedData(playerTag, cacheOptions),
+      getPlayerBattleLog(playerTag, cacheOptions),
     ]);
     
     // Calculate win rate from battle log
     const winRateData = calculateWinRateFromBattleLog(battleLog);
 
-    // Get previous trophies
+    // Stored member row (its values are what the next sync diffs against)
     const { data: existingMember } = await supabase
       .from("members")
-      .select("trophies")
+      .select("trophies, club_tag")
       .eq("player_tag", playerTag)
-      .single() as { data: { trophies: number } | null };
+      .single() as { data: { trophies: number; club_tag: string | null } | null };
 
     const trophyChange = existingMember
       ? player.trophies - existingMember.trophies
@@ -307,21 +382,12 @@ export async function POST(
       activityType = "minimal";
     }
 
-    // Update member
-    const { data: updatedMember, error } = await supabase
+    // Only untracked fields are written here. Name, trophies, rank and the other tracked
+    // fields are left to the sync, which records their member_changes, ranked snapshots,
+    // milestones and rank notifications; the response carries the live values.
+    const { data: storedMember, error } = await supabase
       .from("members")
       .update({
-        player_name: player.name,
-        trophies: player.trophies,
-        highest_trophies: player.highestTrophies,
-        exp_level: player.expLevel,
-        rank_current: rankedData.currentRank,
-        rank_highest: rankedData.highestRank,
-        win_rate: winRateData.winRate,
-        brawlers_count: player.brawlers.length,
-        solo_victories: player.soloVictories,
-        duo_victories: player.duoVictories,
-        trio_victories: player["3vs3Victories"],
         is_active: activityType === "active",
         last_updated: new Date().toISOString(),
       })
@@ -331,9 +397,25 @@ export async function POST(
 
     if (error) throw error;
 
+    const updatedMember = {
+      ...storedMember,
+      player_name: player.name,
+      trophies: player.trophies,
+      highest_trophies: player.highestTrophies,
+      exp_level: player.expLevel,
+      rank_current: rankedData.currentRank !== "Unranked" ? rankedData.currentRank : storedMember.rank_current,
+      rank_highest: rankedData.highestRank !== "Unranked" ? rankedData.highestRank : storedMember.rank_highest,
+      win_rate: winRateData.winRate,
+      brawlers_count: player.brawlers.length,
+      solo_victories: player.soloVictories,
+      duo_victories: player.duoVictories,
+      trio_victories: player["3vs3Victories"],
+    };
+
     // Log activity
     await supabase.from("activity_log").insert({
       player_tag: playerTag,
+      club_tag: existingMember?.club_tag ?? null,
       trophies: player.trophies,
       trophy_change: trophyChange,
       activity_type: activityType,
@@ -343,6 +425,7 @@ export async function POST(
       success: true,
       member: updatedMember,
       brawlers: player.brawlers,
+      dataAge: { player: getCacheAge("player", playerTag), battleLog: getCacheAge("battlelog", playerTag) },
     });
   } catch (error) {
     console.error("Error refreshing member:", error);
@@ -1,15 +1,13 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getClubScope, getCurrentMemberTags } from "@/lib/clubs";
+import { getAliasesByTag } from "@/lib/player-names";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Get current member tags from member_history
-    const { data: currentMemberHistory } = await supabase
-      .from("member_history")
-      .select("player_tag")
-      .eq("is_current_member", true);
-    
-    const currentMemberTags = currentMemberHistory?.map(h => h.player_tag) || [];
+    // Get current member tags from member_history (optionally scoped to one club)
+    const clubTag = getClubScope(request);
+    const currentMemberTags = await getCurrentMemberTags(clubTag);
 
     // Only fetch members who are currently in the club
     const { data: members, error } = await supabase
@@ -98,6 +96,9 @@ export async function GET() {
       return nearest;
     };
 
+    // Former names, so search still finds renamed members
+    const aliasesByTag = await getAliasesByTag(members || []);
+
     // Calculate gains and activity for each member
     const membersWithGains = (members || []).map((member) => {
       const playerLogs = logsByPlayer.get(member.player_tag) || [];
@@ -121,6 +122,7 @@ export async function GET() {
 
         return {
           ...member,
+          aliases: aliasesByTag.get(member.player_tag) || [],
           trophies_24h: fallback24h,
           trophies_7d: fallback7d,
           activity_status: activityStatus,
@@ -166,6 +168,7 @@ export async function GET() {
 
       return {
         ...member,
+        aliases: aliasesByTag.get(member.player_tag) || [],
         trophies_24h: trophies24h,
         trophies_7d: trophies7d,
         activity_status: activityStatus,
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { parseChannelConfig, validateChannel } from "@/lib/channel-kinds";
+import { NotificationType } from "@/lib/notification-types";
+import type { NotificationChannelRecord } from "@/types/database";
+
+const EDITABLE_FIELDS = ["kind", "name", "config", "enabled"] as const;
+
+function pickChannelFields(body: Record<string, unknown>): Partial<NotificationChannelRecord> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (key in body) fields[key] = body[key];
+  }
+  if (typeof fields.name === "string") fields.name = fields.name.trim();
+  if ("config" in fields) fields.config = parseChannelConfig(fields.config as NotificationChannelRecord["config"]);
+  return fields as Partial<NotificationChannelRecord>;
+}
+
+// Replace the notification types routed to a channel
+async function setChannelRoutes(channelId: number, types: NotificationType[]) {
+  const { error: deleteError } = await supabase
+    .from("notification_routes")
+    .delete()
+    .eq("channel_id", channelId);
+  if (deleteError) throw deleteError;
+
+  if (types.length === 0) return;
+  const { error } = await supabase
+    .from("notification_routes")
+    .insert([...new Set(types)].map((type) => ({ notification_type: type, channel_id: channelId })));
+  if (error) throw error;
+}
+
+// GET - All notification channels with the notification types routed to each
+export async function GET() {
+  try {
+    const [{ data: channels, error }, { data: routes, error: routesError }] = await Promise.all([
+      supabase.from("notification_channels").select("*").order("id", { ascending: true }),
+      supabase.from("notification_routes").select("notification_type, channel_id"),
+    ]);
+
+    if (error) throw error;
+    if (routesError) throw routesError;
+
+    return NextResponse.json({
+      channels: (channels || []).map((channel) => ({
+        ...channel,
+        types: (routes || []).filter((r) => r.channel_id === channel.id).map((r) => r.notification_type),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching notification channels:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification channels" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a channel ({ kind, name, config, types? })
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const channel = pickChannelFields(body);
+    const invalid = validateChannel({ ...channel, types: body.types });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("notification_channels")
+      .insert(channel as NotificationChannelRecord)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const types: NotificationType[] = body.types || [];
+    await setChannelRoutes(data.id, types);
+
+    return NextResponse.json({ channel: { ...data, types } });
+  } catch (error) {
+    console.error("Error creating notification channel:", error);
+    return NextResponse.json(
+      { error: "Failed to create notification channel" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update a channel ({ id, ...fields, types? }); types replaces its routes
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("notification_channels")
+      .select("*")
+      .eq("id", body.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    }
+
+    const changes = pickChannelFields(body);
+    const invalid = validateChannel({ ...existing, ...changes, types: body.types });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    let channel = existing;
+    if (Object.keys(changes).length > 0) {
+      const { data, error } = await supabase
+        .from("notification_channels")
+        .update(changes)
+        .eq("id", body.id)
+        .select()
+        .single();
+      if (error) throw error;
+      channel = data;
+    }
+
+    if (body.types !== undefined) await setChannelRoutes(existing.id, body.types);
+
+    return NextResponse.json({ channel });
+  } catch (error) {
+    console.error("Error updating notification channel:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification channel" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a channel (?id=); its routes go with it
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("notification_channels")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting notification channel:", error);
+    return NextResponse.json(
+      { error: "Failed to delete notification channel" },
+      { status: 500 }
+    );
+  }
+}
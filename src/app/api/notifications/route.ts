@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createHash } from "crypto";
 import { supabase } from "@/lib/supabase";
+import { getClubScope } from "@/lib/clubs";
 
 function buildNotificationDedupeKey(
   type: string,
@@ -29,6 +30,7 @@ function isMissingNotificationsTable(error: unknown): boolean {
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
+    const clubTag = getClubScope(request);
     const unreadOnly = searchParams.get("unreadOnly") === "true";
     const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
     const typesParam = searchParams.get("types");
@@ -64,7 +66,8 @@ export async function GET(request: NextRequest) {
             uniqueKeys.add(key);
             return true;
           })
-          .map((e: { event_type: string; player_name: string; player_tag: string; event_time: string }) => ({
+          .map((e: { event_type: string; player_name: string; player_tag: string; event_time: string; club_tag: string | null }) => ({
+          club_tag: e.club_tag,
           type: e.event_type,
           title: e.event_type === "join" ? "Member Joined" : "Member Left",
           message: `${e.player_name} (${e.player_tag}) ${e.event_type === "join" ? "joined" : "left"} the club.`,
@@ -93,6 +96,7 @@ export async function GET(request: NextRequest) {
     let query = supabase
       .from("notifications")
       .select("*")
+      .eq("show_in_panel", true)
       .order("created_at", { ascending: false })
       .limit(limit);
 
@@ -104,6 +108,10 @@ export async function GET(request: NextRequest) {
       query = query.in("type", types);
     }
 
+    if (clubTag) {
+      query = query.eq("club_tag", clubTag);
+    }
+
     const { data: notifications, error } = await query;
     if (error) {
       if (isMissingNotificationsTable(error)) {
@@ -113,11 +121,18 @@ export async function GET(request: NextRequest) {
     }
 
     // Also get unread count
-    const { count, error: countError } = await supabase
+    let countQuery = supabase
       .from("notifications")
       .select("*", { count: "exact", head: true })
+      .eq("show_in_panel", true)
       .eq("is_read", false);
 
+    if (clubTag) {
+      countQuery = countQuery.eq("club_tag", clubTag);
+    }
+
+    const { count, error: countError } = await countQuery;
+
     if (countError) {
       if (isMissingNotificationsTable(countError)) {
         return NextResponse.json({ notifications: notifications || [], unreadCount: 0, tableMissing: true });
@@ -139,16 +154,20 @@ export async function GET(request: NextRequest) {
 }
 
 // PATCH — Mark notifications as read
-// Body: { ids: number[] } to mark specific ones, or { all: true } to mark all
+// Body: { ids: number[] } to mark specific ones, or { all: true, clubTag? } to mark all
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
 
     if (body.all === true) {
-      const { error } = await supabase
+      let query = supabase
         .from("notifications")
         .update({ is_read: true })
         .eq("is_read", false);
+      if (body.clubTag) {
+        query = query.eq("club_tag", body.clubTag);
+      }
+      const { error } = await query;
       if (error) {
         if (isMissingNotificationsTable(error)) {
           return NextResponse.json({ success: true, tableMissing: true });
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { validateRule } from "@/lib/notification-rules";
+import type { NotificationRule } from "@/types/database";
+
+const EDITABLE_FIELDS = ["name", "condition", "threshold", "rank_tier", "club_tag", "channels", "cooldown_hours", "enabled"] as const;
+
+function pickRuleFields(body: Record<string, unknown>): Partial<NotificationRule> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (key in body) fields[key] = body[key];
+  }
+  if (typeof fields.name === "string") fields.name = fields.name.trim();
+  if (fields.club_tag === "") fields.club_tag = null;
+  return fields as Partial<NotificationRule>;
+}
+
+// GET - All notification rules, oldest first
+export async function GET() {
+  try {
+    const { data, error } = await supabase
+      .from("notification_rules")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({ rules: data || [] });
+  } catch (error) {
+    console.error("Error fetching notification rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a rule
+export async function POST(request: NextRequest) {
+  try {
+    const rule = pickRuleFields(await request.json());
+    const invalid = validateRule(rule);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("notification_rules")
+      .insert(rule)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ rule: data });
+  } catch (error) {
+    console.error("Error creating notification rule:", error);
+    return NextResponse.json(
+      { error: "Failed to create notification rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update a rule ({ id, ...fields })
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("notification_rules")
+      .select("*")
+      .eq("id", body.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    const changes = pickRuleFields(body);
+    const invalid = validateRule({ ...existing, ...changes });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("notification_rules")
+      .update(changes)
+      .eq("id", body.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ rule: data });
+  } catch (error) {
+    console.error("Error updating notification rule:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a rule (?id=); its per-player state goes with it
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("notification_rules")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting notification rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete notification rule" },
+      { status: 500 }
+    );
+  }
+}
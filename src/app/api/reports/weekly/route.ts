@@ -1,15 +1,14 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getClubScope, getClubTimezone, getCurrentMemberTags } from "@/lib/clubs";
+import { fetchClubMatches, summarizeClubMatches } from "@/lib/club-match-stats";
+import { addDays, getZonedDayStart, getZonedToday, toZonedDate } from "@/lib/timezone";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     // Get current member tags from member_history (same logic as /api/members)
-    const { data: currentMemberHistory } = await supabase
-      .from("member_history")
-      .select("player_tag")
-      .eq("is_current_member", true);
-    
-    const currentMemberTags = currentMemberHistory?.map(h => h.player_tag) || [];
+    const clubTag = getClubScope(request);
+    const currentMemberTags = await getCurrentMemberTags(clubTag);
 
     // Only fetch members who are currently in the club
     const { data: members, error } = await supabase
@@ -20,9 +19,13 @@ export async function GET() {
 
     if (error) throw error;
 
+    // The report covers the last 7 club-local days, starting at midnight in the club timezone
+    const timeZone = await getClubTimezone();
+    const today = getZonedToday(timeZone);
+    const weekAgoDate = addDays(today, -7);
+    const weekAgo = getZonedDayStart(weekAgoDate, timeZone);
+
     // Get activity logs from last 7 days
-    const weekAgo = new Date();
-    weekAgo.setDate(weekAgo.getDate() - 7);
 
     const { data: activityLogs } = await supabase
       .from("activity_log")
@@ -30,19 +33,23 @@ export async function GET() {
       .gte("recorded_at", new Date(weekAgo.getTime() - 24 * 60 * 60 * 1000).toISOString())
       .order("recorded_at", { ascending: true });
 
-    const weekAgoDate = weekAgo.toISOString().slice(0, 10);
-    const { data: weeklyStats } = await supabase
-      .from("daily_stats")
-      .select("player_tag, wins, battles")
-      .in("player_tag", currentMemberTags.length > 0 ? currentMemberTags : [""])
-      .gte("date", weekAgoDate);
+    // Club wins and battles count each real match once
+    const weeklyMatches = summarizeClubMatches(
+      await fetchClubMatches({ since: weekAgo.toISOString(), playerTags: currentMemberTags, clubTag })
+    );
 
     // Get events from last 7 days
-    const { data: events } = await supabase
+    let eventsQuery = supabase
       .from("club_events")
       .select("*")
       .gte("event_time", weekAgo.toISOString());
 
+    if (clubTag) {
+      eventsQuery = eventsQuery.eq("club_tag", clubTag);
+    }
+
+    const { data: events } = await eventsQuery;
+
     if (!members) {
       return NextResponse.json({ error: "No data available" }, { status: 404 });
     }
@@ -110,12 +117,6 @@ export async function GET() {
     const hasRealLosses = negativeLosers.length > 0;
     const topLosers = hasRealLosses ? negativeLosers : allChanges.slice(0, 5);
 
-    const weeklyWins = (weeklyStats || []).reduce((sum, row) => sum + (row.wins || 0), 0);
-    const weeklyBattles = (weeklyStats || []).reduce((sum, row) => sum + (row.battles || 0), 0);
-    const weeklyWinRate = weeklyBattles > 0
-      ? Math.round((weeklyWins / weeklyBattles) * 100)
-      : 0;
-
     // Activity distribution
     const activityDistribution = {
       active: members.filter((m) => m.is_active).length,
@@ -129,7 +130,7 @@ export async function GET() {
     // Group logs by date, then sum the latest trophy value for each player on that date
     const logsByDate: Record<string, Record<string, number>> = {};
     activityLogs?.forEach((log) => {
-      const date = new Date(log.recorded_at).toISOString().slice(0, 10);
+      const date = toZonedDate(log.recorded_at, timeZone);
       if (!logsByDate[date]) {
         logsByDate[date] = {};
       }
@@ -143,7 +144,6 @@ export async function GET() {
     });
 
     // Add today's total from current members if not already present
-    const today = new Date().toISOString().slice(0, 10);
     if (!dailyTrophies[today] && members.length > 0) {
       dailyTrophies[today] = totalTrophies;
     }
@@ -153,6 +153,7 @@ export async function GET() {
       period: {
         start: weekAgo.toISOString(),
         end: new Date().toISOString(),
+        timeZone,
       },
       summary: {
         totalMembers: members.length,
@@ -160,9 +161,11 @@ export async function GET() {
         avgTrophies: Math.round(totalTrophies / members.length),
         activeMembers: activeCount,
         activityRate: Math.round((activeCount / members.length) * 100),
-        weeklyWins,
-        weeklyBattles,
-        weeklyWinRate,
+        weeklyWins: weeklyMatches.wins,
+        weeklyBattles: weeklyMatches.matches,
+        weeklyWinRate: weeklyMatches.winRate,
+        weeklyStacked: weeklyMatches.stacked,
+        weeklySolo: weeklyMatches.solo,
       },
       topGainers,
       topLosers,
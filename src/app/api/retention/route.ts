@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { getRetentionPolicy, getRollupWatermark, isRetentionTable } from "@/lib/retention";
+
+// GET - Retention days per table, plus how far the monthly rollups reach
+export async function GET() {
+  try {
+    const [tables, dailyWatermark, battleWatermark] = await Promise.all([
+      getRetentionPolicy(),
+      getRollupWatermark("daily_stats"),
+      getRollupWatermark("battle_history"),
+    ]);
+
+    return NextResponse.json({
+      tables,
+      rollups: {
+        monthly_stats: dailyWatermark,
+        monthly_brawler_stats: battleWatermark,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching retention settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch retention settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save retention days ({ days: { battle_history: 60, ... } }); applied on the next sync
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const days: Record<string, unknown> = body.days || {};
+
+    const upserts = [];
+    for (const [table, value] of Object.entries(days)) {
+      const parsed = parseInt(String(value), 10);
+      if (!isRetentionTable(table) || !(parsed >= 1)) {
+        return NextResponse.json(
+          { error: `Invalid retention for ${table}` },
+          { status: 400 }
+        );
+      }
+      upserts.push({ key: `retention_days:${table}`, value: String(parsed) });
+    }
+
+    if (upserts.length > 0) {
+      const { error } = await supabase
+        .from("settings")
+        .upsert(upserts, { onConflict: "key" });
+
+      if (error) throw error;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error saving retention settings:", error);
+    return NextResponse.json(
+      { error: "Failed to save retention settings" },
+      { status: 500 }
+    );
+  }
+}
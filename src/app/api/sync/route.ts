@@ -1,7 +1,74 @@
-import { NextRequest, NextResponse } from "next/server";
-import { createHash } from "crypto";
-import { getClub, getPlayer, setApiKey, getPlayerRankedData, getPlayerBattleLog, processBattleLog, calculateWinRateFromBattleLog, BrawlStarsBattleLog } from "@/lib/brawl-api";
+import { after, NextRequest, NextResponse } from "next/server";
+import { createHash, randomUUID } from "crypto";
+import { countApiCalls, getClub, getPlayer, getRateLimiterMetrics, getPlayerRankedData, getPlayerBattleLog, processBattleLog, calculateWinRateFromBattleLog, BrawlStarsBattleLog, BrawlStarsClub, BrawlStarsMember, ProcessedBattle } from "@/lib/brawl-api";
 import { supabase } from "@/lib/supabase";
+import { getRegisteredClubs, normalizeClubTag, registerClub } from "@/lib/clubs";
+import { configureDataSource, getDataSourceKind } from "@/lib/data-source";
+import { getRankTierIndex } from "@/lib/ranked";
+import { applyRetention, getRetentionPolicy } from "@/lib/retention";
+import { buildDailyStats, rebucketDailyStats } from "@/lib/daily-stats";
+import { backfillMatches, storeMatches } from "@/lib/matches";
+import { getBrawlerLoadout, LoadoutItem } from "@/lib/loadouts";
+import { ClubSettingChange, diffClubSettings, getLatestClubSnapshot, toClubSnapshot } from "@/lib/club-snapshots";
+import { backfillBrawlerEvents, diffBrawlerSnapshots, getLatestBrawlerSnapshots, recordBrawlerEvents } from "@/lib/brawler-events";
+import { diffMemberFields, MEMBER_CHANGE_FIELDS, toMemberChangeRows, TrackedMember } from "@/lib/member-changes";
+import { recordPlayerNames } from "@/lib/player-names";
+import { findBrawlerRankMilestones, findMemberMilestones, getUnannouncedMilestones, Milestone, MILESTONE_LADDER_KEY, MILESTONE_TITLES, MilestoneLadder, parseMilestoneLadder, recordMilestones } from "@/lib/milestones";
+import { evaluateNotificationRules, RuleEvaluation, RulePreview, saveRuleState } from "@/lib/rule-evaluation";
+import { closeRolePeriods, recordRolePeriods } from "@/lib/role-history";
+import { emitWebhookEvents, runDueWebhookDeliveries, WebhookEventInput } from "@/lib/event-webhooks";
+import {
+  ChannelDelivery,
+  ChannelRouting,
+  getChannelDeliveries,
+  getChannelRouting,
+  queueNotificationDeliveries,
+  runDueNotificationDeliveries,
+} from "@/lib/notification-channels";
+import { normalizeRole } from "@/lib/utils";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "@/lib/timezone";
+import {
+  BattleLogSample,
+  ClockSkewReading,
+  correctBattleTime,
+  createClockSkewReading,
+  estimateClockOffset,
+  mergeClockSkew,
+  recorrectStoredBattles,
+} from "@/lib/clock-skew";
+import {
+  closeOpenSyncRuns,
+  createInvocationTally,
+  recordSyncInvocation,
+  startSyncRun,
+  SyncInvocationTally,
+  SyncMemberFailure,
+  SyncTrigger,
+} from "@/lib/sync-runs";
+import {
+  acquireSyncLease,
+  getSyncLease,
+  parseSyncBusyMode,
+  releaseSyncLease,
+  renewSyncLease,
+  SyncBusyMode,
+  waitForSyncLease,
+} from "@/lib/sync-lock";
+import type { Club, SyncJob } from "@/types/database";
+
+// Members processed per slice. An invocation keeps taking slices until its time
+// budget is used up, then saves the job cursor and returns; the next call resumes.
+const SLICE_SIZE = 8;
+const SYNC_TIME_BUDGET_MS = parseInt(process.env.SYNC_TIME_BUDGET_MS || "", 10) || 8000;
+// Jobs that haven't finished by then are abandoned and a fresh job is started
+const SYNC_JOB_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+// How long a "wait"/"attach" caller waits for another invocation to release the lease
+const SYNC_LOCK_WAIT_MS = Math.floor(SYNC_TIME_BUDGET_MS / 2);
+
+// Function time limit (seconds). A cron call resumes the job within it, leaving room for
+// one more budget plus the slice or step that runs past it.
+export const maxDuration = 60;
+const CRON_RESUME_HEADROOM_MS = 2 * SYNC_TIME_BUDGET_MS;
 
 function buildNotificationDedupeKey(
   type: string,
@@ -17,13 +84,18 @@ function buildNotificationDedupeKey(
     .digest("hex");
 }
 
+// Long club descriptions are shortened in notification text
+function truncate(text: string, maxLength: number) {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
 // GET handler for Vercel Cron Jobs and GitHub Actions
 export async function GET(request: NextRequest) {
   try {
     // Optional: Verify cron secret if configured
     const authHeader = request.headers.get("authorization");
     const cronSecret = process.env.CRON_SECRET;
-    
+
     // Only check auth if CRON_SECRET is actually set on the server
     if (cronSecret && cronSecret.length > 0) {
       if (authHeader !== `Bearer ${cronSecret}`) {
@@ -33,8 +105,17 @@ export async function GET(request: NextRequest) {
     }
 
     console.log("Cron sync triggered via GET");
-    // Call the main sync logic
-    return await syncClubData();
+    // Call the main sync logic (?onBusy=wait|attach, default: 409 if a sync is running)
+    const onBusy = parseSyncBusyMode(request.nextUrl.searchParams.get("onBusy"));
+    const cronStart = Date.now();
+    let response = await syncClubData(undefined, undefined, false, "cron", onBusy);
+
+    // Keep resuming the job while time is left, so a single scheduled call (e.g. the
+    // daily Vercel cron) finishes jobs that need more than one budget
+    while (response.status === 202 && Date.now() - cronStart + CRON_RESUME_HEADROOM_MS < maxDuration * 1000) {
+      response = await syncClubData(undefined, undefined, false, "cron", onBusy);
+    }
+    return response;
   } catch (error) {
     console.error("GET sync error:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -49,7 +130,15 @@ export async function POST(request: NextRequest) {
   try {
     // Get settings from request body
     const body = await request.json().catch(() => ({}));
-    return await syncClubData(body.clubTag, body.apiKey, body.initialSetup === true);
+    const isInitialSetup = body.initialSetup === true;
+    return await syncClubData(
+      body.clubTag,
+      body.apiKey,
+      isInitialSetup,
+      isInitialSetup ? "setup" : "manual",
+      parseSyncBusyMode(body.onBusy),
+      body.dryRun === true
+    );
   } catch (error) {
     console.error("POST sync error:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -60,16 +149,148 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function syncClubData(providedClubTag?: string, providedApiKey?: string, isInitialSetup = false) {
+type SyncEvent = {
+  club_tag: string;
+  event_type: string;
+  player_tag: string;
+  player_name: string;
+  from_club_tag?: string | null;
+};
+
+// The stored member row a sync compares against
+type ExistingMember = TrackedMember & {
+  player_tag: string;
+  is_active: boolean;
+};
+
+type HistoryRow = {
+  club_tag: string;
+  player_tag: string;
+  player_name: string;
+  times_joined: number;
+  times_left: number;
+  is_current_member: boolean;
+};
+
+type MemberChangeNotif = {
+  type: string;
+  title: string;
+  message: string;
+  player_tag: string;
+  player_name: string;
+  // Previous and new value, for role changes
+  from?: string | null;
+  to?: string | null;
+};
+
+// A current member missing from the roster fetched when the job started
+type Leaver = {
+  player_tag: string;
+  player_name: string;
+  times_left: number;
+  role: string | null;
+  trophies: number | null;
+};
+
+// Per-club results accumulated across slices, consumed by the finalize step
+interface ClubJobResult {
+  synced: number;
+  events: SyncEvent[];
+  memberChangeNotifs: MemberChangeNotif[];
+  inactiveMembers: Array<{ player_tag: string; player_name: string }>;
+  // Missing from the state of jobs started before milestones existed
+  milestones?: Milestone[];
+}
+
+// Everything a later invocation needs to carry on where the previous one stopped
+interface SyncJobState {
+  // Where each player is right now, according to the rosters fetched at job start
+  currentClubByPlayer: Record<string, string>;
+  // Where each player was a current member before the job wrote anything
+  previousClubByPlayer: Record<string, string>;
+  // Clubs with no member history yet: existing members don't produce join events
+  firstSyncClubs: string[];
+  leaversByClub: Record<string, Leaver[]>;
+  results: Record<string, ClubJobResult>;
+  // Battle clock offset detected per data source so far (ms, see clock-skew.ts)
+  clockOffsets?: Record<string, number>;
+  // Set once finalizing starts, so a finalize cut short resumes after its last done step
+  finalize?: FinalizeProgress;
+}
+
+// Job-wide finalize steps, run in this order after every club is finalized
+const FINALIZE_STEPS = ["recorrect_battles", "backfill_matches", "backfill_brawler_events", "rebucket_daily_stats", "retention"] as const;
+
+type FinalizeStep = (typeof FINALIZE_STEPS)[number];
+
+interface FinalizeProgress {
+  // Finalized clubs and what they reported for the summary
+  clubs: Record<string, { synced: number; events: SyncEvent[] }>;
+  steps: FinalizeStep[];
+}
+
+type JobRoster = { club_tag: string; club: BrawlStarsClub | null };
+
+// A member row as a dry run would change it (new members list every field)
+type MemberFieldChange = {
+  player_tag: string;
+  player_name: string;
+  is_new: boolean;
+  changes: Record<string, { from: unknown; to: unknown }>;
+};
+
+type SliceResult = ClubJobResult & {
+  failures: SyncMemberFailure[];
+  memberChanges: MemberFieldChange[];
+  milestones: Milestone[];
+  clockSkew?: ClockSkewReading;
+  // Dry runs only
+  rulePreview?: RulePreview;
+};
+
+type ActiveSyncJob = Omit<SyncJob, "rosters" | "state"> & {
+  rosters: JobRoster[];
+  state: SyncJobState;
+};
+
+// Per-invocation state shared by every club handled in the same call
+interface ClubSyncContext {
+  clubsByTag: Map<string, Club>;
+  inactivityThreshold: number;
+  channelRouting: ChannelRouting;
+  notificationsEnabled: boolean;
+  // Compute everything but skip every upsert, insert, delete and webhook
+  dryRun: boolean;
+  // IANA timezone that daily stats are bucketed in
+  timeZone: string;
+  milestoneLadder: MilestoneLadder;
+  // The job being worked on (none in a dry run). Finalize writes are keyed to it, so a
+  // club finalized again after a failed attempt doesn't store them twice.
+  job: Pick<SyncJob, "id" | "started_at"> | null;
+}
+
+async function syncClubData(
+  providedClubTag?: string,
+  providedApiKey?: string,
+  isInitialSetup = false,
+  trigger: SyncTrigger = "manual",
+  onBusy: SyncBusyMode = "reject",
+  dryRun = false
+) {
+  const invocationStart = Date.now();
+  const tally = createInvocationTally();
+  let job: ActiveSyncJob | null = null;
+  let leaseHolder: string | null = null;
   try {
     console.log("Starting sync...");
-    let clubTag = providedClubTag;
+    let legacyClubTag: string | undefined;
     let apiKey = providedApiKey;
 
     // Always try to get from database first (most up-to-date)
-    let discordWebhook = "";
     let notificationsEnabled = false;
     let inactivityThreshold = 48;
+    let timeZone = DEFAULT_TIMEZONE;
+    let milestoneLadder = parseMilestoneLadder(null);
 
     // Always fetch all settings from database
     {
@@ -77,8 +298,8 @@ async function syncClubData(providedClubTag?: string, providedApiKey?: string, i
       const { data: settings, error: settingsError } = await supabase
         .from("settings")
         .select("key, value")
-        .in("key", ["club_tag", "api_key", "discord_webhook", "notifications_enabled", "inactivity_threshold"]);
-      
+        .in("key", ["club_tag", "api_key", "notifications_enabled", "inactivity_threshold", "club_timezone", MILESTONE_LADDER_KEY]);
+
       if (settingsError) {
         console.error("Error fetching settings:", settingsError);
         return NextResponse.json(
@@ -86,34 +307,60 @@ async function syncClubData(providedClubTag?: string, providedApiKey?: string, i
           { status: 500 }
         );
       }
-      
+
       if (settings) {
         console.log("Settings found:", settings.length, "items");
         for (const setting of settings) {
-          if (setting.key === "club_tag" && !clubTag) clubTag = setting.value;
+          if (setting.key === "club_tag") legacyClubTag = setting.value;
           if (setting.key === "api_key" && !apiKey) apiKey = setting.value;
-          if (setting.key === "discord_webhook") discordWebhook = setting.value;
           if (setting.key === "notifications_enabled") notificationsEnabled = setting.value === "true";
           if (setting.key === "inactivity_threshold") inactivityThreshold = parseInt(setting.value) || 48;
+          if (setting.key === "club_timezone" && isValidTimeZone(setting.value)) timeZone = setting.value;
+          if (setting.key === MILESTONE_LADDER_KEY) milestoneLadder = parseMilestoneLadder(setting.value);
         }
       } else {
         console.log("No settings found in database");
       }
-      console.log("From DB - clubTag:", clubTag ? "yes" : "no", "apiKey:", apiKey ? "yes" : "no");
+      console.log("From DB - clubTag:", legacyClubTag ? "yes" : "no", "apiKey:", apiKey ? "yes" : "no");
     }
 
     // Fallback to env vars only if database doesn't have them
-    if (!clubTag) {
-      clubTag = process.env.CLUB_TAG;
-      if (clubTag) console.log("Using CLUB_TAG from environment variable");
+    if (!legacyClubTag) {
+      legacyClubTag = process.env.CLUB_TAG;
+      if (legacyClubTag) console.log("Using CLUB_TAG from environment variable");
     }
     if (!apiKey) {
       apiKey = process.env.BRAWL_API_KEY;
       if (apiKey) console.log("Using BRAWL_API_KEY from environment variable");
     }
 
-    if (!clubTag || !apiKey) {
-      console.error("Missing credentials - clubTag:", !!clubTag, "apiKey:", !!apiKey);
+    // Make sure the requested club (setup wizard) or the legacy single club is registered.
+    // A dry run only pretends to: the clubs are added to the list in memory.
+    let clubs = await getRegisteredClubs();
+    if (dryRun) {
+      for (const tag of [providedClubTag, clubs.length === 0 ? legacyClubTag : undefined]) {
+        if (tag && !clubs.some((c) => c.club_tag === normalizeClubTag(tag))) {
+          clubs.push({
+            club_tag: normalizeClubTag(tag),
+            club_name: null,
+            required_trophies: null,
+            sort_order: clubs.length,
+            added_at: new Date().toISOString(),
+          });
+        }
+      }
+    } else if (providedClubTag) {
+      await registerClub(providedClubTag);
+      clubs = await getRegisteredClubs();
+    }
+    if (clubs.length === 0 && legacyClubTag && !dryRun) {
+      console.log("Club registry empty, seeding from legacy club_tag setting");
+      await registerClub(legacyClubTag);
+      clubs = await getRegisteredClubs();
+    }
+
+    if (clubs.length === 0 || !configureDataSource(apiKey)) {
+      console.error("Missing credentials - clubs:", clubs.length, "apiKey:", !!apiKey);
       return NextResponse.json(
         { error: "Club tag and API key are required. Please configure in Settings." },
         { status: 400 }
@@ -121,852 +368,1720 @@ async function syncClubData(providedClubTag?: string, providedApiKey?: string, i
     }
 
     // Debug: Log what we're using (mask API key for security)
-    console.log("Using clubTag:", clubTag);
-    console.log("API key configured: yes, length:", apiKey.length);
-    
-    setApiKey(apiKey);
-    console.log("API key set, fetching club data...");
+    console.log("Data source:", getDataSourceKind(), "API key length:", apiKey?.length ?? 0);
+
+    const channelRouting = await getChannelRouting();
+
+    // Dry runs never touch the lease, the job or the run ledger
+    if (dryRun) {
+      const clubsToSync = providedClubTag && isInitialSetup
+        ? clubs.filter((c) => c.club_tag === normalizeClubTag(providedClubTag))
+        : clubs;
+      return NextResponse.json(await previewSync(clubsToSync, clubs, isInitialSetup, {
+        clubsByTag: new Map(clubs.map((c) => [c.club_tag, c])),
+        inactivityThreshold,
+        channelRouting,
+        notificationsEnabled,
+        dryRun: true,
+        timeZone,
+        milestoneLadder,
+        job: null,
+      }, invocationStart + SYNC_TIME_BUDGET_MS));
+    }
 
-    // inactivityThreshold already loaded from settings above (default 48 hours)
+    // Only one invocation works on the sync job at a time. A second caller is
+    // rejected with the running job's progress, waits for the lease, or attaches:
+    // waits and then reuses the running job's result instead of starting over.
+    const holder = randomUUID();
+    if (!(await acquireSyncLease(holder))) {
+      const runningJob = await findOpenSyncJob();
+      if (onBusy === "reject" || !(await waitForSyncLease(holder, SYNC_LOCK_WAIT_MS))) {
+        return await buildSyncBusyResponse();
+      }
+      leaseHolder = holder;
 
-    // Fetch club data
-    const club = await getClub(clubTag);
-    const currentMemberTags = new Set(club.members.map((m) => m.tag));
+      if (onBusy === "attach" && runningJob) {
+        const { data: attachedJob } = await supabase
+          .from("sync_jobs")
+          .select("status, summary")
+          .eq("id", runningJob.id)
+          .single();
+        if (attachedJob?.status === "completed" && attachedJob.summary) {
+          console.log(`Attached to finished sync job ${runningJob.id}`);
+          return NextResponse.json({ ...(attachedJob.summary as object), attached: true });
+        }
+      }
+    }
+    leaseHolder = holder;
 
-    // Get existing members from database
-    const { data: existingMembers } = await supabase
-      .from("members")
-      .select("player_tag, player_name, icon_id, role, trophies, rank_current, rank_highest");
+    // Channel and webhook deliveries queued by this or an earlier invocation, and retries
+    // that are due, go out after the response is sent instead of holding up the sync
+    after(async () => {
+      try {
+        await runDueNotificationDeliveries();
+      } catch (error) {
+        console.error("Error sending notification deliveries:", error);
+      }
+      try {
+        await runDueWebhookDeliveries();
+      } catch (error) {
+        console.error("Error sending webhook deliveries:", error);
+      }
+    });
 
-    const existingMemberMap = new Map(
-      existingMembers?.map((m) => [m.player_tag, m]) || []
-    );
+    // Resume the job in progress; the setup wizard always starts its own
+    job = isInitialSetup ? null : await getActiveSyncJob();
+    if (job) {
+      console.log(`Resuming sync job ${job.id} (${job.processed_members}/${job.total_members} members)`);
+    } else {
+      // Initial setup only syncs the club being set up; every other run covers all registered clubs
+      const clubsToSync = providedClubTag && isInitialSetup
+        ? clubs.filter((c) => c.club_tag === normalizeClubTag(providedClubTag))
+        : clubs;
+      console.log("Syncing clubs:", clubsToSync.map((c) => c.club_tag).join(", "));
+
+      job = await countApiCalls(tally.apiCalls, () => createSyncJob(clubsToSync, clubs, isInitialSetup, trigger));
+      if (!job.rosters.some((r) => r.club)) {
+        const message = `Could not fetch club data for ${job.rosters.map((r) => r.club_tag).join(", ")}`;
+        await updateSyncJob(job, { status: "failed", error: message });
+        await recordSyncInvocation(job.id, tally, { status: "failed", error: message });
+        return NextResponse.json(
+          { error: "Failed to sync data", message },
+          { status: 502 }
+        );
+      }
+    }
 
-    // Get last activity for each member (to check inactivity threshold)
-    const thresholdTime = new Date(Date.now() - inactivityThreshold * 60 * 60 * 1000).toISOString();
-    const { data: recentActivity } = await supabase
-      .from("activity_log")
-      .select("player_tag, trophy_change, recorded_at")
-      .gte("recorded_at", thresholdTime)
-      .neq("trophy_change", 0);
-    
-    // Map of players who had activity in the threshold period
-    const activePlayersSet = new Set(recentActivity?.map((a) => a.player_tag) || []);
+    const context: ClubSyncContext = {
+      clubsByTag: new Map(clubs.map((c) => [c.club_tag, c])),
+      inactivityThreshold,
+      channelRouting,
+      notificationsEnabled,
+      dryRun: false,
+      timeZone,
+      milestoneLadder,
+      job: { id: job.id, started_at: job.started_at },
+    };
 
-    // Get member history
-    const { data: memberHistory } = await supabase
-      .from("member_history")
-      .select("*");
+    // Work through slices, then the finalize steps, until the time budget runs out
+    const deadline = invocationStart + SYNC_TIME_BUDGET_MS;
+    while (job.status === "running" && Date.now() < deadline) {
+      await syncNextSlice(job, context, tally);
+      await keepSyncLease(holder);
+    }
+
+    let summary: Awaited<ReturnType<typeof finalizeSyncJob>> = null;
+    if (job.status === "finalizing" && Date.now() < deadline) {
+      summary = await finalizeSyncJob(job, context, tally, deadline, holder);
+    }
+
+    if (!summary) {
+      console.log(job.status === "finalizing"
+        ? `Sync job ${job.id} paused while finalizing`
+        : `Sync job ${job.id} paused at ${job.processed_members}/${job.total_members} members`);
+      await recordSyncInvocation(job.id, tally);
+      return NextResponse.json({
+        success: true,
+        done: false,
+        jobId: job.id,
+        status: job.status,
+        progress: { processed: job.processed_members, total: job.total_members },
+        rateLimiters: getRateLimiterMetrics(),
+      }, { status: 202 });
+    }
 
-    const historyMap = new Map(
-      memberHistory?.map((h) => [h.player_tag, h]) || []
+    await recordSyncInvocation(job.id, tally, { status: "completed", error: null });
+    return NextResponse.json({ ...summary, rateLimiters: getRateLimiterMetrics() });
+  } catch (error) {
+    console.error("Sync error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    if (error instanceof Error && error.stack) {
+      console.error("Stack trace:", error.stack);
+    }
+    // Keep the job (and its cursor) so the next call retries from the same slice
+    if (job) {
+      await updateSyncJob(job, { error: errorMessage }).catch(() => {});
+      await recordSyncInvocation(job.id, tally, { error: errorMessage }).catch(() => {});
+    }
+    return NextResponse.json(
+      { error: "Failed to sync data", message: errorMessage, jobId: job?.id },
+      { status: 500 }
     );
+  } finally {
+    if (leaseHolder) {
+      await releaseSyncLease(leaseHolder);
+    }
+  }
+}
 
-    // Process each club member
-    const memberUpdates = [];
-    const activityLogs = [];
-    const events = [];
-    const memberChangeNotifs: Array<{ type: string; title: string; message: string; player_tag: string; player_name: string }> = [];
-    const historyUpdates = [];
-    const allBattles: ReturnType<typeof processBattleLog> = [];
-    const brawlerSnapshots: {
-      player_tag: string;
-      brawler_id: number;
-      brawler_name: string;
-      power_level: number;
-      trophies: number;
-      rank: number;
-      gadgets_count: number;
-      star_powers_count: number;
-      gears_count: number;
-    }[] = [];
-
-    const normalizeRole = (role: string | null | undefined) =>
-      (role || "").toLowerCase().replace(/[\s_-]/g, "");
-    const roleRank: Record<string, number> = {
-      member: 0,
-      senior: 1,
-      vicepresident: 2,
-      president: 3,
-    };
+// Run the pipeline in memory and report what a real sync would change. A dry run has
+// no job to resume, so past the deadline the remaining members are left out and the
+// response says how far it got.
+async function previewSync(
+  clubsToSync: Club[],
+  registeredClubs: Club[],
+  isInitialSetup: boolean,
+  context: ClubSyncContext,
+  deadline: number
+) {
+  console.log("Dry run for clubs:", clubsToSync.map((c) => c.club_tag).join(", "));
+  const { rosters, state } = await planSyncJob(clubsToSync, registeredClubs, isInitialSetup);
+
+  const failedClubs: string[] = [];
+  const skippedMembers: SyncMemberFailure[] = [];
+  const unpreviewedClubs: string[] = [];
+  const clubs = [];
+  const progress = { processed: 0, total: rosters.reduce((sum, r) => sum + (r.club?.members.length || 0), 0) };
+  for (const entry of rosters) {
+    if (!entry.club) {
+      failedClubs.push(entry.club_tag);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      unpreviewedClubs.push(entry.club_tag);
+      continue;
+    }
 
-    // Process members in parallel batches of 4
-    // Brawl Stars API rate limit: ~10 req/sec per key
-    // 4 members × 2 BS API calls = 8 concurrent BS requests (safe under 10/sec)
-    // 4 members × 1 RNT API call = 4 concurrent RNT requests (separate limit)
-    const BATCH_SIZE = 4;
-    const BATCH_DELAY_MS = 300; // Delay between batches to stay under rate limit
-    const memberBatches = [];
-    for (let i = 0; i < club.members.length; i += BATCH_SIZE) {
-      memberBatches.push(club.members.slice(i, i + BATCH_SIZE));
-    }
-
-    for (let batchIndex = 0; batchIndex < memberBatches.length; batchIndex++) {
-      const batch = memberBatches[batchIndex];
-      
-      // Add delay between batches (not before first batch)
-      if (batchIndex > 0) {
-        await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
-      }
-      
-      const batchResults = await Promise.all(
-        batch.map(async (member) => {
-          try {
-            // Run 3 API calls in parallel (battleLog is used for both win rate and history)
-            // Brawl Stars API: getPlayer, getPlayerBattleLog
-            // RNT API: getPlayerRankedData
-            // battleLog can 404 for new/private accounts — catch gracefully
-            const [player, rankedData, battleLog] = await Promise.all([
-              getPlayer(member.tag),
-              getPlayerRankedData(member.tag),
-              getPlayerBattleLog(member.tag).catch((err) => {
-                console.warn(`Battle log unavailable for ${member.tag}: ${err.message}`);
-                return { items: [] } as BrawlStarsBattleLog;
-              }),
-            ]);
-
-            // Calculate win rate from the already-fetched battle log (no extra API call)
-            const winRateData = calculateWinRateFromBattleLog(battleLog);
-
-            const existingMember = existingMemberMap.get(member.tag);
-            const trophyChange = existingMember
-              ? player.trophies - existingMember.trophies
-              : 0;
-
-            // Determine activity type based on current trophy change
-            let activityType = "inactive";
-            if (Math.abs(trophyChange) >= 20) {
-              activityType = "active";
-            } else if (Math.abs(trophyChange) > 0) {
-              activityType = "minimal";
-            }
-            
-            // Check if player had any activity in the threshold period
-            // If they had activity before (in activePlayersSet) OR have activity now, they're active
-            const hadRecentActivity = activePlayersSet.has(member.tag);
-            const isActive = hadRecentActivity || Math.abs(trophyChange) > 0;
-
-            // Process battle log for storage
-            const processedBattles = processBattleLog(member.tag, battleLog);
-
-            return {
-              member,
-              player,
-              rankedData,
-              winRateData,
-              processedBattles,
-              trophyChange,
-              activityType,
-              isActive,
-              success: true as const,
-            };
-          } catch (error) {
-            console.error(`Error processing member ${member.tag}:`, error);
-            return { member, success: false as const };
-          }
-        })
-      );
+    const memberChanges: MemberFieldChange[] = [];
+    const rulePreview: RulePreview = { members: [], battles: [] };
+    let cursor = 0;
+    while (cursor < entry.club.members.length && (cursor === 0 || Date.now() < deadline)) {
+      const slice = entry.club.members.slice(cursor, cursor + SLICE_SIZE);
+      const sliceResult = await syncMemberSlice(entry.club_tag, slice, state, context);
+      mergeSliceResult(state, entry.club_tag, sliceResult);
+      memberChanges.push(...sliceResult.memberChanges);
+      skippedMembers.push(...sliceResult.failures);
+      rulePreview.members.push(...(sliceResult.rulePreview?.members || []));
+      rulePreview.battles.push(...(sliceResult.rulePreview?.battles || []));
+      cursor += slice.length;
+    }
+    progress.processed += cursor;
+
+    const clubResult = await finalizeClub(entry.club_tag, entry.club, state, context, rulePreview);
+    clubs.push({
+      clubTag: entry.club_tag,
+      clubName: entry.club.name,
+      // Members past the deadline were not previewed
+      partial: cursor < entry.club.members.length,
+      memberChanges,
+      joins: clubResult.events.filter((e) => e.event_type === "join"),
+      leaves: clubResult.events.filter((e) => e.event_type === "leave"),
+      transfers: clubResult.events.filter((e) => e.event_type === "transfer"),
+      roleChanges: memberChanges
+        .filter((m) => !m.is_new && m.changes.role)
+        .map((m) => ({ playerTag: m.player_tag, playerName: m.player_name, ...m.changes.role })),
+      notifications: clubResult.notifications,
+      deliveries: clubResult.deliveries,
+    });
+  }
 
-      // Process successful results
-      for (const result of batchResults) {
-        if (!result.success) continue;
-
-        const { member, player, rankedData, winRateData, processedBattles, trophyChange, activityType, isActive } = result as {
-          member: typeof batch[0];
-          player: Awaited<ReturnType<typeof getPlayer>>;
-          rankedData: Awaited<ReturnType<typeof getPlayerRankedData>>;
-          winRateData: ReturnType<typeof calculateWinRateFromBattleLog>;
-          processedBattles: ReturnType<typeof processBattleLog>;
-          trophyChange: number;
-          activityType: string;
-          isActive: boolean;
-          success: true;
-        };
+  // Count what the purge step would delete (rollups are not previewed)
+  const purge: Record<string, number> = {};
+  await Promise.all((await getRetentionPolicy()).map(async (target) => {
+    const { count, error } = await supabase
+      .from(target.table)
+      .select("*", { count: "exact", head: true })
+      .lt(target.column, target.cutoff);
+    if (error) console.error(`Error counting old ${target.table}:`, error);
+    purge[target.table] = count || 0;
+  }));
+
+  return {
+    success: true,
+    dryRun: true,
+    complete: progress.processed === progress.total,
+    progress,
+    timestamp: new Date().toISOString(),
+    clubs,
+    failedClubs,
+    unpreviewedClubs,
+    skippedMembers,
+    purge,
+  };
+}
 
-        // Prepare member update
-        // If RNT API failed (returned Unranked), preserve existing rank data
-        const existingMemberData = existingMemberMap.get(member.tag);
-        const resolvedCurrentRank = rankedData.currentRank !== "Unranked" 
-          ? rankedData.currentRank 
-          : (existingMemberData?.rank_current || "Unranked");
-        const resolvedHighestRank = rankedData.highestRank !== "Unranked" 
-          ? rankedData.highestRank 
-          : (existingMemberData?.rank_highest || "Unranked");
-
-        if (existingMemberData?.player_name && existingMemberData.player_name !== member.name) {
-          memberChangeNotifs.push({
-            type: "name_change",
-            title: "Name Changed",
-            message: `${existingMemberData.player_name} is now ${member.name} (${member.tag}).`,
-            player_tag: member.tag,
-            player_name: member.name,
-          });
-        }
+// Stop working on the job if our lease expired and another invocation took over
+async function keepSyncLease(holder: string) {
+  if (!(await renewSyncLease(holder))) {
+    throw new Error("Sync lease expired and was taken over by another sync");
+  }
+}
 
-        const prevRoleNorm = normalizeRole(existingMemberData?.role);
-        const currentRoleNorm = normalizeRole(member.role);
-        if (prevRoleNorm && currentRoleNorm && prevRoleNorm !== currentRoleNorm) {
-          const prevRank = roleRank[prevRoleNorm] ?? -1;
-          const nextRank = roleRank[currentRoleNorm] ?? -1;
-          const roleType = nextRank > prevRank ? "promotion" : nextRank < prevRank ? "demotion" : "role_change";
-          const roleTitle = roleType === "promotion"
-            ? "Member Promoted"
-            : roleType === "demotion"
-              ? "Member Demoted"
-              : "Role Changed";
-          memberChangeNotifs.push({
-            type: roleType,
-            title: roleTitle,
-            message: `${member.name} (${member.tag}) role changed: ${existingMemberData?.role || "unknown"} → ${member.role}.`,
-            player_tag: member.tag,
-            player_name: member.name,
-          });
-        }
+// 409 for callers that find another sync holding the lease
+async function buildSyncBusyResponse() {
+  const [runningJob, lease] = await Promise.all([findOpenSyncJob(), getSyncLease()]);
+  return NextResponse.json({
+    error: "A sync is already running",
+    jobId: runningJob?.id ?? null,
+    status: runningJob?.status ?? null,
+    progress: runningJob
+      ? { processed: runningJob.processed_members, total: runningJob.total_members }
+      : null,
+    leaseExpiresAt: lease?.expires_at ?? null,
+  }, { status: 409 });
+}
 
-        memberUpdates.push({
-          player_tag: member.tag,
-          player_name: member.name,
-          icon_id: player.icon?.id || existingMemberData?.icon_id || null,
-          role: member.role,
-          trophies: player.trophies,
-          highest_trophies: player.highestTrophies,
-          exp_level: player.expLevel,
-          rank_current: resolvedCurrentRank,
-          rank_highest: resolvedHighestRank,
-          win_rate: winRateData.winRate,
-          brawlers_count: player.brawlers.length,
-          solo_victories: player.soloVictories,
-          duo_victories: player.duoVictories,
-          trio_victories: player["3vs3Victories"],
-          is_active: isActive,
-          last_updated: new Date().toISOString(),
-        });
+async function findOpenSyncJob(): Promise<ActiveSyncJob | null> {
+  const { data, error } = await supabase
+    .from("sync_jobs")
+    .select("*")
+    .in("status", ["running", "finalizing"])
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ActiveSyncJob | null;
+}
 
-        // Log activity
-        activityLogs.push({
-          player_tag: member.tag,
-          trophies: player.trophies,
-          trophy_change: trophyChange,
-          activity_type: activityType,
-        });
+// Latest unfinished job, or null if there is none (stale jobs are abandoned)
+async function getActiveSyncJob(): Promise<ActiveSyncJob | null> {
+  const job = await findOpenSyncJob();
+  if (!job) return null;
 
-        // Collect battles for storage
-        if (processedBattles && processedBattles.length > 0) {
-          allBattles.push(...processedBattles);
-        }
+  if (Date.now() - new Date(job.started_at).getTime() > SYNC_JOB_MAX_AGE_MS) {
+    console.log(`Abandoning stale sync job ${job.id}`);
+    await updateSyncJob(job, { status: "failed", error: "Job expired before finishing" });
+    await closeOpenSyncRuns("Job expired before finishing");
+    return null;
+  }
+  return job;
+}
 
+async function updateSyncJob(job: ActiveSyncJob, fields: Partial<ActiveSyncJob>) {
+  Object.assign(job, fields);
+  const { error } = await supabase
+    .from("sync_jobs")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", job.id);
 
-        // Collect brawler snapshots
-        for (const brawler of player.brawlers) {
-          brawlerSnapshots.push({
-            player_tag: member.tag,
-            brawler_id: brawler.id,
-            brawler_name: brawler.name,
-            power_level: brawler.power,
-            trophies: brawler.trophies,
-            rank: brawler.rank,
-            gadgets_count: brawler.gadgets?.length || 0,
-            star_powers_count: brawler.starPowers?.length || 0,
-            gears_count: brawler.gears?.length || 0,
-          });
-        }
+  if (error) throw error;
+}
 
-        // Update member history
-        const history = historyMap.get(member.tag);
-        if (history) {
-          if (!history.is_current_member) {
-            // Returning member!
-            historyUpdates.push({
-              player_tag: member.tag,
-              player_name: member.name,
-              last_seen: new Date().toISOString(),
-              times_joined: history.times_joined + 1,
-              is_current_member: true,
-            });
-            // Only create join event if not initial setup
-            events.push({
-              event_type: "join",
-              player_tag: member.tag,
-              player_name: member.name,
-            });
-          } else {
-            historyUpdates.push({
-              player_tag: member.tag,
-              player_name: member.name,
-              last_seen: new Date().toISOString(),
-              is_current_member: true,
-            });
-          }
-        } else {
-          // New member - check if this is initial setup or a real new join
-          const isFirstSync = memberHistory?.length === 0 || isInitialSetup;
-          
-          historyUpdates.push({
-            player_tag: member.tag,
-            player_name: member.name,
-            first_seen: new Date().toISOString(),
-            last_seen: new Date().toISOString(),
-            times_joined: 1,
-            times_left: 0,
-            is_current_member: true,
-          });
-          
-          // Only create join event if this is NOT the initial setup
-          // This way existing members don't get a "join" event on first sync
-          if (!isFirstSync) {
-            events.push({
-              event_type: "join",
-              player_tag: member.tag,
-              player_name: member.name,
-            });
-          }
-        }
-      }
+// Fetch the rosters and snapshot member state, then persist a new job
+async function createSyncJob(
+  clubsToSync: Club[],
+  registeredClubs: Club[],
+  isInitialSetup: boolean,
+  trigger: SyncTrigger
+): Promise<ActiveSyncJob> {
+  const { rosters, state } = await planSyncJob(clubsToSync, registeredClubs, isInitialSetup);
+
+  // Only one job runs at a time: anything still open is superseded
+  await supabase
+    .from("sync_jobs")
+    .update({ status: "failed", error: "Superseded by a newer sync job", updated_at: new Date().toISOString() })
+    .in("status", ["running", "finalizing"]);
+  await closeOpenSyncRuns("Superseded by a newer sync job");
+
+  const { data, error } = await supabase
+    .from("sync_jobs")
+    .insert({
+      status: "running",
+      is_initial_setup: isInitialSetup,
+      rosters,
+      state,
+      club_index: 0,
+      member_cursor: 0,
+      processed_members: 0,
+      total_members: rosters.reduce((sum, r) => sum + (r.club?.members.length || 0), 0),
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  console.log(`Created sync job ${data.id}`);
+  await startSyncRun(data.id, trigger);
+  return data as ActiveSyncJob;
+}
+
+// Rosters to work through plus the run-start snapshot every slice relies on
+async function planSyncJob(
+  clubsToSync: Club[],
+  registeredClubs: Club[],
+  isInitialSetup: boolean
+): Promise<{ rosters: JobRoster[]; state: SyncJobState }> {
+  // Fetch every registered roster up front so moves between sister clubs can be detected
+  const rosters = await Promise.all(
+    registeredClubs.map((c) =>
+      getClub(c.club_tag, { refresh: true }).catch((err) => {
+        console.error(`Failed to fetch club ${c.club_tag}:`, err);
+        return null;
+      })
+    )
+  );
+  const rosterByClub = new Map<string, BrawlStarsClub>();
+  const currentClubByPlayer: Record<string, string> = {};
+  registeredClubs.forEach((c, index) => {
+    const roster = rosters[index];
+    if (!roster) return;
+    rosterByClub.set(c.club_tag, roster);
+    for (const m of roster.members) {
+      currentClubByPlayer[m.tag] = c.club_tag;
     }
+  });
 
-    // Check for members who left
-    for (const history of memberHistory || []) {
-      if (history.is_current_member && !currentMemberTags.has(history.player_tag)) {
-        const leavingMemberSnapshot = existingMemberMap.get(history.player_tag);
-        historyUpdates.push({
-          player_tag: history.player_tag,
-          player_name: history.player_name,
-          last_seen: new Date().toISOString(),
-          last_left_at: new Date().toISOString(),
-          times_left: history.times_left + 1,
-          is_current_member: false,
-          role_at_leave: leavingMemberSnapshot?.role || null,
-          trophies_at_leave: typeof leavingMemberSnapshot?.trophies === "number"
-            ? leavingMemberSnapshot.trophies
-            : null,
-        });
-        events.push({
-          event_type: "leave",
-          player_tag: history.player_tag,
-          player_name: history.player_name,
-        });
+  // Snapshot members and member history (all clubs) before anything is written
+  const [{ data: existingMembers }, { data: memberHistory }] = await Promise.all([
+    supabase
+      .from("members")
+      .select("player_tag, role, trophies"),
+    supabase
+      .from("member_history")
+      .select("club_tag, player_tag, player_name, times_joined, times_left, is_current_member"),
+  ]);
+
+  const registeredTags = new Set(registeredClubs.map((c) => c.club_tag));
+  const existingMemberMap = new Map(
+    ((existingMembers || []) as Pick<ExistingMember, "player_tag" | "role" | "trophies">[]).map((m) => [m.player_tag, m])
+  );
+  const history = (memberHistory || []) as HistoryRow[];
+
+  const previousClubByPlayer: Record<string, string> = {};
+  for (const h of history) {
+    if (h.is_current_member && registeredTags.has(h.club_tag)) {
+      previousClubByPlayer[h.player_tag] = h.club_tag;
+    }
+  }
 
-        // Mark member as inactive
-        await supabase
-          .from("members")
-          .update({ is_active: false })
-          .eq("player_tag", history.player_tag);
-      }
+  const firstSyncClubs: string[] = [];
+  const leaversByClub: Record<string, Leaver[]> = {};
+  for (const club of clubsToSync) {
+    const clubHistory = history.filter((h) => h.club_tag === club.club_tag);
+    if (clubHistory.length === 0 || isInitialSetup) {
+      firstSyncClubs.push(club.club_tag);
     }
 
-    // Deduplicate join/leave events (batch + recent DB window) to avoid duplicates
-    let eventsToInsert = events;
-    if (events.length > 0) {
-      const uniqueBatchEventKeys = new Set<string>();
-      eventsToInsert = events.filter((evt) => {
-        const key = `${evt.event_type}|${evt.player_tag}|${evt.player_name}`;
-        if (uniqueBatchEventKeys.has(key)) return false;
-        uniqueBatchEventKeys.add(key);
-        return true;
+    const roster = rosterByClub.get(club.club_tag);
+    if (!roster) continue;
+    const rosterTags = new Set(roster.members.map((m) => m.tag));
+    leaversByClub[club.club_tag] = clubHistory
+      .filter((h) => h.is_current_member && !rosterTags.has(h.player_tag))
+      .map((h) => {
+        const snapshot = existingMemberMap.get(h.player_tag);
+        return {
+          player_tag: h.player_tag,
+          player_name: h.player_name,
+          times_left: h.times_left,
+          role: snapshot?.role || null,
+          trophies: typeof snapshot?.trophies === "number" ? snapshot.trophies : null,
+        };
       });
+  }
 
-      const recentEventWindowISO = new Date(Date.now() - 10 * 60 * 1000).toISOString();
-      const eventTypes = [...new Set(eventsToInsert.map((evt) => evt.event_type))];
-      const eventTags = [...new Set(eventsToInsert.map((evt) => evt.player_tag))];
+  return {
+    rosters: clubsToSync.map((c) => ({
+      club_tag: c.club_tag,
+      club: rosterByClub.get(c.club_tag) || null,
+    })),
+    state: {
+      currentClubByPlayer,
+      previousClubByPlayer,
+      firstSyncClubs,
+      leaversByClub,
+      results: {},
+      clockOffsets: {},
+    },
+  };
+}
 
-      if (eventTypes.length > 0 && eventTags.length > 0) {
-        const { data: recentEvents } = await supabase
-          .from("club_events")
-          .select("event_type, player_tag, player_name, event_time")
-          .in("event_type", eventTypes)
-          .in("player_tag", eventTags)
-          .gte("event_time", recentEventWindowISO);
+// Process the next slice of members and move the cursor past it
+async function syncNextSlice(job: ActiveSyncJob, context: ClubSyncContext, tally: SyncInvocationTally) {
+  const entry = job.rosters[job.club_index];
+  if (!entry) {
+    await updateSyncJob(job, { status: "finalizing" });
+    return;
+  }
 
-        const existingRecentEventKeys = new Set(
-          (recentEvents || []).map((evt) => `${evt.event_type}|${evt.player_tag}|${evt.player_name}`)
-        );
+  let memberCursor = job.member_cursor;
+  let processedMembers = job.processed_members;
+  const state = job.state;
+
+  if (entry.club) {
+    const slice = entry.club.members.slice(memberCursor, memberCursor + SLICE_SIZE);
+    console.log(`Job ${job.id}: syncing ${entry.club_tag} members ${memberCursor + 1}-${memberCursor + slice.length} of ${entry.club.members.length}`);
+
+    const sliceResult = await countApiCalls(tally.apiCalls, () => syncMemberSlice(entry.club_tag, slice, state, context));
+    mergeSliceResult(state, entry.club_tag, sliceResult);
+    tally.membersSynced += sliceResult.synced;
+    tally.failures.push(...sliceResult.failures);
+    if (sliceResult.clockSkew) {
+      const source = getDataSourceKind();
+      tally.clockSkew[source] = mergeClockSkew(tally.clockSkew[source], sliceResult.clockSkew);
+    }
 
-        eventsToInsert = eventsToInsert.filter(
-          (evt) => !existingRecentEventKeys.has(`${evt.event_type}|${evt.player_tag}|${evt.player_name}`)
-        );
+    memberCursor += slice.length;
+    processedMembers += slice.length;
+  }
+
+  const clubDone = !entry.club || memberCursor >= entry.club.members.length;
+  const nextClubIndex = clubDone ? job.club_index + 1 : job.club_index;
+
+  await updateSyncJob(job, {
+    club_index: nextClubIndex,
+    member_cursor: clubDone ? 0 : memberCursor,
+    processed_members: processedMembers,
+    state,
+    status: nextClubIndex >= job.rosters.length ? "finalizing" : "running",
+  });
+}
+
+function mergeSliceResult(state: SyncJobState, clubTag: string, sliceResult: SliceResult) {
+  const clubResult = state.results[clubTag] ||= {
+    synced: 0,
+    events: [],
+    memberChangeNotifs: [],
+    inactiveMembers: [],
+  };
+  clubResult.synced += sliceResult.synced;
+  clubResult.events.push(...sliceResult.events);
+  clubResult.memberChangeNotifs.push(...sliceResult.memberChangeNotifs);
+  clubResult.inactiveMembers.push(...sliceResult.inactiveMembers);
+  (clubResult.milestones ||= []).push(...sliceResult.milestones);
+}
+
+// Cross-member steps once every slice is done: leaves, events, notifications, purge.
+// Progress is saved after each club and step; past the deadline it stops and returns
+// null, and the next invocation carries on from there. The lease is renewed before each
+// club and step, and losing it aborts the finalize.
+async function finalizeSyncJob(
+  job: ActiveSyncJob,
+  context: ClubSyncContext,
+  tally: SyncInvocationTally,
+  deadline: number,
+  holder: string
+) {
+  const progress = job.state.finalize ||= { clubs: {}, steps: [] };
+  const failedClubs: string[] = [];
+  for (const entry of job.rosters) {
+    if (!entry.club) {
+      failedClubs.push(entry.club_tag);
+      continue;
+    }
+    if (progress.clubs[entry.club_tag]) continue;
+    if (Date.now() >= deadline) return null;
+    await keepSyncLease(holder);
+
+    const clubResult = await finalizeClub(entry.club_tag, entry.club, job.state, context);
+    progress.clubs[entry.club_tag] = { synced: clubResult.synced, events: clubResult.events };
+    await updateSyncJob(job, { state: job.state });
+  }
+
+  const source = getDataSourceKind();
+  const stepRunners: Record<FinalizeStep, () => Promise<void>> = {
+    // Re-check stored battles against the offset this job detected (fixes rows
+    // flagged by slices that ran before the offset was known, and older rows)
+    recorrect_battles: async () => {
+      try {
+        const recorrected = await recorrectStoredBattles(source, job.state.clockOffsets?.[source] || 0);
+        tally.clockSkew[source] = mergeClockSkew(tally.clockSkew[source], {
+          ...createClockSkewReading(),
+          ...recorrected,
+        });
+      } catch (error) {
+        console.error("Error re-correcting stored battle times:", error);
+      }
+    },
+    // Matches for battles stored before the matches table existed (a bounded chunk per sync)
+    backfill_matches: async () => {
+      try {
+        await backfillMatches();
+      } catch (error) {
+        console.error("Error backfilling matches:", error);
+      }
+    },
+    // Brawler events from snapshots stored before the ledger existed (before retention
+    // purges them)
+    backfill_brawler_events: async () => {
+      try {
+        await backfillBrawlerEvents();
+      } catch (error) {
+        console.error("Error backfilling brawler events:", error);
+      }
+    },
+    // One-time rebuild of daily_stats after the club timezone changed (runs before
+    // the rollup so the days it closes are bucketed the new way)
+    rebucket_daily_stats: async () => {
+      try {
+        await rebucketDailyStats(context.timeZone);
+      } catch (error) {
+        console.error("Error re-bucketing daily stats:", error);
+      }
+    },
+    // Roll up and purge data past each table's retention window
+    retention: () => applyRetention(),
+  };
+
+  for (const step of FINALIZE_STEPS) {
+    if (progress.steps.includes(step)) continue;
+    if (Date.now() >= deadline) return null;
+    await keepSyncLease(holder);
+
+    await stepRunners[step]();
+    progress.steps.push(step);
+    await updateSyncJob(job, { state: job.state });
+  }
+
+  await keepSyncLease(holder);
+
+  // Save last sync time to database
+  const syncTime = new Date().toISOString();
+  await supabase.from("settings").upsert({
+    key: "last_sync_time",
+    value: syncTime,
+  }, { onConflict: "key" });
+
+  // Separate joins, leaves and transfers for the response
+  const clubResults = job.rosters
+    .filter((entry) => progress.clubs[entry.club_tag])
+    .map((entry) => ({ clubTag: entry.club_tag, ...progress.clubs[entry.club_tag] }));
+  const events = clubResults.flatMap((r) => r.events);
+  const joins = events.filter(e => e.event_type === "join");
+  const leaves = events.filter(e => e.event_type === "leave");
+  const transfers = events.filter(e => e.event_type === "transfer");
+
+  const summary = {
+    success: true,
+    done: true,
+    jobId: job.id,
+    synced: clubResults.reduce((sum, r) => sum + r.synced, 0),
+    events: events.length,
+    timestamp: syncTime,
+    clubs: clubResults.map((r) => ({ clubTag: r.clubTag, synced: r.synced, events: r.events.length })),
+    failedClubs,
+    changes: {
+      joins: joins.map(e => ({ playerTag: e.player_tag, playerName: e.player_name, clubTag: e.club_tag })),
+      leaves: leaves.map(e => ({ playerTag: e.player_tag, playerName: e.player_name, clubTag: e.club_tag })),
+      transfers: transfers.map(e => ({
+        playerTag: e.player_tag,
+        playerName: e.player_name,
+        fromClubTag: e.from_club_tag,
+        clubTag: e.club_tag,
+      })),
+    },
+  };
+
+  // Tell webhook subscribers (sent once the response is out, see syncClubData)
+  try {
+    await emitWebhookEvents([{
+      event: "sync_completed",
+      data: {
+        job_id: job.id,
+        completed_at: syncTime,
+        synced: summary.synced,
+        events: summary.events,
+        clubs: summary.clubs,
+        failed_clubs: failedClubs,
+      },
+    }]);
+  } catch (error) {
+    console.error("Error queueing webhook events:", error);
+  }
+
+  // Keep the summary so callers that attached to this job can be answered with it
+  await updateSyncJob(job, { status: "completed", error: null, completed_at: syncTime, summary });
+  return summary;
+}
+
+// Fetch and store one slice of a club's members. Writes that only concern these
+// members happen here; anything that needs the whole roster waits for finalize.
+async function syncMemberSlice(
+  clubTag: string,
+  members: BrawlStarsMember[],
+  state: SyncJobState,
+  context: ClubSyncContext
+): Promise<SliceResult> {
+  const { inactivityThreshold, dryRun } = context;
+  const sliceTags = members.map((m) => m.tag);
+  const isFirstSync = state.firstSyncClubs.includes(clubTag);
+
+  // Get last activity, stored member data and club history for this slice's members
+  const thresholdTime = new Date(Date.now() - inactivityThreshold * 60 * 60 * 1000).toISOString();
+  const [{ data: recentActivity }, { data: existingMembers }, { data: memberHistory }] = await Promise.all([
+    supabase
+      .from("activity_log")
+      .select("player_tag, trophy_change, recorded_at")
+      .in("player_tag", sliceTags)
+      .gte("recorded_at", thresholdTime)
+      .neq("trophy_change", 0),
+    supabase
+      .from("members")
+      .select("player_tag, player_name, icon_id, role, trophies, highest_trophies, exp_level, rank_current, rank_highest, win_rate, brawlers_count, solo_victories, duo_victories, trio_victories, is_active, club_tag")
+      .in("player_tag", sliceTags),
+    supabase
+      .from("member_history")
+      .select("club_tag, player_tag, player_name, times_joined, times_left, is_current_member")
+      .eq("club_tag", clubTag)
+      .in("player_tag", sliceTags),
+  ]);
+
+  // Map of players who had activity in the threshold period
+  const activePlayersSet = new Set(recentActivity?.map((a) => a.player_tag) || []);
+  const existingMemberMap = new Map(
+    ((existingMembers || []) as ExistingMember[]).map((m) => [m.player_tag, m])
+  );
+  const historyMap = new Map(
+    ((memberHistory || []) as HistoryRow[]).map((h) => [h.player_tag, h])
+  );
+
+  // Process each club member
+  const memberUpdates = [];
+  const activityLogs = [];
+  const events: SyncEvent[] = [];
+  const memberChangeNotifs: MemberChangeNotif[] = [];
+  const milestones: Milestone[] = [];
+  const memberChangeRows: ReturnType<typeof toMemberChangeRows> = [];
+  const failures: SyncMemberFailure[] = [];
+  const historyUpdates = [];
+  const rankedSnapshots: Array<{
+    player_tag: string;
+    club_tag: string;
+    current_points: number;
+    highest_points: number;
+    current_rank: string;
+  }> = [];
+  const allBattles: Array<ProcessedBattle & { club_tag: string }> = [];
+  const battleLogSamples: BattleLogSample[] = [];
+  const battleLogFetchedAtByPlayer = new Map<string, number>();
+  const brawlerSnapshots: {
+    player_tag: string;
+    brawler_id: number;
+    brawler_name: string;
+    power_level: number;
+    trophies: number;
+    rank: number;
+    gadgets_count: number;
+    star_powers_count: number;
+    gears_count: number;
+    gadgets: LoadoutItem[];
+    star_powers: LoadoutItem[];
+    gears: LoadoutItem[];
+    hypercharges: LoadoutItem[];
+  }[] = [];
+
+  const roleRank: Record<string, number> = {
+    member: 0,
+    senior: 1,
+    vicepresident: 2,
+    president: 3,
+  };
+
+  // A player joining this club who was a current member of a sister club is a transfer
+  const getTransferSource = (playerTag: string) => {
+    const previousClubTag = state.previousClubByPlayer[playerTag];
+    return previousClubTag && previousClubTag !== clubTag ? previousClubTag : null;
+  };
+
+  // Every member of the slice is fetched at once; the per-upstream rate limiters
+  // in brawl-api.ts pace the actual requests.
+  const memberResults = await Promise.all(
+    members.map(async (member) => {
+      try {
+        // Run 3 API calls in parallel (battleLog is used for both win rate and history)
+        // Brawl Stars API: getPlayer, getPlayerBattleLog
+        // RNT API: getPlayerRankedData
+        // battleLog can 404 for new/private accounts — catch gracefully
+        const [player, rankedData, battleLog] = await Promise.all([
+          getPlayer(member.tag, { refresh: true }),
+          getPlayerRankedData(member.tag, { refresh: true }),
+          getPlayerBattleLog(member.tag, { refresh: true }).catch((err) => {
+            console.warn(`Battle log unavailable for ${member.tag}: ${err.message}`);
+            return { items: [] } as BrawlStarsBattleLog;
+          }),
+        ]);
+
+        // Calculate win rate from the already-fetched battle log (no extra API call)
+        const winRateData = calculateWinRateFromBattleLog(battleLog);
+
+        const existingMember = existingMemberMap.get(member.tag);
+        const trophyChange = existingMember
+          ? player.trophies - existingMember.trophies
+          : 0;
+
+        // Determine activity type based on current trophy change
+        let activityType = "inactive";
+        if (Math.abs(trophyChange) >= 20) {
+          activityType = "active";
+        } else if (Math.abs(trophyChange) > 0) {
+          activityType = "minimal";
+        }
+
+        // Check if player had any activity in the threshold period
+        // If they had activity before (in activePlayersSet) OR have activity now, they're active
+        const hadRecentActivity = activePlayersSet.has(member.tag);
+        const isActive = hadRecentActivity || Math.abs(trophyChange) > 0;
+
+        // Process battle log for storage; the fetch time is what its timestamps are checked against
+        const processedBattles = processBattleLog(member.tag, battleLog);
+        const battleLogFetchedAt = Date.now();
+
+        return {
+          member,
+          player,
+          rankedData,
+          winRateData,
+          processedBattles,
+          battleLogFetchedAt,
+          trophyChange,
+          activityType,
+          isActive,
+          success: true as const,
+        };
+      } catch (error) {
+        console.error(`Error processing member ${member.tag}:`, error);
+        return {
+          member,
+          error: error instanceof Error ? error.message : String(error),
+          success: false as const,
+        };
       }
+    })
+  );
+
+  // Process successful results (failures go to the run ledger)
+  for (const result of memberResults) {
+    if (!result.success) {
+      failures.push({
+        club_tag: clubTag,
+        player_tag: result.member.tag,
+        player_name: result.member.name,
+        error: result.error,
+      });
+      continue;
     }
 
-    // Run independent DB writes in parallel for speed
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const dbWrites: any[] = [];
+    const { member, player, rankedData, winRateData, processedBattles, battleLogFetchedAt, trophyChange, activityType, isActive } = result as {
+      member: typeof members[0];
+      player: Awaited<ReturnType<typeof getPlayer>>;
+      rankedData: Awaited<ReturnType<typeof getPlayerRankedData>>;
+      winRateData: ReturnType<typeof calculateWinRateFromBattleLog>;
+      processedBattles: ReturnType<typeof processBattleLog>;
+      battleLogFetchedAt: number;
+      trophyChange: number;
+      activityType: string;
+      isActive: boolean;
+      success: true;
+    };
 
-    // Upsert members
-    if (memberUpdates.length > 0) {
-      dbWrites.push(supabase.from("members").upsert(memberUpdates, {
-        onConflict: "player_tag",
-      }));
+    // Prepare member update
+    // If RNT API failed (returned Unranked), preserve existing rank data
+    const existingMemberData = existingMemberMap.get(member.tag);
+    const resolvedCurrentRank = rankedData.currentRank !== "Unranked"
+      ? rankedData.currentRank
+      : (existingMemberData?.rank_current || "Unranked");
+    const resolvedHighestRank = rankedData.highestRank !== "Unranked"
+      ? rankedData.highestRank
+      : (existingMemberData?.rank_highest || "Unranked");
+
+    const memberUpdate = {
+      player_tag: member.tag,
+      club_tag: clubTag,
+      player_name: member.name,
+      icon_id: player.icon?.id || existingMemberData?.icon_id || null,
+      role: member.role,
+      trophies: player.trophies,
+      highest_trophies: player.highestTrophies,
+      exp_level: player.expLevel,
+      rank_current: resolvedCurrentRank,
+      rank_highest: resolvedHighestRank,
+      win_rate: winRateData.winRate,
+      brawlers_count: player.brawlers.length,
+      solo_victories: player.soloVictories,
+      duo_victories: player.duoVictories,
+      trio_victories: player["3vs3Victories"],
+      is_active: isActive,
+      last_updated: new Date().toISOString(),
+    };
+    memberUpdates.push(memberUpdate);
+
+    // Field-level changes since the stored row; name and role notifications come from the same diff
+    const fieldChanges = existingMemberData ? diffMemberFields(existingMemberData, memberUpdate) : [];
+    memberChangeRows.push(...toMemberChangeRows(member.tag, clubTag, fieldChanges, memberUpdate.last_updated));
+    const changeOf = (field: string) => fieldChanges.find((c) => c.field === field);
+    milestones.push(...findMemberMilestones(
+      { player_tag: member.tag, player_name: member.name },
+      fieldChanges,
+      context.milestoneLadder
+    ));
+
+    const nameChange = changeOf("player_name");
+    if (nameChange) {
+      memberChangeNotifs.push({
+        type: "name_change",
+        title: "Name Changed",
+        message: `${nameChange.from} is now ${member.name} (${member.tag}).`,
+        player_tag: member.tag,
+        player_name: member.name,
+      });
     }
 
-    // Insert activity logs
-    if (activityLogs.length > 0) {
-      dbWrites.push(supabase.from("activity_log").insert(activityLogs));
+    // Role changes only count within the same club (a transfer resets the role)
+    const roleChange = changeOf("club_tag") ? undefined : changeOf("role");
+    const prevRoleNorm = normalizeRole(roleChange?.from as string | null);
+    const currentRoleNorm = normalizeRole(member.role);
+    if (roleChange && prevRoleNorm && currentRoleNorm && prevRoleNorm !== currentRoleNorm) {
+      const prevRank = roleRank[prevRoleNorm] ?? -1;
+      const nextRank = roleRank[currentRoleNorm] ?? -1;
+      const roleType = nextRank > prevRank ? "promotion" : nextRank < prevRank ? "demotion" : "role_change";
+      const roleTitle = roleType === "promotion"
+        ? "Member Promoted"
+        : roleType === "demotion"
+          ? "Member Demoted"
+          : "Role Changed";
+      memberChangeNotifs.push({
+        type: roleType,
+        title: roleTitle,
+        message: `${member.name} (${member.tag}) role changed: ${roleChange.from || "unknown"} → ${member.role}.`,
+        player_tag: member.tag,
+        player_name: member.name,
+        from: (roleChange.from as string | null) ?? null,
+        to: member.role,
+      });
     }
 
-    // Upsert member history
-    if (historyUpdates.length > 0) {
-      dbWrites.push(supabase.from("member_history").upsert(historyUpdates, {
-        onConflict: "player_tag",
-      }));
+    // Zero points means RNT had nothing (or failed): no snapshot, no rank change
+    const hasRankedData = rankedData.currentPoints > 0 || rankedData.highestPoints > 0;
+    if (hasRankedData) {
+      rankedSnapshots.push({
+        player_tag: member.tag,
+        club_tag: clubTag,
+        current_points: rankedData.currentPoints,
+        highest_points: rankedData.highestPoints,
+        current_rank: rankedData.currentRank,
+      });
+
+      const prevTier = getRankTierIndex(existingMemberData?.rank_current);
+      const nextTier = getRankTierIndex(rankedData.currentRank);
+      if (prevTier >= 0 && nextTier >= 0 && prevTier !== nextTier) {
+        const rankedUp = nextTier > prevTier;
+        memberChangeNotifs.push({
+          type: rankedUp ? "rank_up" : "rank_down",
+          title: rankedUp ? "Ranked Up" : "Ranked Down",
+          message: `${member.name} (${member.tag}) ${rankedUp ? "ranked up" : "dropped"} to ${rankedData.currentRank} (was ${existingMemberData?.rank_current}, ${rankedData.currentPoints} points).`,
+          player_tag: member.tag,
+          player_name: member.name,
+        });
+      }
     }
 
-    // Insert events
-    if (eventsToInsert.length > 0) {
-      dbWrites.push(supabase.from("club_events").insert(eventsToInsert));
+    // Log activity
+    activityLogs.push({
+      player_tag: member.tag,
+      club_tag: clubTag,
+      trophies: player.trophies,
+      trophy_change: trophyChange,
+      activity_type: activityType,
+    });
+
+    // Collect battles for storage
+    if (processedBattles && processedBattles.length > 0) {
+      allBattles.push(...processedBattles.map((battle) => ({ ...battle, club_tag: clubTag })));
+      battleLogSamples.push({
+        fetchedAt: battleLogFetchedAt,
+        newestBattleAt: Math.max(...processedBattles.map((b) => new Date(b.battle_time).getTime())),
+      });
+      battleLogFetchedAtByPlayer.set(member.tag, battleLogFetchedAt);
     }
 
-    // Wait for core DB writes to finish
-    await Promise.all(dbWrites);
 
-    // Store battle history and daily stats (can run in parallel with snapshots)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const secondaryDbWrites: any[] = [];
-
-    // Fix timezone offset: Brawl Stars API battleTime may not be UTC despite Z suffix.
-    // If the most recent battle appears to be in the future, detect and correct the offset.
-    if (allBattles.length > 0) {
-      const serverNow = Date.now();
-      const battleTimestamps = allBattles.map(b => new Date(b.battle_time).getTime());
-      const maxBattleTime = battleTimestamps.reduce((max, t) => t > max ? t : max, 0);
-      
-      if (maxBattleTime > serverNow + 60000) { // More than 1 minute in the future
-        const rawOffsetMs = maxBattleTime - serverNow;
-        const offsetHours = Math.ceil(rawOffsetMs / 3600000);
-        const offsetMs = offsetHours * 3600000;
-        console.log(`Detected battle time timezone offset: +${offsetHours}h, adjusting ${allBattles.length} battles`);
-        for (const battle of allBattles) {
-          battle.battle_time = new Date(new Date(battle.battle_time).getTime() - offsetMs).toISOString();
-        }
-      }
+    // Collect brawler snapshots
+    for (const brawler of player.brawlers) {
+      const loadout = getBrawlerLoadout(brawler);
+      brawlerSnapshots.push({
+        player_tag: member.tag,
+        brawler_id: brawler.id,
+        brawler_name: brawler.name,
+        power_level: brawler.power,
+        trophies: brawler.trophies,
+        rank: brawler.rank,
+        gadgets_count: brawler.gadgets?.length || 0,
+        star_powers_count: brawler.starPowers?.length || 0,
+        gears_count: brawler.gears?.length || 0,
+        gadgets: loadout.gadgets,
+        star_powers: loadout.starPowers,
+        gears: loadout.gears,
+        hypercharges: loadout.hyperCharges,
+      });
     }
 
-    if (allBattles.length > 0) {
-      // Insert battles, ignore duplicates
-      secondaryDbWrites.push(
-        supabase
-          .from("battle_history")
-          .upsert(allBattles, {
-            onConflict: "player_tag,battle_time",
-            ignoreDuplicates: false,
-          })
-          .then(({ error }) => {
-            if (error) console.error("Error storing battle history:", error);
-          })
-      );
+    // Update member history
+    const history = historyMap.get(member.tag);
+    if (history) {
+      if (!history.is_current_member) {
+        // Returning member!
+        historyUpdates.push({
+          club_tag: clubTag,
+          player_tag: member.tag,
+          player_name: member.name,
+          last_seen: new Date().toISOString(),
+          times_joined: history.times_joined + 1,
+          is_current_member: true,
+        });
+        // Only create join event if not initial setup
+        const fromClubTag = getTransferSource(member.tag);
+        events.push({
+          club_tag: clubTag,
+          event_type: fromClubTag ? "transfer" : "join",
+          player_tag: member.tag,
+          player_name: member.name,
+          from_club_tag: fromClubTag,
+        });
+      } else {
+        historyUpdates.push({
+          club_tag: clubTag,
+          player_tag: member.tag,
+          player_name: member.name,
+          last_seen: new Date().toISOString(),
+          is_current_member: true,
+        });
+      }
+    } else {
+      // New member - check if this is initial setup or a real new join
+      historyUpdates.push({
+        club_tag: clubTag,
+        player_tag: member.tag,
+        player_name: member.name,
+        first_seen: new Date().toISOString(),
+        last_seen: new Date().toISOString(),
+        times_joined: 1,
+        times_left: 0,
+        is_current_member: true,
+      });
 
-      // Build daily stats from battles
-      const dailyStatsMap = new Map<string, {
-        player_tag: string;
-        date: string;
-        battles: number;
-        wins: number;
-        losses: number;
-        star_player: number;
-        trophies_gained: number;
-        trophies_lost: number;
-      }>();
-
-      for (const battle of allBattles) {
-        const date = battle.battle_time.slice(0, 10); // YYYY-MM-DD
-        const key = `${battle.player_tag}_${date}`;
-        
-        if (!dailyStatsMap.has(key)) {
-          dailyStatsMap.set(key, {
-            player_tag: battle.player_tag,
-            date,
-            battles: 0,
-            wins: 0,
-            losses: 0,
-            star_player: 0,
-            trophies_gained: 0,
-            trophies_lost: 0,
-          });
-        }
-        
-        const stats = dailyStatsMap.get(key)!;
-        stats.battles++;
-        if (battle.result === "victory") stats.wins++;
-        if (battle.result === "defeat") stats.losses++;
-        if (battle.is_star_player) stats.star_player++;
-        if (battle.trophy_change > 0) stats.trophies_gained += battle.trophy_change;
-        if (battle.trophy_change < 0) stats.trophies_lost += Math.abs(battle.trophy_change);
+      // Only create join event if this is NOT the initial setup
+      // This way existing members don't get a "join" event on first sync
+      if (!isFirstSync) {
+        const fromClubTag = getTransferSource(member.tag);
+        events.push({
+          club_tag: clubTag,
+          event_type: fromClubTag ? "transfer" : "join",
+          player_tag: member.tag,
+          player_name: member.name,
+          from_club_tag: fromClubTag,
+        });
       }
+    }
+  }
 
-      const dailyStatsArray = Array.from(dailyStatsMap.values());
-      if (dailyStatsArray.length > 0) {
-        secondaryDbWrites.push(
-          supabase
-            .from("daily_stats")
-            .upsert(dailyStatsArray, { onConflict: "player_tag,date" })
-            .then(({ error }) => {
-              if (error) console.error("Error storing daily stats:", error);
-            })
-        );
+  // What changed since each player's previous brawler snapshot (read before today's
+  // snapshots are replaced). Brawler rank milestones ride along with the slice result
+  // and are announced when the club finalizes.
+  let brawlerEvents: ReturnType<typeof diffBrawlerSnapshots> = [];
+  if (brawlerSnapshots.length > 0) {
+    const playerTags = [...new Set(brawlerSnapshots.map(s => s.player_tag))];
+    const detectedAt = new Date().toISOString();
+    try {
+      const previousSnapshots = await getLatestBrawlerSnapshots(playerTags);
+      brawlerEvents = playerTags.flatMap((playerTag) =>
+        diffBrawlerSnapshots(
+          previousSnapshots.get(playerTag) || [],
+          brawlerSnapshots.filter(s => s.player_tag === playerTag),
+          detectedAt
+        )
+      );
+      for (const update of memberUpdates) {
+        milestones.push(...findBrawlerRankMilestones(
+          { player_tag: update.player_tag, player_name: update.player_name },
+          brawlerEvents.filter((e) => e.player_tag === update.player_tag && e.event_type === "rank"),
+          context.milestoneLadder
+        ));
       }
+    } catch (error) {
+      console.error("Error diffing brawler snapshots:", error);
     }
+  }
+
+  const sliceResult = {
+    synced: memberUpdates.length,
+    events,
+    memberChangeNotifs,
+    milestones,
+    inactiveMembers: memberUpdates
+      .filter((m) => !m.is_active)
+      .map((m) => ({ player_tag: m.player_tag, player_name: m.player_name })),
+    failures,
+  };
+
+  // Dry run: report the member changes, and what rules would see, before the first write
+  if (dryRun) {
+    return {
+      ...sliceResult,
+      memberChanges: diffMemberUpdates(memberUpdates, existingMemberMap),
+      rulePreview: {
+        members: memberUpdates.map((m) => ({
+          player_tag: m.player_tag,
+          player_name: m.player_name,
+          trophies: m.trophies,
+          rank_current: m.rank_current,
+          trophyChanged: existingMemberMap.has(m.player_tag) && m.trophies !== existingMemberMap.get(m.player_tag)!.trophies,
+        })),
+        battles: allBattles.map((b) => ({ player_tag: b.player_tag, battle_time: b.battle_time, result: b.result })),
+      },
+    };
+  }
 
-    // Store brawler snapshots (for tracking power ups/unlocks)
-    if (brawlerSnapshots.length > 0) {
-      const playerTags = [...new Set(brawlerSnapshots.map(s => s.player_tag))];
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().slice(0, 10);
+  // Run independent DB writes in parallel for speed
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const dbWrites: any[] = [];
 
-      const { data: allPrevSnapshots } = await supabase
-        .from("brawler_snapshots")
-        .select("player_tag, brawler_id, power_level")
-        .in("player_tag", playerTags)
-        .gte("recorded_at", yesterdayStr);
-
-      const prevByPlayer = new Map<string, Map<number, number>>();
-      const playersWithPrevData = new Set<string>();
-      for (const snap of allPrevSnapshots || []) {
-        playersWithPrevData.add(snap.player_tag);
-        if (!prevByPlayer.has(snap.player_tag)) {
-          prevByPlayer.set(snap.player_tag, new Map());
-        }
-        prevByPlayer.get(snap.player_tag)!.set(snap.brawler_id, snap.power_level);
-      }
+  // Upsert members
+  if (memberUpdates.length > 0) {
+    dbWrites.push(supabase.from("members").upsert(memberUpdates, {
+      onConflict: "player_tag",
+    }));
+  }
 
-      const trackingUpdates: Array<{ player_tag: string; power_ups: number; unlocks: number; last_updated: string }> = [];
-
-      for (const playerTag of playerTags) {
-        const playerBrawlers = brawlerSnapshots.filter(s => s.player_tag === playerTag);
-        const prevMap = prevByPlayer.get(playerTag) || new Map();
-        const hadPrevData = playersWithPrevData.has(playerTag);
-        
-        let powerUps = 0;
-        let unlocks = 0;
-        
-        for (const brawler of playerBrawlers) {
-          const prevPower = prevMap.get(brawler.brawler_id);
-          if (prevPower === undefined) {
-            if (hadPrevData) unlocks++;
-          } else if (brawler.power_level > prevPower) {
-            powerUps += brawler.power_level - prevPower;
-          }
-        }
-        
-        if (powerUps > 0 || unlocks > 0) {
-          trackingUpdates.push({
-            player_tag: playerTag,
-            power_ups: powerUps,
-            unlocks: unlocks,
-            last_updated: new Date().toISOString(),
-          });
-        }
-      }
+  // Insert activity logs
+  if (activityLogs.length > 0) {
+    dbWrites.push(supabase.from("activity_log").insert(activityLogs));
+  }
 
-      if (trackingUpdates.length > 0) {
-        secondaryDbWrites.push(
-          supabase.from("player_tracking").upsert(trackingUpdates, { onConflict: "player_tag" })
-        );
-      }
-      
-      // Delete today's existing snapshots for these players, then insert fresh ones
-      // (avoids the functional unique constraint issue with recorded_at::date)
-      const snapshotPlayerTags = [...new Set(brawlerSnapshots.map(s => s.player_tag))];
-      const todayStr = new Date().toISOString().slice(0, 10);
+  // Upsert member history
+  if (historyUpdates.length > 0) {
+    dbWrites.push(supabase.from("member_history").upsert(historyUpdates, {
+      onConflict: "club_tag,player_tag",
+    }));
+  }
+
+  // Field change stream
+  if (memberChangeRows.length > 0) {
+    dbWrites.push(supabase.from("member_changes").insert(memberChangeRows));
+  }
+
+  // Ranked points time series
+  if (rankedSnapshots.length > 0) {
+    dbWrites.push(supabase.from("ranked_snapshots").insert(rankedSnapshots));
+  }
+
+  // Wait for core DB writes to finish
+  await Promise.all(dbWrites);
+
+  // Store battle history and daily stats (can run in parallel with snapshots)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const secondaryDbWrites: any[] = [];
+
+  // Battle times may not be UTC despite the Z suffix. Estimate this source's offset
+  // from the slice's battle logs (falling back to what earlier slices of the job
+  // found), correct every battle by it, and flag the ones that still look wrong.
+  const source = getDataSourceKind();
+  const clockOffsets = state.clockOffsets ||= {};
+  const estimate = estimateClockOffset(battleLogSamples);
+  if (estimate.offsetMs !== null && estimate.offsetMs !== clockOffsets[source]) {
+    console.log(`Detected battle clock skew for ${source}: +${estimate.offsetMs / 3600000}h (${estimate.futureSamples} battle logs ahead of the server clock)`);
+    clockOffsets[source] = estimate.offsetMs;
+  }
+  const offsetMs = clockOffsets[source] || 0;
+  const storedBattles = allBattles.map((battle) => ({
+    ...correctBattleTime(battle, offsetMs, battleLogFetchedAtByPlayer.get(battle.player_tag) ?? Date.now()),
+    data_source: source,
+  }));
+  const suspectBattles = storedBattles.filter((b) => b.time_suspect).length;
+  if (suspectBattles > 0) {
+    console.warn(`${suspectBattles} battles are still in the future after a ${offsetMs}ms correction, storing them flagged`);
+  }
+  const clockSkew: ClockSkewReading = {
+    ...createClockSkewReading(),
+    offsetMs,
+    samples: battleLogSamples.length,
+    futureSamples: estimate.futureSamples,
+    suspectBattles,
+  };
+
+  if (storedBattles.length > 0) {
+    // Insert battles, ignore duplicates
+    secondaryDbWrites.push(
+      supabase
+        .from("battle_history")
+        .upsert(storedBattles, {
+          onConflict: "player_tag,battle_time",
+          ignoreDuplicates: false,
+        })
+        .then(({ error }) => {
+          if (error) console.error("Error storing battle history:", error);
+        })
+    );
+
+    // One canonical row per match, linked to every club member who played it
+    secondaryDbWrites.push(
+      storeMatches(storedBattles).catch((error) => {
+        console.error("Error storing matches:", error);
+      })
+    );
+
+    // Build daily stats from battles, bucketed by club-local day (flagged battles wait for a correction)
+    const dailyStatsArray = buildDailyStats(storedBattles.filter((b) => !b.time_suspect), context.timeZone);
+    if (dailyStatsArray.length > 0) {
       secondaryDbWrites.push(
         supabase
-          .from("brawler_snapshots")
-          .delete()
-          .in("player_tag", snapshotPlayerTags)
-          .gte("recorded_at", todayStr)
-          .lt("recorded_at", todayStr + "T23:59:59.999Z")
-          .then(() => 
-            supabase
-              .from("brawler_snapshots")
-              .insert(brawlerSnapshots)
-          )
+          .from("daily_stats")
+          .upsert(dailyStatsArray, { onConflict: "player_tag,date" })
           .then(({ error }) => {
-            if (error) console.error("Error storing brawler snapshots:", error);
+            if (error) console.error("Error storing daily stats:", error);
           })
       );
     }
+  }
 
-    // Wait for all secondary DB writes
-    await Promise.all(secondaryDbWrites);
-
-    // Auto-purge old data to prevent DB from filling up (keep last 30 days)
-    const retentionDays = 30;
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-    const cutoffISO = cutoffDate.toISOString();
-    const cutoffDateStr = cutoffISO.slice(0, 10);
-
-    await Promise.all([
-      supabase.from("battle_history").delete().lt("battle_time", cutoffISO)
-        .then(({ error, count }) => {
-          if (error) console.error("Error purging old battles:", error);
-          else if (count && count > 0) console.log(`Purged ${count} battles older than ${retentionDays} days`);
-        }),
-      supabase.from("daily_stats").delete().lt("date", cutoffDateStr)
-        .then(({ error, count }) => {
-          if (error) console.error("Error purging old daily stats:", error);
-          else if (count && count > 0) console.log(`Purged ${count} daily stats older than ${retentionDays} days`);
-        }),
-      supabase.from("brawler_snapshots").delete().lt("recorded_at", cutoffDateStr)
-        .then(({ error, count }) => {
-          if (error) console.error("Error purging old brawler snapshots:", error);
-          else if (count && count > 0) console.log(`Purged ${count} snapshots older than ${retentionDays} days`);
-        }),
-    ]);
-
-    // Insert DB notifications for the notification panel
-      const notifRows: Array<{
-        type: string;
-        title: string;
-        message: string;
-        player_tag: string | null;
-        player_name: string | null;
-        dedupe_key: string;
-      }> = [];
-      const notifCreatedAt = new Date().toISOString();
-
-      for (const evt of eventsToInsert) {
-        if (evt.event_type === "join") {
-          notifRows.push({
-            type: "join",
-            title: "Member Joined",
-            message: `${evt.player_name} (${evt.player_tag}) joined the club.`,
-            player_tag: evt.player_tag,
-            player_name: evt.player_name,
-            dedupe_key: buildNotificationDedupeKey(
-              "join",
-              "Member Joined",
-              `${evt.player_name} (${evt.player_tag}) joined the club.`,
-              evt.player_tag,
-              notifCreatedAt
-            ),
-          });
-        } else if (evt.event_type === "leave") {
-          notifRows.push({
-            type: "leave",
-            title: "Member Left",
-            message: `${evt.player_name} (${evt.player_tag}) left the club.`,
-            player_tag: evt.player_tag,
-            player_name: evt.player_name,
-            dedupe_key: buildNotificationDedupeKey(
-              "leave",
-              "Member Left",
-              `${evt.player_name} (${evt.player_tag}) left the club.`,
-              evt.player_tag,
-              notifCreatedAt
-            ),
-          });
-        }
-      }
+  // Every name seen, so renamed and former members stay searchable by old names
+  if (memberUpdates.length > 0) {
+    secondaryDbWrites.push(
+      recordPlayerNames(memberUpdates, memberUpdates[0].last_updated).catch((error) => {
+        console.error("Error storing player names:", error);
+      })
+    );
+  }
 
-      for (const notif of memberChangeNotifs) {
-        notifRows.push({
-          type: notif.type,
-          title: notif.title,
-          message: notif.message,
-          player_tag: notif.player_tag,
-          player_name: notif.player_name,
-          dedupe_key: buildNotificationDedupeKey(
-            notif.type,
-            notif.title,
-            notif.message,
-            notif.player_tag,
-            notifCreatedAt
-          ),
-        });
-      }
+  // Open a role period for new members and anyone whose role changed
+  if (memberUpdates.length > 0) {
+    secondaryDbWrites.push(
+      recordRolePeriods(clubTag, memberUpdates, memberUpdates[0].last_updated).catch((error) => {
+        console.error("Error storing role history:", error);
+      })
+    );
+  }
 
-      // Inactive members notification — reuse the same 24h throttle logic
-      const inactiveMembersForNotif = memberUpdates.filter(m => !m.is_active);
-      if (inactiveMembersForNotif.length > 0) {
-        const { data: lastAlert } = await supabase
-          .from("settings")
-          .select("value")
-          .eq("key", "last_inactive_notif")
-          .single();
-        const lastTime = lastAlert?.value ? new Date(lastAlert.value).getTime() : 0;
-        if ((Date.now() - lastTime) / (1000 * 60 * 60) >= 24) {
-          const names = inactiveMembersForNotif
-            .slice(0, 10)
-            .map((m) => `${m.player_name} (${m.player_tag})`)
-            .join(", ");
-          const extra = inactiveMembersForNotif.length > 10 ? ` and ${inactiveMembersForNotif.length - 10} more` : "";
-          const inactiveTitle = `${inactiveMembersForNotif.length} Inactive Member(s)`;
-          const inactiveMessage = `${names}${extra} — inactive for ${inactivityThreshold}+ hours.`;
-          notifRows.push({
-            type: "inactive",
-            title: inactiveTitle,
-            message: inactiveMessage,
-            player_tag: null,
-            player_name: null,
-            dedupe_key: buildNotificationDedupeKey(
-              "inactive",
-              inactiveTitle,
-              inactiveMessage,
-              null,
-              notifCreatedAt
-            ),
-          });
-          await supabase.from("settings").upsert({ key: "last_inactive_notif", value: new Date().toISOString() }, { onConflict: "key" });
-        }
+  // Store brawler snapshots and what changed since each player's previous one
+  if (brawlerSnapshots.length > 0) {
+    const playerTags = [...new Set(brawlerSnapshots.map(s => s.player_tag))];
+    if (brawlerEvents.length > 0) {
+      secondaryDbWrites.push(
+        recordBrawlerEvents(brawlerEvents).catch((error) => console.error("Error storing brawler events:", error))
+      );
+    }
+
+    // Delete today's existing snapshots for these players, then insert fresh ones
+    // (avoids the functional unique constraint issue with recorded_at::date)
+    const todayStr = new Date().toISOString().slice(0, 10);
+    secondaryDbWrites.push(
+      supabase
+        .from("brawler_snapshots")
+        .delete()
+        .in("player_tag", playerTags)
+        .gte("recorded_at", todayStr)
+        .lt("recorded_at", todayStr + "T23:59:59.999Z")
+        .then(() =>
+          supabase
+            .from("brawler_snapshots")
+            .insert(brawlerSnapshots)
+        )
+        .then(({ error }) => {
+          if (error) console.error("Error storing brawler snapshots:", error);
+        })
+    );
+  }
+
+  // Wait for all secondary DB writes
+  await Promise.all(secondaryDbWrites);
+
+  return { ...sliceResult, memberChanges: [], clockSkew };
+}
+
+// Field-level differences between the stored members and the rows a sync would upsert.
+// Same tracked fields as member_changes, plus the activity flag.
+function diffMemberUpdates(
+  memberUpdates: Array<TrackedMember & { player_tag: string; is_active: boolean }>,
+  existingMemberMap: Map<string, ExistingMember>
+): MemberFieldChange[] {
+  const memberChanges: MemberFieldChange[] = [];
+  for (const update of memberUpdates) {
+    const existing = existingMemberMap.get(update.player_tag);
+    const changes: MemberFieldChange["changes"] = {};
+    if (existing) {
+      for (const { field, from, to } of diffMemberFields(existing, update)) changes[field] = { from, to };
+      if (existing.is_active !== update.is_active) changes.is_active = { from: existing.is_active, to: update.is_active };
+    } else {
+      for (const field of MEMBER_CHANGE_FIELDS) {
+        if (update[field] != null) changes[field] = { from: null, to: update[field] };
       }
+      changes.is_active = { from: null, to: update.is_active };
+    }
+    if (!existing || Object.keys(changes).length > 0) {
+      memberChanges.push({
+        player_tag: update.player_tag,
+        player_name: update.player_name,
+        is_new: !existing,
+        changes,
+      });
+    }
+  }
+  return memberChanges;
+}
 
-      if (notifRows.length > 0) {
-        const uniqueBatchNotifKeys = new Set<string>();
-        let notifRowsToInsert = notifRows.filter((notif) => {
-          const key = `${notif.type}|${notif.player_tag || ""}|${notif.title}|${notif.message}`;
-          if (uniqueBatchNotifKeys.has(key)) return false;
-          uniqueBatchNotifKeys.add(key);
-          return true;
-        });
+// rulePreview (dry runs only) replaces the stored member state rules are checked against
+async function finalizeClub(
+  clubTag: string,
+  club: BrawlStarsClub,
+  state: SyncJobState,
+  context: ClubSyncContext,
+  rulePreview?: RulePreview
+) {
+  const clubLabel = club.name || clubTag;
+  const { inactivityThreshold, channelRouting, notificationsEnabled, dryRun, job } = context;
+  const result = state.results[clubTag] || { synced: 0, events: [], memberChangeNotifs: [], inactiveMembers: [] };
+  const { memberChangeNotifs, inactiveMembers } = result;
+  const events = [...result.events];
+  const historyUpdates = [];
+
+  // Members who left since the job started
+  for (const leaver of state.leaversByClub[clubTag] || []) {
+    historyUpdates.push({
+      club_tag: clubTag,
+      player_tag: leaver.player_tag,
+      player_name: leaver.player_name,
+      last_seen: new Date().toISOString(),
+      last_left_at: new Date().toISOString(),
+      times_left: leaver.times_left + 1,
+      is_current_member: false,
+      role_at_leave: leaver.role,
+      trophies_at_leave: leaver.trophies,
+    });
 
-        const notifTypes = [...new Set(notifRowsToInsert.map((n) => n.type))];
-        const recentNotifWindowISO = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    // Moved to a sister club: the destination club records the transfer event
+    const destinationClubTag = state.currentClubByPlayer[leaver.player_tag];
+    if (destinationClubTag && destinationClubTag !== clubTag) {
+      continue;
+    }
 
-        if (notifTypes.length > 0) {
-          const { data: recentNotifs } = await supabase
-            .from("notifications")
-            .select("type, title, message, player_tag, created_at")
-            .in("type", notifTypes)
-            .gte("created_at", recentNotifWindowISO);
+    events.push({
+      club_tag: clubTag,
+      event_type: "leave",
+      player_tag: leaver.player_tag,
+      player_name: leaver.player_name,
+    });
 
-          const existingRecentNotifKeys = new Set(
-            (recentNotifs || []).map((notif) => `${notif.type}|${notif.player_tag || ""}|${notif.title}|${notif.message}`)
-          );
+    // Mark member as inactive
+    if (!dryRun) {
+      await supabase
+        .from("members")
+        .update({ is_active: false })
+        .eq("player_tag", leaver.player_tag)
+        .eq("club_tag", clubTag);
+    }
+  }
 
-          notifRowsToInsert = notifRowsToInsert.filter(
-            (notif) => !existingRecentNotifKeys.has(`${notif.type}|${notif.player_tag || ""}|${notif.title}|${notif.message}`)
-          );
-        }
+  // Deduplicate join/leave events (batch + recent DB window) to avoid duplicates
+  let eventsToInsert = events;
+  if (events.length > 0) {
+    const uniqueBatchEventKeys = new Set<string>();
+    eventsToInsert = events.filter((evt) => {
+      const key = `${evt.event_type}|${evt.player_tag}|${evt.player_name}`;
+      if (uniqueBatchEventKeys.has(key)) return false;
+      uniqueBatchEventKeys.add(key);
+      return true;
+    });
 
-        if (notifRowsToInsert.length > 0) {
-          const { error: notifError } = await supabase
-            .from("notifications")
-            .upsert(notifRowsToInsert, { onConflict: "dedupe_key", ignoreDuplicates: true });
-          if (notifError) console.error("Error inserting notifications:", notifError);
-          else console.log(`Inserted ${notifRowsToInsert.length} notification(s) into DB`);
-        }
+    const recentEventWindowISO = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const eventTypes = [...new Set(eventsToInsert.map((evt) => evt.event_type))];
+    const eventTags = [...new Set(eventsToInsert.map((evt) => evt.player_tag))];
+
+    if (eventTypes.length > 0 && eventTags.length > 0) {
+      let recentEventQuery = supabase
+        .from("club_events")
+        .select("event_type, player_tag, player_name, event_time")
+        .eq("club_tag", clubTag)
+        .in("event_type", eventTypes)
+        .in("player_tag", eventTags)
+        .gte("event_time", recentEventWindowISO);
+      // Events this job already stored are kept: their notifications may not have been
+      if (job) {
+        recentEventQuery = recentEventQuery.or(`sync_job_id.is.null,sync_job_id.neq.${job.id}`);
       }
+      const { data: recentEvents } = await recentEventQuery;
 
-    // Send Discord webhook notifications for joins/leaves/inactivity
-    if (notificationsEnabled && discordWebhook && discordWebhook.startsWith("https://discord.com/api/webhooks/")) {
-      try {
-        const embeds: Array<{ title: string; description: string; color: number; timestamp: string }> = [];
-
-        // Join events
-        for (const evt of eventsToInsert.filter(e => e.event_type === "join")) {
-          embeds.push({
-            title: "\u2705 Member Joined",
-            description: `**${evt.player_name}** (${evt.player_tag}) joined the club.`,
-            color: 0x22c55e, // green
-            timestamp: new Date().toISOString(),
-          });
-        }
+      const existingRecentEventKeys = new Set(
+        (recentEvents || []).map((evt) => `${evt.event_type}|${evt.player_tag}|${evt.player_name}`)
+      );
 
-        // Leave events
-        for (const evt of eventsToInsert.filter(e => e.event_type === "leave")) {
-          embeds.push({
-            title: "\u274c Member Left",
-            description: `**${evt.player_name}** (${evt.player_tag}) left the club.`,
-            color: 0xef4444, // red
-            timestamp: new Date().toISOString(),
-          });
-        }
+      eventsToInsert = eventsToInsert.filter(
+        (evt) => !existingRecentEventKeys.has(`${evt.event_type}|${evt.player_tag}|${evt.player_name}`)
+      );
+    }
+  }
 
-        // Inactive members alert — only send once per day to avoid spam
-        const inactiveMembers = memberUpdates.filter(m => !m.is_active);
-        if (inactiveMembers.length > 0) {
-          // Check when we last sent an inactive alert
-          const { data: lastInactiveAlert } = await supabase
-            .from("settings")
-            .select("value")
-            .eq("key", "last_inactive_alert")
-            .single();
-          
-          const lastAlertTime = lastInactiveAlert?.value ? new Date(lastInactiveAlert.value).getTime() : 0;
-          const hoursSinceLastAlert = (Date.now() - lastAlertTime) / (1000 * 60 * 60);
-          
-          // Only send once every 24 hours
-          if (hoursSinceLastAlert >= 24) {
-            const inactiveList = inactiveMembers
-              .slice(0, 15)
-              .map(m => `\u2022 **${m.player_name}** (${m.player_tag})`)
-              .join("\n");
-            const extra = inactiveMembers.length > 15 ? `\n... and ${inactiveMembers.length - 15} more` : "";
-            embeds.push({
-              title: `\u23f0 ${inactiveMembers.length} Inactive Member(s)`,
-              description: `These members have been inactive for ${inactivityThreshold}+ hours:\n${inactiveList}${extra}`,
-              color: 0xf59e0b, // amber
-              timestamp: new Date().toISOString(),
-            });
-            
-            // Save the timestamp so we don't spam
-            await supabase.from("settings").upsert({
-              key: "last_inactive_alert",
-              value: new Date().toISOString(),
-            }, { onConflict: "key" });
-          }
-        }
+  // Club profile and totals for the history charts; compared with the previous
+  // snapshot to catch requirement, type and description changes
+  const clubSnapshot = toClubSnapshot(clubTag, club);
+  let clubSettingChanges: ClubSettingChange[] = [];
+  try {
+    clubSettingChanges = diffClubSettings(await getLatestClubSnapshot(clubTag, job?.id), clubSnapshot);
+  } catch (error) {
+    console.error("Error reading previous club snapshot:", error);
+  }
 
-        // Send embeds in batches of 10 (Discord limit)
-        for (let i = 0; i < embeds.length; i += 10) {
-          const batch = embeds.slice(i, i + 10);
-          const res = await fetch(discordWebhook, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              username: "Brawl Club Manager",
-              embeds: batch,
-            }),
-          });
-          if (!res.ok) {
-            console.error("Discord webhook error:", res.status, await res.text());
-          }
-        }
+  if (!dryRun) {
+    // Run independent DB writes in parallel for speed
+    const dbWrites: PromiseLike<unknown>[] = [];
 
-        if (embeds.length > 0) {
-          console.log(`Sent ${embeds.length} Discord notification(s)`);
-        }
-      } catch (webhookError) {
-        console.error("Failed to send Discord notification:", webhookError);
-      }
+    // Upsert member history for leavers
+    if (historyUpdates.length > 0) {
+      dbWrites.push(supabase.from("member_history").upsert(historyUpdates, {
+        onConflict: "club_tag,player_tag",
+      }));
     }
 
-    // Save last sync time to database
-    const syncTime = new Date().toISOString();
-    await Promise.all([
-      supabase.from("settings").upsert({
-        key: "last_sync_time",
-        value: syncTime,
-      }, { onConflict: "key" }),
-      supabase.from("settings").upsert({
-        key: "required_trophies",
-        value: String(club.requiredTrophies ?? ""),
-      }, { onConflict: "key" }),
-    ]);
-
-    // Separate joins and leaves for the response
-    const joins = events.filter(e => e.event_type === "join");
-    const leaves = events.filter(e => e.event_type === "leave");
-
-    return NextResponse.json({
-      success: true,
-      synced: memberUpdates.length,
-      events: events.length,
-      timestamp: syncTime,
-      changes: {
-        joins: joins.map(e => ({ playerTag: e.player_tag, playerName: e.player_name })),
-        leaves: leaves.map(e => ({ playerTag: e.player_tag, playerName: e.player_name })),
-      },
-    });
-  } catch (error) {
-    console.error("Sync error:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    if (error instanceof Error && error.stack) {
-      console.error("Stack trace:", error.stack);
+    // Insert events (once per job)
+    if (eventsToInsert.length > 0) {
+      dbWrites.push(supabase.from("club_events").upsert(
+        eventsToInsert.map((evt) => ({ ...evt, sync_job_id: job?.id ?? null })),
+        { onConflict: "sync_job_id,club_tag,event_type,player_tag", ignoreDuplicates: true }
+      ));
     }
-    return NextResponse.json(
-      { error: "Failed to sync data", message: errorMessage },
-      { status: 500 }
+
+    // Refresh the club's registry entry (name and requirement can change in-game)
+    dbWrites.push(supabase.from("clubs").update({
+      club_name: club.name,
+      required_trophies: club.requiredTrophies ?? null,
+    }).eq("club_tag", clubTag));
+
+    dbWrites.push(supabase.from("club_snapshots").upsert(
+      { ...clubSnapshot, sync_job_id: job?.id ?? null },
+      { onConflict: "club_tag,sync_job_id", ignoreDuplicates: true }
+    ));
+
+    // Leavers' current role periods end with their membership
+    const leaverTags = (state.leaversByClub[clubTag] || []).map((leaver) => leaver.player_tag);
+    dbWrites.push(
+      closeRolePeriods(clubTag, leaverTags, new Date().toISOString()).catch((error) => {
+        console.error("Error closing role history:", error);
+      })
     );
+    await Promise.all(dbWrites);
   }
+
+  // User-defined notification rules, checked against the roster this run left behind
+  let ruleEvaluation: RuleEvaluation = { firings: [], stateUpdates: [] };
+  try {
+    ruleEvaluation = await evaluateNotificationRules(clubTag, club.requiredTrophies ?? null, rulePreview);
+  } catch (error) {
+    console.error("Error evaluating notification rules:", error);
+  }
+
+  // Milestones found while syncing the slices, minus any already announced. They are
+  // only recorded as announced once their notifications are stored.
+  let newMilestones: Milestone[] = [];
+  try {
+    newMilestones = await getUnannouncedMilestones(result.milestones || []);
+  } catch (error) {
+    console.error("Error checking milestones:", error);
+  }
+
+  const getClubLabel = (tag: string | null | undefined) =>
+    (tag && context.clubsByTag.get(tag)?.club_name) || tag || "another club";
+
+  // Insert DB notifications for the notification panel
+  const notifRows: Array<{
+    club_tag: string;
+    type: string;
+    title: string;
+    message: string;
+    player_tag: string | null;
+    player_name: string | null;
+    dedupe_key: string;
+  }> = [];
+  // The job's start time makes the dedupe keys the same when the club is finalized again
+  const notifCreatedAt = job?.started_at ?? new Date().toISOString();
+
+  for (const evt of eventsToInsert) {
+    if (evt.event_type === "join") {
+      notifRows.push({
+        club_tag: clubTag,
+        type: "join",
+        title: "Member Joined",
+        message: `${evt.player_name} (${evt.player_tag}) joined the club.`,
+        player_tag: evt.player_tag,
+        player_name: evt.player_name,
+        dedupe_key: buildNotificationDedupeKey(
+          "join",
+          "Member Joined",
+          `${evt.player_name} (${evt.player_tag}) joined the club.`,
+          evt.player_tag,
+          notifCreatedAt
+        ),
+      });
+    } else if (evt.event_type === "leave") {
+      notifRows.push({
+        club_tag: clubTag,
+        type: "leave",
+        title: "Member Left",
+        message: `${evt.player_name} (${evt.player_tag}) left the club.`,
+        player_tag: evt.player_tag,
+        player_name: evt.player_name,
+        dedupe_key: buildNotificationDedupeKey(
+          "leave",
+          "Member Left",
+          `${evt.player_name} (${evt.player_tag}) left the club.`,
+          evt.player_tag,
+          notifCreatedAt
+        ),
+      });
+    } else if (evt.event_type === "transfer") {
+      const transferMessage = `${evt.player_name} (${evt.player_tag}) moved from ${getClubLabel(evt.from_club_tag)} to ${clubLabel}.`;
+      notifRows.push({
+        club_tag: clubTag,
+        type: "transfer",
+        title: "Member Transferred",
+        message: transferMessage,
+        player_tag: evt.player_tag,
+        player_name: evt.player_name,
+        dedupe_key: buildNotificationDedupeKey(
+          "transfer",
+          "Member Transferred",
+          transferMessage,
+          evt.player_tag,
+          notifCreatedAt
+        ),
+      });
+    }
+  }
+
+  for (const notif of memberChangeNotifs) {
+    notifRows.push({
+      club_tag: clubTag,
+      type: notif.type,
+      title: notif.title,
+      message: notif.message,
+      player_tag: notif.player_tag,
+      player_name: notif.player_name,
+      dedupe_key: buildNotificationDedupeKey(
+        notif.type,
+        notif.title,
+        notif.message,
+        notif.player_tag,
+        notifCreatedAt
+      ),
+    });
+  }
+
+  for (const change of clubSettingChanges) {
+    const settingMessage = `${clubLabel}: ${change.label} changed from "${truncate(change.from, 100)}" to "${truncate(change.to, 100)}".`;
+    notifRows.push({
+      club_tag: clubTag,
+      type: "club_settings",
+      title: "Club Settings Changed",
+      message: settingMessage,
+      player_tag: null,
+      player_name: null,
+      dedupe_key: buildNotificationDedupeKey(
+        "club_settings",
+        "Club Settings Changed",
+        settingMessage,
+        null,
+        notifCreatedAt
+      ),
+    });
+  }
+
+  for (const milestone of newMilestones) {
+    const milestoneTitle = MILESTONE_TITLES[milestone.kind];
+    notifRows.push({
+      club_tag: clubTag,
+      type: "milestone",
+      title: milestoneTitle,
+      message: milestone.message,
+      player_tag: milestone.player_tag,
+      player_name: milestone.player_name,
+      dedupe_key: buildNotificationDedupeKey(
+        "milestone",
+        milestoneTitle,
+        milestone.message,
+        milestone.player_tag,
+        notifCreatedAt
+      ),
+    });
+  }
+
+  // Rules reach the panel, the routed channels or both, as each rule asks. Channel-only
+  // firings are stored as well, hidden from the panel, so they are delivered like the rest.
+  const panelOnlyNotifKeys = new Set<string>();
+  const externalOnlyNotifKeys = new Set<string>();
+  for (const firing of ruleEvaluation.firings) {
+    const ruleRow = {
+      club_tag: clubTag,
+      type: "rule",
+      title: firing.rule.name,
+      message: firing.message,
+      player_tag: firing.facts.player_tag,
+      player_name: firing.facts.player_name,
+      dedupe_key: buildNotificationDedupeKey(
+        "rule",
+        firing.rule.name,
+        firing.message,
+        firing.facts.player_tag,
+        notifCreatedAt
+      ),
+    };
+    if (!firing.rule.channels.includes("external")) panelOnlyNotifKeys.add(ruleRow.dedupe_key);
+    if (!firing.rule.channels.includes("panel")) externalOnlyNotifKeys.add(ruleRow.dedupe_key);
+    notifRows.push(ruleRow);
+  }
+
+  // Inactive members notification — reuse the same 24h throttle logic (tracked per club)
+  const inactiveMembersForNotif = inactiveMembers;
+  let inactiveNotified = false;
+  if (inactiveMembersForNotif.length > 0) {
+    const { data: lastAlert } = await supabase
+      .from("settings")
+      .select("value")
+      .eq("key", `last_inactive_notif:${clubTag}`)
+      .single();
+    const lastTime = lastAlert?.value ? new Date(lastAlert.value).getTime() : 0;
+    if ((Date.now() - lastTime) / (1000 * 60 * 60) >= 24) {
+      const names = inactiveMembersForNotif
+        .slice(0, 10)
+        .map((m) => `${m.player_name} (${m.player_tag})`)
+        .join(", ");
+      const extra = inactiveMembersForNotif.length > 10 ? ` and ${inactiveMembersForNotif.length - 10} more` : "";
+      const inactiveTitle = `${inactiveMembersForNotif.length} Inactive Member(s)`;
+      const inactiveMessage = `${names}${extra} — inactive for ${inactivityThreshold}+ hours.`;
+      notifRows.push({
+        club_tag: clubTag,
+        type: "inactive",
+        title: inactiveTitle,
+        message: inactiveMessage,
+        player_tag: null,
+        player_name: null,
+        dedupe_key: buildNotificationDedupeKey(
+          "inactive",
+          inactiveTitle,
+          inactiveMessage,
+          null,
+          notifCreatedAt
+        ),
+      });
+      inactiveNotified = true;
+    }
+  }
+
+  let notifRowsToInsert: typeof notifRows = [];
+  if (notifRows.length > 0) {
+    const uniqueBatchNotifKeys = new Set<string>();
+    notifRowsToInsert = notifRows.filter((notif) => {
+      const key = `${notif.type}|${notif.player_tag || ""}|${notif.title}|${notif.message}`;
+      if (uniqueBatchNotifKeys.has(key)) return false;
+      uniqueBatchNotifKeys.add(key);
+      return true;
+    });
+
+    const notifTypes = [...new Set(notifRowsToInsert.map((n) => n.type))];
+    const recentNotifWindowISO = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+
+    if (notifTypes.length > 0) {
+      const { data: recentNotifs } = await supabase
+        .from("notifications")
+        .select("type, title, message, player_tag, created_at")
+        .eq("club_tag", clubTag)
+        .in("type", notifTypes)
+        .gte("created_at", recentNotifWindowISO);
+
+      const existingRecentNotifKeys = new Set(
+        (recentNotifs || []).map((notif) => `${notif.type}|${notif.player_tag || ""}|${notif.title}|${notif.message}`)
+      );
+
+      notifRowsToInsert = notifRowsToInsert.filter(
+        (notif) => !existingRecentNotifKeys.has(`${notif.type}|${notif.player_tag || ""}|${notif.title}|${notif.message}`)
+      );
+    }
+  }
+
+  // The channels each notification type is routed to; the rows are queued once stored
+  // and sent after the sync
+  const outboundNotifs = notificationsEnabled
+    ? notifRowsToInsert.filter((notif) => !panelOnlyNotifKeys.has(notif.dedupe_key))
+    : [];
+  const deliveries: ChannelDelivery[] = getChannelDeliveries(channelRouting, outboundNotifs);
+
+  if (notifRowsToInsert.length > 0 && !dryRun) {
+    const { data: insertedNotifs, error: notifError } = await supabase
+      .from("notifications")
+      .upsert(
+        notifRowsToInsert.map((notif) => ({ ...notif, show_in_panel: !externalOnlyNotifKeys.has(notif.dedupe_key) })),
+        { onConflict: "dedupe_key", ignoreDuplicates: true }
+      )
+      .select("id, type, dedupe_key");
+    // Thrown so the club is finalized again, with its milestones still unannounced
+    if (notifError) throw notifError;
+    console.log(`Inserted ${insertedNotifs.length} notification(s) into DB`);
+
+    const outboundKeys = new Set(outboundNotifs.map((notif) => notif.dedupe_key));
+    try {
+      const queued = await queueNotificationDeliveries(
+        channelRouting,
+        insertedNotifs.filter((notif) => outboundKeys.has(notif.dedupe_key))
+      );
+      if (queued > 0) console.log(`Queued ${queued} channel deliveries for ${clubTag}`);
+    } catch (error) {
+      console.error("Error queueing notification deliveries:", error);
+    }
+  }
+
+  // Milestones, rule state and the inactive throttle are saved once the notifications
+  // are stored, so a club finalized again announces them again
+  if (!dryRun) {
+    await recordMilestones(newMilestones);
+    await saveRuleState(ruleEvaluation.stateUpdates);
+    if (inactiveNotified) {
+      await supabase.from("settings").upsert({ key: `last_inactive_notif:${clubTag}`, value: new Date().toISOString() }, { onConflict: "key" });
+    }
+  }
+
+  // Raw events for the signed webhook subscriptions
+  if (!dryRun) {
+    const webhookEvents: WebhookEventInput[] = [];
+    for (const evt of eventsToInsert) {
+      if (evt.event_type !== "join" && evt.event_type !== "leave" && evt.event_type !== "transfer") continue;
+      webhookEvents.push({
+        event: evt.event_type,
+        data: {
+          club_tag: clubTag,
+          club_name: clubLabel,
+          player_tag: evt.player_tag,
+          player_name: evt.player_name,
+          from_club_tag: evt.event_type === "transfer" ? evt.from_club_tag ?? null : undefined,
+        },
+      });
+    }
+    for (const notif of memberChangeNotifs) {
+      if (notif.type !== "promotion" && notif.type !== "demotion" && notif.type !== "role_change") continue;
+      webhookEvents.push({
+        event: "role_change",
+        data: {
+          club_tag: clubTag,
+          club_name: clubLabel,
+          player_tag: notif.player_tag,
+          player_name: notif.player_name,
+          from_role: notif.from ?? null,
+          to_role: notif.to ?? null,
+          direction: notif.type,
+        },
+      });
+    }
+    for (const milestone of newMilestones) {
+      webhookEvents.push({
+        event: "milestone",
+        data: {
+          club_tag: clubTag,
+          club_name: clubLabel,
+          player_tag: milestone.player_tag,
+          player_name: milestone.player_name,
+          kind: milestone.kind,
+          value: milestone.value,
+          milestone_key: milestone.milestone_key,
+          message: milestone.message,
+        },
+      });
+    }
+    try {
+      await emitWebhookEvents(webhookEvents);
+    } catch (error) {
+      console.error("Error queueing webhook events:", error);
+    }
+  }
+
+  return {
+    clubTag,
+    synced: result.synced,
+    events,
+    notifications: notifRowsToInsert,
+    deliveries,
+  };
 }
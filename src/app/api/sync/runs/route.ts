@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+
+// GET — Recent sync runs with their per-member failures (?limit=20, ?player=#TAG)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
+    const player = searchParams.get("player");
+
+    // Only runs where this player was skipped
+    if (player) {
+      const { data: failures, error } = await supabase
+        .from("sync_run_failures")
+        .select("*, sync_runs(*)")
+        .eq("player_tag", player)
+        .order("occurred_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return NextResponse.json({ failures: failures || [] });
+    }
+
+    const { data: runs, error } = await supabase
+      .from("sync_runs")
+      .select("*, failures:sync_run_failures(*)")
+      .order("started_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return NextResponse.json({ runs: runs || [] });
+  } catch (error) {
+    console.error("Error fetching sync runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sync runs" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { getRateLimiterMetrics } from "@/lib/brawl-api";
 
 export async function GET() {
   try {
@@ -13,8 +14,18 @@ export async function GET() {
       throw error;
     }
 
+    const { data: lastRun } = await supabase
+      .from("sync_runs")
+      .select("id, trigger, status, members_synced, members_skipped, error, started_at, finished_at")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
     return NextResponse.json({
       lastSyncTime: data?.value || null,
+      lastRun: lastRun || null,
+      // Counters of this server instance since it started
+      rateLimiters: getRateLimiterMetrics(),
     });
   } catch (error) {
     console.error("Error fetching sync status:", error);
@@ -1,20 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getClub, setApiKey } from "@/lib/brawl-api";
+import { getClub } from "@/lib/brawl-api";
+import { configureDataSource } from "@/lib/data-source";
 
 export async function POST(request: NextRequest) {
   try {
     const { clubTag, apiKey } = await request.json();
 
-    if (!clubTag || !apiKey) {
+    // Pick the configured data source (fixtures don't need an API key)
+    if (!clubTag || !configureDataSource(apiKey)) {
       return NextResponse.json(
         { error: "Club tag and API key are required" },
         { status: 400 }
       );
     }
 
-    // Set the API key for the request
-    setApiKey(apiKey);
-
     // Try to fetch the club
     const club = await getClub(clubTag);
 
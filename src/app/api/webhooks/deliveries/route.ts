@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { redeliverWebhook } from "@/lib/event-webhooks";
+
+// GET - Delivery log, newest first (?subscription_id=&status=&limit=)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const subscriptionId = searchParams.get("subscription_id");
+    const status = searchParams.get("status");
+    // Non-numeric limits fall back to the default
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1), 200);
+
+    let query = supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (subscriptionId) query = query.eq("subscription_id", subscriptionId);
+    if (status) query = query.eq("status", status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ deliveries: data || [] });
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook deliveries" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Redeliver a past delivery ({ id }); the resend is logged as a new delivery
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await redeliverWebhook(Number(body.id));
+    if (!delivery) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("Error redelivering webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to redeliver webhook" },
+      { status: 500 }
+    );
+  }
+}
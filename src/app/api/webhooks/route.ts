@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { generateWebhookSecret } from "@/lib/event-webhooks";
+import { validateWebhookSubscription } from "@/lib/webhook-events";
+import type { WebhookSubscription } from "@/types/database";
+
+const EDITABLE_FIELDS = ["name", "url", "secret", "events", "enabled"] as const;
+
+function pickSubscriptionFields(body: Record<string, unknown>): Partial<WebhookSubscription> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (key in body) fields[key] = body[key];
+  }
+  for (const key of ["name", "url", "secret"]) {
+    if (typeof fields[key] === "string") fields[key] = (fields[key] as string).trim();
+  }
+  if (fields.secret === "") delete fields.secret;
+  if (Array.isArray(fields.events)) fields.events = [...new Set(fields.events)];
+  return fields as Partial<WebhookSubscription>;
+}
+
+// GET - All webhook subscriptions, oldest first
+export async function GET() {
+  try {
+    const { data, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({ subscriptions: data || [] });
+  } catch (error) {
+    console.error("Error fetching webhook subscriptions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook subscriptions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a subscription ({ name, url, events, secret? }); a secret is generated if none is given
+export async function POST(request: NextRequest) {
+  try {
+    const subscription = pickSubscriptionFields(await request.json());
+    const invalid = validateWebhookSubscription(subscription);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("webhook_subscriptions")
+      .insert({ ...subscription, secret: subscription.secret || generateWebhookSecret() } as WebhookSubscription)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ subscription: data });
+  } catch (error) {
+    console.error("Error creating webhook subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to create webhook subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update a subscription ({ id, ...fields }); { id, rotateSecret: true } issues a new secret
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("id", body.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    const changes = pickSubscriptionFields(body);
+    if (body.rotateSecret) changes.secret = generateWebhookSecret();
+    const invalid = validateWebhookSubscription({ ...existing, ...changes });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("webhook_subscriptions")
+      .update(changes)
+      .eq("id", body.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ subscription: data });
+  } catch (error) {
+    console.error("Error updating webhook subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to update webhook subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a subscription (?id=); its delivery log goes with it
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "id is required" },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting webhook subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to delete webhook subscription" },
+      { status: 500 }
+    );
+  }
+}
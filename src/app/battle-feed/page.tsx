@@ -4,6 +4,10 @@ import { useEffect, useState, useCallback, useRef } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
 import { getBrawlerIconFromMap, normalizeBrawlerName } from "@/lib/brawl-assets";
+import { useAppStore } from "@/lib/store";
+import { withClubScope } from "@/lib/utils";
+import { playerMatches } from "@/lib/name-search";
+import { addDays, getZonedToday } from "@/lib/timezone";
 import { LayoutWrapper } from "@/components/layout-wrapper";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -77,6 +81,7 @@ const MODE_ICONS: Record<string, string> = {
 interface MemberOption {
   tag: string;
   name: string;
+  aliases?: string[];
 }
 
 function formatMode(mode: string | null): string {
@@ -461,6 +466,7 @@ export default function BattleFeedPage() {
   const [clockDelta, setClockDelta] = useState(0);
   const [brawlerIconByName, setBrawlerIconByName] = useState<Record<string, string>>({});
   const memberDropdownRef = useRef<HTMLDivElement>(null);
+  const { activeClubTag, timezone } = useAppStore();
 
   const PAGE_SIZE = 50;
 
@@ -479,8 +485,8 @@ export default function BattleFeedPage() {
         if (filterDate) params.set("date", filterDate);
 
         const [feedRes, membersRes] = await Promise.all([
-          fetch(`/api/battles/feed?${params}`),
-          !append ? fetch("/api/members") : Promise.resolve(null),
+          fetch(withClubScope(`/api/battles/feed?${params}`, activeClubTag)),
+          !append ? fetch(withClubScope("/api/members", activeClubTag)) : Promise.resolve(null),
         ]);
 
         if (feedRes.ok) {
@@ -514,7 +520,7 @@ export default function BattleFeedPage() {
         setIsLoadingMore(false);
       }
     },
-    [filterMode, filterPlayer, filterDate]
+    [filterMode, filterPlayer, filterDate, activeClubTag]
   );
 
   useEffect(() => {
@@ -553,7 +559,7 @@ export default function BattleFeedPage() {
     loadMatches(0, false);
   }, [loadMatches]);
 
-  // Supabase Realtime: listen for new battle_history inserts
+  // Supabase Realtime: listen for new matches
   const loadMatchesRef = useRef(loadMatches);
   loadMatchesRef.current = loadMatches;
 
@@ -562,7 +568,7 @@ export default function BattleFeedPage() {
       .channel("battle-feed-realtime")
       .on(
         "postgres_changes",
-        { event: "INSERT", schema: "public", table: "battle_history" },
+        { event: "INSERT", schema: "public", table: "matches" },
         () => {
           // Reload from the top when new battles arrive
           loadMatchesRef.current(0, false);
@@ -589,10 +595,8 @@ export default function BattleFeedPage() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const filteredMembers = memberList.filter(
-    (m) =>
-      m.name.toLowerCase().includes(memberSearch.toLowerCase()) ||
-      m.tag.toLowerCase().includes(memberSearch.toLowerCase())
+  const filteredMembers = memberList.filter((m) =>
+    playerMatches(memberSearch, m.tag, [m.name, ...(m.aliases || [])])
   );
 
   const selectedMemberName = memberList.find((m) => m.tag === filterPlayer)?.name || "";
@@ -697,16 +701,15 @@ export default function BattleFeedPage() {
             >
               <option value="">All Days</option>
               {(() => {
+                // Days in the club timezone, matching how the feed filters by date
                 const days: { label: string; value: string }[] = [];
-                const now = new Date();
+                const today = getZonedToday(timezone);
                 for (let i = 0; i < 14; i++) {
-                  const d = new Date(now);
-                  d.setDate(d.getDate() - i);
-                  const value = d.toISOString().slice(0, 10);
+                  const value = addDays(today, -i);
                   let label: string;
                   if (i === 0) label = "Today";
                   else if (i === 1) label = "Yesterday";
-                  else label = d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+                  else label = new Date(`${value}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
                   days.push({ label, value });
                 }
                 return days.map((d) => (
@@ -14,8 +14,11 @@ import {
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { MemberHistory } from "@/types/database";
-import { formatDate, formatDateTime } from "@/lib/utils";
+import { MemberHistory, RolePeriod } from "@/types/database";
+import { useAppStore } from "@/lib/store";
+import { formatDate, formatDateTime, formatDuration, withClubScope } from "@/lib/utils";
+import { getPeriodLength, getRoleLabel } from "@/components/role-history";
+import { playerMatches } from "@/lib/name-search";
 import { Search, UserPlus, UserMinus, Pencil, Check, X, Trash2 } from "lucide-react";
 
 const MIN_VALID_DATE_MS = new Date("2000-01-01T00:00:00.000Z").getTime();
@@ -28,9 +31,12 @@ function formatSafeDate(value: string | null | undefined, withTime = false): str
   return withTime ? formatDateTime(parsed.toISOString()) : formatDate(parsed.toISOString());
 }
 
+// Each record comes with the player's other names (matched by search) and role periods
+type HistoryEntry = MemberHistory & { aliases?: string[]; role_history?: RolePeriod[] };
+
 export default function HistoryPage() {
-  const [history, setHistory] = useState<MemberHistory[]>([]);
-  const [filteredHistory, setFilteredHistory] = useState<MemberHistory[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [filteredHistory, setFilteredHistory] = useState<HistoryEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [filter, setFilter] = useState<"all" | "current" | "former">("all");
@@ -38,20 +44,19 @@ export default function HistoryPage() {
   const [editingTag, setEditingTag] = useState<string | null>(null);
   const [editingNote, setEditingNote] = useState("");
   const [savingNote, setSavingNote] = useState(false);
+  const { activeClubTag } = useAppStore();
 
   useEffect(() => {
     loadHistory();
-  }, [timeRange]);
+  }, [timeRange, activeClubTag]);
 
   useEffect(() => {
     let filtered = [...history];
 
     // Search filter
     if (searchQuery) {
-      filtered = filtered.filter(
-        (h) =>
-          h.player_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          h.player_tag.toLowerCase().includes(searchQuery.toLowerCase())
+      filtered = filtered.filter((h) =>
+        playerMatches(searchQuery, h.player_tag, [h.player_name, ...(h.aliases || [])])
       );
     }
 
@@ -68,7 +73,7 @@ export default function HistoryPage() {
   const loadHistory = async () => {
     try {
       const query = timeRange === "all" ? "" : `?days=${timeRange}`;
-      const response = await fetch(`/api/history${query}`);
+      const response = await fetch(withClubScope(`/api/history${query}`, activeClubTag));
       if (response.ok) {
         const data = await response.json();
         setHistory(data.history || []);
@@ -239,14 +244,32 @@ export default function HistoryPage() {
                         </TableRow>
                       ) : (
                         filteredHistory.map((h) => (
-                          <TableRow key={h.player_tag}>
+                          <TableRow key={`${h.club_tag}:${h.player_tag}`}>
                             <TableCell>
                               <div>
                                 <p className="font-medium truncate max-w-[120px] sm:max-w-none">{h.player_name}</p>
                                 <p className="text-xs text-muted-foreground">{h.player_tag}</p>
+                                {h.aliases && h.aliases.length > 0 && (
+                                  <p className="text-xs text-muted-foreground truncate max-w-[120px] sm:max-w-xs">
+                                    aka {h.aliases.join(", ")}
+                                  </p>
+                                )}
                               </div>
                             </TableCell>
-                            <TableCell>{getMemberBadge(h)}</TableCell>
+                            <TableCell>
+                              {getMemberBadge(h)}
+                              {h.role_history?.[0] && (
+                                <p
+                                  className="text-xs text-muted-foreground mt-1"
+                                  title={h.role_history
+                                    .map((p) => `${getRoleLabel(p.role)}: ${formatDuration(getPeriodLength(p))}`)
+                                    .join("\n")}
+                                >
+                                  {getRoleLabel(h.role_history[0].role)} for{" "}
+                                  {formatDuration(getPeriodLength(h.role_history[0]))}
+                                </p>
+                              )}
+                            </TableCell>
                             <TableCell className="hidden sm:table-cell text-muted-foreground">
                               {formatSafeDate(h.first_seen)}
                             </TableCell>
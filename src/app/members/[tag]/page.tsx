@@ -6,8 +6,8 @@ import { LayoutWrapper } from "@/components/layout-wrapper";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { TrophyStatistics, ActivityCalendar, PowerLevelChart, TrackingStats, EnhancedTrackingStats } from "@/components/charts";
-import { Member, ActivityLog, MemberHistory } from "@/types/database";
+import { TrophyStatistics, ActivityCalendar, PowerLevelChart, TrackingStats, EnhancedTrackingStats, RankedPointsChart } from "@/components/charts";
+import { Member, ActivityLog, MemberHistory, RankedSnapshot, PlayerName, RolePeriod } from "@/types/database";
 import {
   formatNumber,
   formatDate,
@@ -16,6 +16,11 @@ import {
   getRankColor,
 } from "@/lib/utils";
 import { getProfileIconUrl } from "@/lib/brawl-assets";
+import type { MonthlyHistoryEntry } from "@/lib/retention";
+import { MonthlyHistory } from "@/components/monthly-history";
+import { BrawlerTimeline } from "@/components/brawler-timeline";
+import { RoleHistory } from "@/components/role-history";
+import { BrawlerLoadouts, type BrawlerBuild } from "@/components/brawler-loadouts";
 import {
   Trophy,
   Star,
@@ -87,13 +92,18 @@ interface RecentMatch {
   brawler_power: number | null;
 }
 
+interface DataAge {
+  player: { fetchedAt: string | null; ageSeconds: number | null };
+  battleLog: { fetchedAt: string | null; ageSeconds: number | null };
+}
+
 interface PageProps {
   params: Promise<{ tag: string }>;
 }
 
 export default function MemberDetailPage({ params }: PageProps) {
   const resolvedParams = use(params);
-  const { apiKey } = useAppStore();
+  const { apiKey, timezone } = useAppStore();
   const [member, setMember] = useState<Member | null>(null);
   const [activityHistory, setActivityHistory] = useState<ActivityLog[]>([]);
   const [memberHistory, setMemberHistory] = useState<MemberHistory | null>(null);
@@ -103,8 +113,14 @@ export default function MemberDetailPage({ params }: PageProps) {
   const [enhancedStats, setEnhancedStats] = useState<EnhancedStats | null>(null);
   const [calendarBattlesByDay, setCalendarBattlesByDay] = useState<Record<string, number>>({});
   const [topBrawlers, setTopBrawlers] = useState<TopBrawler[]>([]);
+  const [loadouts, setLoadouts] = useState<BrawlerBuild[]>([]);
   const [recentMatches, setRecentMatches] = useState<RecentMatch[]>([]);
   const [playerTags, setPlayerTags] = useState<string[]>([]);
+  const [dataAge, setDataAge] = useState<DataAge | null>(null);
+  const [rankedHistory, setRankedHistory] = useState<RankedSnapshot[]>([]);
+  const [monthlyHistory, setMonthlyHistory] = useState<MonthlyHistoryEntry[]>([]);
+  const [names, setNames] = useState<PlayerName[]>([]);
+  const [roleHistory, setRoleHistory] = useState<RolePeriod[]>([]);
   const [avatarError, setAvatarError] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -130,8 +146,14 @@ export default function MemberDetailPage({ params }: PageProps) {
         setEnhancedStats(data.enhancedStats || null);
         setCalendarBattlesByDay(data.calendarBattlesByDay || {});
         setTopBrawlers(data.topBrawlers || []);
+        setLoadouts(data.loadouts || []);
         setRecentMatches(data.recentMatches || []);
         setPlayerTags(data.playerTags || []);
+        setDataAge(data.dataAge || null);
+        setRankedHistory(data.rankedHistory || []);
+        setMonthlyHistory(data.monthlyHistory || []);
+        setNames(data.names || []);
+        setRoleHistory(data.roleHistory || []);
       }
     } catch (error) {
       console.error("Error loading member:", error);
@@ -146,12 +168,14 @@ export default function MemberDetailPage({ params }: PageProps) {
       const response = await fetch(`/api/members/${encodeURIComponent(playerTag)}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ apiKey }),
+        // Explicit refresh: skip the response cache
+        body: JSON.stringify({ apiKey, force: true }),
       });
 
       if (response.ok) {
         const data = await response.json();
         setMember(data.member);
+        setDataAge(data.dataAge || null);
       }
     } catch (error) {
       console.error("Error refreshing member:", error);
@@ -265,6 +289,15 @@ export default function MemberDetailPage({ params }: PageProps) {
                         </span>
                       </div>
                       <p className="text-muted-foreground">{member.player_tag}</p>
+                      {names.some((n) => n.player_name !== member.player_name) && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Also known as{" "}
+                          {names
+                            .filter((n) => n.player_name !== member.player_name)
+                            .map((n) => `${n.player_name} (${formatDate(n.first_seen)} – ${formatDate(n.last_seen)})`)
+                            .join(", ")}
+                        </p>
+                      )}
                       <div className="flex items-center gap-2 mt-1">
                         <Badge>{member.role}</Badge>
                         {getMemberBadge()}
@@ -278,10 +311,17 @@ export default function MemberDetailPage({ params }: PageProps) {
                       )}
                     </div>
                   </div>
-                  <Button onClick={handleRefresh} disabled={isRefreshing}>
-                    <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
-                    Refresh Stats
-                  </Button>
+                  <div className="flex flex-col items-end gap-1">
+                    <Button onClick={handleRefresh} disabled={isRefreshing}>
+                      <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
+                      Refresh Stats
+                    </Button>
+                    {dataAge?.player.fetchedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        API data updated {formatRelativeTime(dataAge.player.fetchedAt).toLowerCase()}
+                      </span>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -412,9 +452,23 @@ export default function MemberDetailPage({ params }: PageProps) {
               </Card>
             )}
 
+            {/* Brawler Builds (gadgets, star powers, gears, hypercharges) */}
+            {loadouts.length > 0 && <BrawlerLoadouts builds={loadouts} />}
+
             {/* Trophy Statistics Chart */}
             <TrophyStatistics data={trophyChartData} currentTrophies={member.trophies} />
 
+            {/* Ranked Points Chart */}
+            {rankedHistory.length > 1 && <RankedPointsChart data={rankedHistory} />}
+
+            {/* Monthly History (rolled-up stats beyond the raw retention window) */}
+            {monthlyHistory.length > 0 && <MonthlyHistory months={monthlyHistory} />}
+
+            <RoleHistory periods={roleHistory} />
+
+            {/* Brawler Progression (unlocks, power-ups, items, rank changes) */}
+            <BrawlerTimeline playerTag={playerTag} />
+
             {/* Battle Stats Row */}
             {(battleStats || powerDistribution || enhancedStats || Object.keys(calendarBattlesByDay).length > 0) && (
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -424,7 +478,7 @@ export default function MemberDetailPage({ params }: PageProps) {
                     Object.keys(calendarBattlesByDay).length > 0 
                       ? calendarBattlesByDay 
                       : (battleStats?.battlesByDay || {})
-                  } />
+                  } timeZone={timezone} />
                 )}
                 
                 {/* Power Level Distribution */}
@@ -3,33 +3,39 @@
 import { useEffect, useState } from "react";
 import { LayoutWrapper } from "@/components/layout-wrapper";
 import { MembersTable } from "@/components/members-table";
+import { LoadoutFinder } from "@/components/loadout-finder";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { useAppStore } from "@/lib/store";
+import { withClubScope } from "@/lib/utils";
+import { playerMatches } from "@/lib/name-search";
 import { Member } from "@/types/database";
 import { Search, RefreshCw, Download } from "lucide-react";
 
+// Former names come with the member list so search can match them
+type MemberWithAliases = Member & { aliases?: string[] };
+
 export default function MembersPage() {
-  const [members, setMembers] = useState<Member[]>([]);
-  const [filteredMembers, setFilteredMembers] = useState<Member[]>([]);
+  const [members, setMembers] = useState<MemberWithAliases[]>([]);
+  const [filteredMembers, setFilteredMembers] = useState<MemberWithAliases[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState<"trophies" | "name" | "role">("trophies");
+  const { activeClubTag } = useAppStore();
 
   useEffect(() => {
     loadMembers();
-  }, []);
+  }, [activeClubTag]);
 
   useEffect(() => {
     let filtered = [...members];
 
     // Search filter
     if (searchQuery) {
-      filtered = filtered.filter(
-        (m) =>
-          m.player_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          m.player_tag.toLowerCase().includes(searchQuery.toLowerCase())
+      filtered = filtered.filter((m) =>
+        playerMatches(searchQuery, m.player_tag, [m.player_name, ...(m.aliases || [])])
       );
     }
 
@@ -57,7 +63,7 @@ export default function MembersPage() {
   const loadMembers = async () => {
     try {
       setIsRefreshing(true);
-      const response = await fetch("/api/members");
+      const response = await fetch(withClubScope("/api/members", activeClubTag));
       if (response.ok) {
         const data = await response.json();
         setMembers(data.members || []);
@@ -104,50 +110,54 @@ export default function MembersPage() {
 
   return (
     <LayoutWrapper>
-      <Card>
-        <CardHeader>
-          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-            <CardTitle>All Members ({members.length})</CardTitle>
-            <div className="flex flex-col sm:flex-row gap-2">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search members..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10 w-full sm:w-64"
-                />
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <CardTitle>All Members ({members.length})</CardTitle>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search members..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10 w-full sm:w-64"
+                  />
+                </div>
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                  className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                >
+                  <option value="trophies">Sort by Trophies</option>
+                  <option value="name">Sort by Name</option>
+                  <option value="role">Sort by Role</option>
+                </select>
+                <Button variant="outline" onClick={loadMembers} size="sm" className="sm:size-default" disabled={isRefreshing}>
+                  <RefreshCw className={`h-4 w-4 sm:mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
+                  <span className="hidden sm:inline">{isRefreshing ? "Refreshing..." : "Refresh"}</span>
+                </Button>
+                <Button variant="outline" onClick={handleExport} size="sm" className="sm:size-default">
+                  <Download className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Export</span>
+                </Button>
               </div>
-              <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
-                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
-              >
-                <option value="trophies">Sort by Trophies</option>
-                <option value="name">Sort by Name</option>
-                <option value="role">Sort by Role</option>
-              </select>
-              <Button variant="outline" onClick={loadMembers} size="sm" className="sm:size-default" disabled={isRefreshing}>
-                <RefreshCw className={`h-4 w-4 sm:mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
-                <span className="hidden sm:inline">{isRefreshing ? "Refreshing..." : "Refresh"}</span>
-              </Button>
-              <Button variant="outline" onClick={handleExport} size="sm" className="sm:size-default">
-                <Download className="h-4 w-4 sm:mr-2" />
-                <span className="hidden sm:inline">Export</span>
-              </Button>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {isLoading ? (
-            <div className="flex items-center justify-center py-12">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
             </div>
-          ) : (
-            <MembersTable members={filteredMembers} />
-          )}
-        </CardContent>
-      </Card>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <MembersTable members={filteredMembers} />
+            )}
+          </CardContent>
+        </Card>
+
+        <LoadoutFinder />
+      </div>
     </LayoutWrapper>
   );
 }
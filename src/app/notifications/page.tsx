@@ -2,11 +2,13 @@
 
 import { ReactNode, useEffect, useState } from "react";
 import Link from "next/link";
-import { cn } from "@/lib/utils";
+import { cn, withClubScope } from "@/lib/utils";
+import { useAppStore } from "@/lib/store";
 import { LayoutWrapper } from "@/components/layout-wrapper";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
+  ArrowRightLeft,
   Bell,
   CheckCheck,
   ChevronDown,
@@ -14,8 +16,13 @@ import {
   Clock3,
   Loader2,
   Pencil,
+  Settings,
+  TrendingDown,
+  TrendingUp,
+  Trophy,
   UserMinus,
   UserPlus,
+  Zap,
 } from "lucide-react";
 
 interface Notification {
@@ -34,16 +41,17 @@ export default function NotificationsPage() {
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<"all" | "unread">("all");
-  const [category, setCategory] = useState<"all" | "join" | "leave" | "inactive" | "promotion" | "name_change">("all");
+  const [category, setCategory] = useState<"all" | "join" | "leave" | "inactive" | "promotion" | "name_change" | "transfer" | "ranked" | "club_settings" | "milestone" | "rule">("all");
+  const { activeClubTag } = useAppStore();
 
   useEffect(() => {
     loadNotifications();
-  }, []);
+  }, [activeClubTag]);
 
   const loadNotifications = async () => {
     try {
       setLoading(true);
-      const res = await fetch("/api/notifications?limit=100");
+      const res = await fetch(withClubScope("/api/notifications?limit=100", activeClubTag));
       if (res.ok) {
         const data = await res.json();
         setNotifications(data.notifications || []);
@@ -77,7 +85,7 @@ export default function NotificationsPage() {
       await fetch("/api/notifications", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ all: true }),
+        body: JSON.stringify({ all: true, clubTag: activeClubTag || undefined }),
       });
       setNotifications((prev) => prev.map((n) => ({ ...n, is_read: true })));
       setUnreadCount(0);
@@ -100,6 +108,18 @@ export default function NotificationsPage() {
         return { icon: ChevronDown, color: "text-orange-500", bg: "border-l-orange-500" };
       case "name_change":
         return { icon: Pencil, color: "text-cyan-500", bg: "border-l-cyan-500" };
+      case "transfer":
+        return { icon: ArrowRightLeft, color: "text-blue-500", bg: "border-l-blue-500" };
+      case "rank_up":
+        return { icon: TrendingUp, color: "text-violet-500", bg: "border-l-violet-500" };
+      case "rank_down":
+        return { icon: TrendingDown, color: "text-rose-500", bg: "border-l-rose-500" };
+      case "club_settings":
+        return { icon: Settings, color: "text-violet-500", bg: "border-l-violet-500" };
+      case "milestone":
+        return { icon: Trophy, color: "text-yellow-500", bg: "border-l-yellow-500" };
+      case "rule":
+        return { icon: Zap, color: "text-cyan-500", bg: "border-l-cyan-500" };
       default:
         return { icon: Bell, color: "text-blue-500", bg: "border-l-blue-500" };
     }
@@ -158,6 +178,7 @@ export default function NotificationsPage() {
     if (filter === "unread" && n.is_read) return false;
     if (category === "all") return true;
     if (category === "promotion") return n.type === "promotion" || n.type === "demotion";
+    if (category === "ranked") return n.type === "rank_up" || n.type === "rank_down";
     return n.type === category;
   });
 
@@ -237,6 +258,11 @@ export default function NotificationsPage() {
         <Button size="sm" variant={category === "inactive" ? "default" : "outline"} onClick={() => setCategory("inactive")}>Inactive</Button>
         <Button size="sm" variant={category === "promotion" ? "default" : "outline"} onClick={() => setCategory("promotion")}>Promotions</Button>
         <Button size="sm" variant={category === "name_change" ? "default" : "outline"} onClick={() => setCategory("name_change")}>Name Changes</Button>
+        <Button size="sm" variant={category === "transfer" ? "default" : "outline"} onClick={() => setCategory("transfer")}>Transfers</Button>
+        <Button size="sm" variant={category === "ranked" ? "default" : "outline"} onClick={() => setCategory("ranked")}>Ranked</Button>
+        <Button size="sm" variant={category === "club_settings" ? "default" : "outline"} onClick={() => setCategory("club_settings")}>Club Settings</Button>
+        <Button size="sm" variant={category === "milestone" ? "default" : "outline"} onClick={() => setCategory("milestone")}>Milestones</Button>
+        <Button size="sm" variant={category === "rule" ? "default" : "outline"} onClick={() => setCategory("rule")}>Rules</Button>
       </div>
 
       {/* Notification list */}
@@ -3,15 +3,17 @@
 import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
 import { useAppStore } from "@/lib/store";
+import { withClubScope } from "@/lib/utils";
 import { LayoutWrapper } from "@/components/layout-wrapper";
 import { SetupWizard } from "@/components/setup-wizard";
 import { StatsCards } from "@/components/stats-cards";
 import { MembersTable } from "@/components/members-table";
 import { ActivityTimeline } from "@/components/activity-timeline";
-import { ActivityPieChart, MemberBarChart } from "@/components/charts";
+import { ActivityPieChart, ClubHistoryCharts, MemberBarChart } from "@/components/charts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Member, ClubEvent } from "@/types/database";
+import type { ClubHistoryPoint } from "@/lib/club-snapshots";
 import { Trophy, UserX, TrendingUp, TrendingDown, Minus, Crown, Target, Copy, Check } from "lucide-react";
 
 interface ClubInsights {
@@ -25,6 +27,10 @@ interface ClubInsights {
   winRate: number;
   totalWins: number;
   totalBattlesThisWeek: number;
+  clubMatches?: {
+    stacked: { matches: number; winRate: number };
+    solo: { matches: number; winRate: number };
+  };
   kickList: { tag: string; name: string; lastActive: string | null }[];
   kickCount: number;
   thisWeekTotal: number;
@@ -39,6 +45,7 @@ export default function DashboardPage() {
   const {
     clubTag,
     apiKey,
+    activeClubTag,
     requiredTrophies,
     isLoadingSettings,
     hasLoadedSettings,
@@ -49,8 +56,10 @@ export default function DashboardPage() {
   const [events, setEvents] = useState<ClubEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [mounted, setMounted] = useState(false);
-  const [dataLoaded, setDataLoaded] = useState(false);
+  // Club scope the current data was loaded for (null = not loaded yet)
+  const [loadedClubScope, setLoadedClubScope] = useState<string | null>(null);
   const [insights, setInsights] = useState<ClubInsights | null>(null);
+  const [clubHistory, setClubHistory] = useState<ClubHistoryPoint[]>([]);
   const [copiedTag, setCopiedTag] = useState<string | null>(null);
   const inactiveMembersRef = useRef<HTMLDivElement | null>(null);
 
@@ -67,20 +76,21 @@ export default function DashboardPage() {
     
     if (clubTag && apiKey) {
       setIsSetupComplete(true);
-      if (!dataLoaded) {
-        loadData();
+      if (loadedClubScope !== activeClubTag) {
+        loadData(activeClubTag);
       }
     } else {
       setIsLoading(false);
     }
-  }, [clubTag, apiKey, mounted, isLoadingSettings, dataLoaded]);
+  }, [clubTag, apiKey, activeClubTag, mounted, isLoadingSettings, loadedClubScope]);
 
-  const loadData = async () => {
+  const loadData = async (clubScope: string) => {
     try {
-      const [membersRes, eventsRes, insightsRes] = await Promise.all([
-        fetch("/api/members"),
-        fetch("/api/events"),
-        fetch("/api/insights"),
+      const [membersRes, eventsRes, insightsRes, historyRes] = await Promise.all([
+        fetch(withClubScope("/api/members", clubScope)),
+        fetch(withClubScope("/api/events", clubScope)),
+        fetch(withClubScope("/api/insights", clubScope)),
+        fetch(withClubScope("/api/club/history", clubScope)),
       ]);
 
       if (membersRes.ok) {
@@ -97,11 +107,16 @@ export default function DashboardPage() {
         const data = await insightsRes.json();
         setInsights(data.insights || null);
       }
+
+      if (historyRes.ok) {
+        const data = await historyRes.json();
+        setClubHistory(data.history || []);
+      }
     } catch (error) {
       console.error("Error loading data:", error);
     } finally {
       setIsLoading(false);
-      setDataLoaded(true);
+      setLoadedClubScope(clubScope);
     }
   };
 
@@ -212,8 +227,13 @@ export default function DashboardPage() {
                       insights.winRate >= 45 ? "text-foreground" : "text-red-500"
                     }`}>{insights.winRate}%</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {insights.totalWins}W this week
+                      {insights.totalWins}W / {insights.totalBattlesThisWeek} matches this week
                     </p>
+                    {insights.clubMatches && insights.clubMatches.stacked.matches > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Stacked {insights.clubMatches.stacked.winRate}% · Solo {insights.clubMatches.solo.winRate}%
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -357,6 +377,9 @@ export default function DashboardPage() {
             <MemberBarChart data={topMembers} />
           </div>
 
+          {/* Club trophies and member count over time */}
+          {clubHistory.length > 1 && <ClubHistoryCharts data={clubHistory} />}
+
           {/* Members and Activity */}
           <div className="grid gap-6 lg:grid-cols-3">
             <div className="lg:col-span-2">
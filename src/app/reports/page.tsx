@@ -5,7 +5,8 @@ import { LayoutWrapper } from "@/components/layout-wrapper";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { TrophyChart, ActivityPieChart } from "@/components/charts";
-import { formatNumber, formatDate } from "@/lib/utils";
+import { useAppStore } from "@/lib/store";
+import { formatNumber, formatDate, withClubScope } from "@/lib/utils";
 import { Download, RefreshCw, TrendingUp, TrendingDown, Users, Trophy } from "lucide-react";
 
 interface WeeklyReport {
@@ -13,6 +14,7 @@ interface WeeklyReport {
   period: {
     start: string;
     end: string;
+    timeZone?: string;
   };
   summary: {
     totalMembers: number;
@@ -23,6 +25,8 @@ interface WeeklyReport {
     weeklyWins: number;
     weeklyBattles: number;
     weeklyWinRate: number;
+    weeklyStacked?: { matches: number; wins: number; winRate: number };
+    weeklySolo?: { matches: number; wins: number; winRate: number };
   };
   topGainers: { playerTag: string; playerName: string; trophyChange: number }[];
   topLosers: { playerTag: string; playerName: string; trophyChange: number }[];
@@ -35,15 +39,16 @@ interface WeeklyReport {
 export default function ReportsPage() {
   const [report, setReport] = useState<WeeklyReport | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const { activeClubTag } = useAppStore();
 
   useEffect(() => {
     loadReport();
-  }, []);
+  }, [activeClubTag]);
 
   const loadReport = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch("/api/reports/weekly");
+      const response = await fetch(withClubScope("/api/reports/weekly", activeClubTag));
       if (response.ok) {
         const data = await response.json();
         setReport(data);
@@ -75,7 +80,7 @@ export default function ReportsPage() {
         <body>
           <h1>Club Weekly Report</h1>
           <p>Generated: ${formatDate(report.generatedAt)}</p>
-          <p>Period: ${formatDate(report.period.start)} - ${formatDate(report.period.end)}</p>
+          <p>Period: ${formatDate(report.period.start, report.period.timeZone)} - ${formatDate(report.period.end, report.period.timeZone)}</p>
           
           <h2>Summary</h2>
           <div class="stat">Total Members: ${report.summary.totalMembers}</div>
@@ -131,7 +136,7 @@ export default function ReportsPage() {
           <h1 className="text-2xl font-bold">Weekly Report</h1>
           {report && (
             <p className="text-muted-foreground">
-              {formatDate(report.period.start)} - {formatDate(report.period.end)}
+              {formatDate(report.period.start, report.period.timeZone)} - {formatDate(report.period.end, report.period.timeZone)}
                 </p>
               )}
             </div>
@@ -181,8 +186,13 @@ export default function ReportsPage() {
                   <CardContent>
                     <div className="text-2xl font-bold">{report.summary.weeklyWinRate}%</div>
                     <p className="text-xs text-muted-foreground">
-                      {formatNumber(report.summary.weeklyWins)}W / {formatNumber(report.summary.weeklyBattles)} battles
+                      {formatNumber(report.summary.weeklyWins)}W / {formatNumber(report.summary.weeklyBattles)} matches
                     </p>
+                    {report.summary.weeklyStacked && report.summary.weeklySolo && (
+                      <p className="text-xs text-muted-foreground">
+                        Stacked {report.summary.weeklyStacked.winRate}% ({report.summary.weeklyStacked.matches}) · Solo {report.summary.weeklySolo.winRate}% ({report.summary.weeklySolo.matches})
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -2,7 +2,15 @@
 
 import { useState, useEffect } from "react";
 import { useAppStore } from "@/lib/store";
+import { withClubScope } from "@/lib/utils";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone";
 import { LayoutWrapper } from "@/components/layout-wrapper";
+import { SyncHistory } from "@/components/sync-history";
+import { RetentionSettings } from "@/components/retention-settings";
+import { NotificationRules } from "@/components/notification-rules";
+import { NotificationChannels } from "@/components/notification-channels";
+import { EventWebhooks } from "@/components/event-webhooks";
+import { MilestoneSettings } from "@/components/milestone-settings";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -18,9 +26,18 @@ import {
   AlertTriangle,
   CheckCircle,
   ExternalLink,
-  RotateCcw
+  RotateCcw,
+  Users,
+  Plus,
+  Trash2
 } from "lucide-react";
 
+// IANA zones known to the browser, with UTC first
+const timezoneOptions = [
+  DEFAULT_TIMEZONE,
+  ...Intl.supportedValuesOf("timeZone").filter((tz) => tz !== DEFAULT_TIMEZONE),
+];
+
 export default function SettingsPage() {
   const {
     clubTag,
@@ -29,27 +46,33 @@ export default function SettingsPage() {
     inactivityThreshold,
     refreshInterval,
     notificationsEnabled,
-    discordWebhook,
+    timezone,
     setClubTag,
     setApiKey,
     setTheme,
     setInactivityThreshold,
     setRefreshInterval,
     setNotificationsEnabled,
-    setDiscordWebhook,
+    setTimezone,
     saveSettingsToDB,
     loadSettingsFromDB,
     hasLoadedSettings,
+    clubs,
+    activeClubTag,
+    loadClubs,
   } = useAppStore();
 
   const [localClubTag, setLocalClubTag] = useState<string | null>(null);
   const [localApiKey, setLocalApiKey] = useState<string | null>(null);
-  const [localDiscordWebhook, setLocalDiscordWebhook] = useState<string | null>(null);
   const [localInactivityThreshold, setLocalInactivityThreshold] = useState<number | null>(null);
   const [localRefreshInterval, setLocalRefreshInterval] = useState<number | null>(null);
+  const [localTimezone, setLocalTimezone] = useState<string | null>(null);
   const [generalStatus, setGeneralStatus] = useState<"idle" | "saving" | "saved">("idle");
   const [activityStatus, setActivityStatus] = useState<"idle" | "saving" | "saved">("idle");
   const [notifStatus, setNotifStatus] = useState<"idle" | "saving" | "saved">("idle");
+  const [newClubTag, setNewClubTag] = useState("");
+  const [clubStatus, setClubStatus] = useState<"idle" | "adding">("idle");
+  const [clubError, setClubError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!hasLoadedSettings) {
@@ -59,9 +82,9 @@ export default function SettingsPage() {
 
   const effectiveClubTag = localClubTag ?? clubTag;
   const effectiveApiKey = localApiKey ?? apiKey;
-  const effectiveDiscordWebhook = localDiscordWebhook ?? discordWebhook;
   const effectiveInactivityThreshold = localInactivityThreshold ?? inactivityThreshold;
   const effectiveRefreshInterval = localRefreshInterval ?? refreshInterval;
+  const effectiveTimezone = localTimezone ?? timezone;
 
   const handleSaveGeneral = async () => {
     setGeneralStatus("saving");
@@ -74,7 +97,6 @@ export default function SettingsPage() {
 
   const handleSaveNotifications = async () => {
     setNotifStatus("saving");
-    setDiscordWebhook(effectiveDiscordWebhook);
     await saveSettingsToDB();
     setNotifStatus("saved");
     setTimeout(() => setNotifStatus("idle"), 2000);
@@ -84,11 +106,49 @@ export default function SettingsPage() {
     setActivityStatus("saving");
     setInactivityThreshold(effectiveInactivityThreshold);
     setRefreshInterval(effectiveRefreshInterval);
+    setTimezone(effectiveTimezone);
     await saveSettingsToDB();
     setActivityStatus("saved");
     setTimeout(() => setActivityStatus("idle"), 2000);
   };
 
+  const handleAddClub = async () => {
+    if (!newClubTag.trim()) return;
+    setClubStatus("adding");
+    setClubError(null);
+    try {
+      const response = await fetch("/api/clubs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clubTag: newClubTag, apiKey: effectiveApiKey || undefined }),
+      });
+      if (response.ok) {
+        setNewClubTag("");
+        await loadClubs();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setClubError(data.message || data.error || "Failed to add club");
+      }
+    } catch (error) {
+      console.error("Error adding club:", error);
+      setClubError("Failed to add club");
+    } finally {
+      setClubStatus("idle");
+    }
+  };
+
+  const handleRemoveClub = async (tag: string) => {
+    if (!confirm(`Stop tracking ${tag}? Stored history for this club is kept.`)) return;
+    try {
+      const response = await fetch(`/api/clubs?tag=${encodeURIComponent(tag)}`, { method: "DELETE" });
+      if (response.ok) {
+        await loadClubs();
+      }
+    } catch (error) {
+      console.error("Error removing club:", error);
+    }
+  };
+
   const handleClearData = () => {
     if (confirm("Are you sure you want to clear all local data? This cannot be undone.")) {
       localStorage.clear();
@@ -102,7 +162,7 @@ export default function SettingsPage() {
     if (confirm("Are you sure you want to reset join/leave tracking? All existing events will be cleared and tracking will start fresh from today.")) {
       setResetStatus("resetting");
       try {
-        const response = await fetch("/api/events", { method: "DELETE" });
+        const response = await fetch(withClubScope("/api/events", activeClubTag), { method: "DELETE" });
         if (response.ok) {
           setResetStatus("done");
           setTimeout(() => setResetStatus("idle"), 3000);
@@ -201,6 +261,66 @@ export default function SettingsPage() {
                     </Button>
                   </CardContent>
                 </Card>
+
+                <Card className="mt-4">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="h-5 w-5" />
+                      Clubs
+                    </CardTitle>
+                    <CardDescription>
+                      Every registered club is included in each sync
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {clubs.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        No clubs registered yet. The club tag above is added on the next sync.
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {clubs.map((club) => (
+                          <div
+                            key={club.club_tag}
+                            className="flex items-center justify-between p-3 rounded-lg border"
+                          >
+                            <div>
+                              <p className="font-medium">{club.club_name || club.club_tag}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {club.club_tag} &middot; {club.member_count} members
+                              </p>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRemoveClub(club.club_tag)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="#ABC123"
+                        value={newClubTag}
+                        onChange={(e) => setNewClubTag(e.target.value.toUpperCase())}
+                      />
+                      <Button
+                        onClick={handleAddClub}
+                        disabled={clubStatus === "adding" || !newClubTag.trim()}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        {clubStatus === "adding" ? "Adding..." : "Add Club"}
+                      </Button>
+                    </div>
+                    {clubError && (
+                      <p className="text-sm text-destructive">{clubError}</p>
+                    )}
+                  </CardContent>
+                </Card>
               </TabsContent>
 
               {/* Activity Settings */}
@@ -253,6 +373,25 @@ export default function SettingsPage() {
                       </p>
                     </div>
 
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">
+                        Club Timezone
+                      </label>
+                      <select
+                        value={effectiveTimezone}
+                        onChange={(e) => setLocalTimezone(e.target.value)}
+                        className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+                      >
+                        {(timezoneOptions.includes(effectiveTimezone) ? timezoneOptions : [effectiveTimezone, ...timezoneOptions]).map((tz) => (
+                          <option key={tz} value={tz}>{tz}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-muted-foreground">
+                        Where a day starts and ends for daily stats, streaks and reports.
+                        Stored battles are re-grouped into days on the next sync after a change.
+                      </p>
+                    </div>
+
                     <div className="p-4 rounded-lg bg-muted/50">
                       <h4 className="font-medium mb-2">Activity Detection</h4>
                       <ul className="text-sm text-muted-foreground space-y-1">
@@ -307,25 +446,16 @@ export default function SettingsPage() {
                       />
                     </div>
 
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Discord Webhook URL</label>
-                      <Input
-                        type="url"
-                        placeholder="https://discord.com/api/webhooks/..."
-                        value={effectiveDiscordWebhook}
-                        onChange={(e) => setLocalDiscordWebhook(e.target.value)}
-                      />
-                      <p className="text-xs text-muted-foreground">
-                        Optional: Send notifications to a Discord channel
-                      </p>
-                    </div>
-
                     <div className="p-4 rounded-lg bg-muted/50">
                       <h4 className="font-medium mb-2">Notification Events</h4>
                       <ul className="text-sm text-muted-foreground space-y-1">
                         <li>• Member joins the club</li>
                         <li>• Member leaves the club</li>
+                        <li>• Member transfers between your clubs</li>
                         <li>• Inactive members summary (once per day)</li>
+                        <li>• Name changes, promotions, demotions and ranked tier changes</li>
+                        <li>• Trophy, level and brawler rank milestones and new personal bests</li>
+                        <li>• Any custom rules below</li>
                       </ul>
                     </div>
 
@@ -346,6 +476,14 @@ export default function SettingsPage() {
                     </Button>
                   </CardContent>
                 </Card>
+
+                <NotificationChannels />
+
+                <MilestoneSettings />
+
+                <NotificationRules />
+
+                <EventWebhooks />
               </TabsContent>
 
               {/* Appearance Settings */}
@@ -410,7 +548,7 @@ export default function SettingsPage() {
                       <ul className="text-sm text-muted-foreground space-y-1">
                         <li>• Local settings stored in browser</li>
                         <li>• Member data synced to Supabase database</li>
-                        <li>• Activity logs retained for 30 days</li>
+                        <li>• Raw battle data kept as configured under Data Retention, then summarised monthly</li>
                       </ul>
                     </div>
 
@@ -465,6 +603,14 @@ export default function SettingsPage() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <div className="mt-4">
+                  <RetentionSettings />
+                </div>
+
+                <div className="mt-4">
+                  <SyncHistory />
+                </div>
               </TabsContent>
             </Tabs>
           </div>
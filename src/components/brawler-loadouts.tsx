@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import type { BrawlerLoadout, LoadoutItem } from "@/lib/loadouts";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Swords } from "lucide-react";
+
+export interface BrawlerBuild {
+  id: number;
+  name: string;
+  power: number;
+  trophies: number;
+  loadout: BrawlerLoadout | null;
+}
+
+interface BrawlerLoadoutsProps {
+  builds: BrawlerBuild[];
+}
+
+const ITEM_STYLES = {
+  gadgets: "bg-emerald-500/15 text-emerald-400",
+  starPowers: "bg-yellow-500/15 text-yellow-400",
+  gears: "bg-sky-500/15 text-sky-400",
+  hyperCharges: "bg-pink-500/15 text-pink-400",
+} as const;
+
+function ItemChips({ items, className }: { items: LoadoutItem[]; className: string }) {
+  return (
+    <>
+      {items.map((item) => (
+        <span key={item.id} className={`text-xs rounded px-1.5 py-0.5 ${className}`}>
+          {item.name}{item.level ? ` ${item.level}` : ""}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function BrawlerLoadouts({ builds }: BrawlerLoadoutsProps) {
+  const [search, setSearch] = useState("");
+
+  const query = search.trim().toLowerCase();
+  const visible = builds
+    .filter((b) => b.loadout)
+    .filter((b) => {
+      if (!query) return true;
+      const names = [
+        b.name,
+        ...b.loadout!.gadgets.map((i) => i.name),
+        ...b.loadout!.starPowers.map((i) => i.name),
+        ...b.loadout!.gears.map((i) => i.name),
+        ...b.loadout!.hyperCharges.map((i) => i.name),
+      ];
+      return names.some((name) => name.toLowerCase().includes(query));
+    })
+    .sort((a, b) => b.power - a.power || b.trophies - a.trophies);
+
+  if (builds.every((b) => !b.loadout)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Swords className="h-5 w-5" />
+          Brawler Builds
+        </CardTitle>
+        <CardDescription>
+          <span className="text-emerald-400">Gadgets</span>, <span className="text-yellow-400">star powers</span>,{" "}
+          <span className="text-sky-400">gears</span> and <span className="text-pink-400">hypercharges</span> owned
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          placeholder="Search brawler or item..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {visible.map((b) => (
+            <div key={b.id} className="flex flex-wrap items-center gap-1.5 border-b border-border/50 pb-2">
+              <span className="text-sm font-medium w-32 truncate">{b.name}</span>
+              <span className="text-xs text-muted-foreground w-12">P{b.power}</span>
+              <ItemChips items={b.loadout!.gadgets} className={ITEM_STYLES.gadgets} />
+              <ItemChips items={b.loadout!.starPowers} className={ITEM_STYLES.starPowers} />
+              <ItemChips items={b.loadout!.gears} className={ITEM_STYLES.gears} />
+              <ItemChips items={b.loadout!.hyperCharges} className={ITEM_STYLES.hyperCharges} />
+            </div>
+          ))}
+          {visible.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No brawlers match</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
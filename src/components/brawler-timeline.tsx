@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { BrawlerEvent } from "@/types/database";
+import type { ProgressionTotals } from "@/lib/brawler-events";
+import { formatDateTime } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Sparkles } from "lucide-react";
+
+interface BrawlerTimelineProps {
+  playerTag: string;
+}
+
+const INITIAL_VISIBLE = 15;
+
+function describeEvent(event: BrawlerEvent): { label: string; className: string } {
+  switch (event.event_type) {
+    case "unlock":
+      return { label: "Unlocked", className: "text-green-400" };
+    case "power_up":
+      return { label: `Power ${event.from_value} → ${event.to_value}`, className: "text-purple-400" };
+    case "gadget":
+      return { label: `Gadget ${event.item_name || `#${event.to_value}`}`, className: "text-emerald-400" };
+    case "star_power":
+      return { label: `Star Power ${event.item_name || `#${event.to_value}`}`, className: "text-yellow-400" };
+    case "gear":
+      return { label: `Gear ${event.item_name || `#${event.to_value}`}`, className: "text-sky-400" };
+    case "hypercharge":
+      return { label: `Hypercharge ${event.item_name || `#${event.to_value}`}`, className: "text-pink-400" };
+    case "rank":
+      return { label: `Rank ${event.from_value} → ${event.to_value}`, className: "text-orange-400" };
+    default:
+      return { label: event.event_type, className: "text-muted-foreground" };
+  }
+}
+
+export function BrawlerTimeline({ playerTag }: BrawlerTimelineProps) {
+  const [events, setEvents] = useState<BrawlerEvent[]>([]);
+  const [totals, setTotals] = useState<ProgressionTotals | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    const loadProgression = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/members/${encodeURIComponent(playerTag)}/progression`);
+        if (response.ok) {
+          const data = await response.json();
+          setEvents(data.events || []);
+          setTotals(data.totals || null);
+        }
+      } catch (error) {
+        console.error("Error loading brawler progression:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadProgression();
+  }, [playerTag]);
+
+  if (!isLoading && events.length === 0) return null;
+
+  const visible = showAll ? events : events.slice(0, INITIAL_VISIBLE);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Brawler Progression
+        </CardTitle>
+        {totals && (
+          <CardDescription>
+            {totals.unlocks} unlocks · {totals.powerUps} power levels · {totals.gadgets} gadgets ·{" "}
+            {totals.starPowers} star powers · {totals.gears} gears · {totals.hypercharges} hypercharges since
+            tracking started
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading && events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <div className="space-y-2">
+            {visible.map((event) => {
+              const { label, className } = describeEvent(event);
+              return (
+                <div key={event.id} className="flex items-center justify-between text-sm border-l-2 border-border pl-3">
+                  <div>
+                    <span className="font-medium">{event.brawler_name}</span>{" "}
+                    <span className={className}>{label}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">{formatDateTime(event.occurred_at)}</span>
+                </div>
+              );
+            })}
+            {events.length > INITIAL_VISIBLE && (
+              <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+                {showAll ? "Show less" : `Show all ${events.length}`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,9 +15,12 @@ import {
   Cell,
   Area,
   AreaChart,
+  ReferenceArea,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatNumber } from "@/lib/utils";
+import { RANK_THRESHOLDS } from "@/lib/ranked";
+import { DEFAULT_TIMEZONE, getZonedToday } from "@/lib/timezone";
 
 interface TrophyChartProps {
   data: { date: string; trophies: number }[];
@@ -374,19 +377,22 @@ export function MemberBarChart({ data }: MemberBarChartProps) {
 // Activity Calendar Component
 interface ActivityCalendarProps {
   battlesByDay: Record<string, number>;
+  timeZone?: string; // club timezone the battlesByDay keys are bucketed in
 }
 
-export function ActivityCalendar({ battlesByDay }: ActivityCalendarProps) {
-  // Generate calendar for current month
+export function ActivityCalendar({ battlesByDay, timeZone = DEFAULT_TIMEZONE }: ActivityCalendarProps) {
+  // Generate calendar for the current month in the club timezone
   const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth();
+  const today = getZonedToday(timeZone, now);
+  const currentYear = parseInt(today.slice(0, 4));
+  const currentMonth = parseInt(today.slice(5, 7)) - 1;
+  const currentDay = parseInt(today.slice(8, 10));
   
-  // Get first day of month and number of days
-  const firstDay = new Date(currentYear, currentMonth, 1);
-  const lastDay = new Date(currentYear, currentMonth + 1, 0);
-  const daysInMonth = lastDay.getDate();
-  const startingDay = firstDay.getDay(); // 0 = Sunday
+  // Get first day of month and number of days (UTC dates used as plain calendar dates)
+  const firstDay = new Date(Date.UTC(currentYear, currentMonth, 1));
+  const lastDay = new Date(Date.UTC(currentYear, currentMonth + 1, 0));
+  const daysInMonth = lastDay.getUTCDate();
+  const startingDay = firstDay.getUTCDay(); // 0 = Sunday
   
   // Calculate days until season reset (assumed every 2 weeks on Monday)
   const dayOfWeek = now.getDay();
@@ -405,7 +411,6 @@ export function ActivityCalendar({ battlesByDay }: ActivityCalendarProps) {
   };
 
   const weekDays = ["S", "M", "T", "W", "T", "F", "S"];
-  const monthName = now.toLocaleDateString("en-US", { month: "long", year: "numeric" });
 
   // Build calendar grid
   const calendarDays: (number | null)[] = [];
@@ -447,7 +452,7 @@ export function ActivityCalendar({ battlesByDay }: ActivityCalendarProps) {
             
             const dateKey = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
             const battles = battlesByDay[dateKey];
-            const isToday = day === now.getDate();
+            const isToday = day === currentDay;
             
             return (
               <div
@@ -761,3 +766,187 @@ export function EnhancedTrackingStats({
     </Card>
   );
 }
+
+// Ranked points over time, with the league tiers as background bands
+interface RankedPointsChartProps {
+  data: { current_points: number; current_rank: string | null; recorded_at: string }[];
+}
+
+const LEAGUE_COLORS: Record<string, string> = {
+  Bronze: "#b45309",
+  Silver: "#9ca3af",
+  Gold: "#eab308",
+  Diamond: "#38bdf8",
+  Mythic: "#a855f7",
+  Legendary: "#ef4444",
+  Masters: "#f59e0b",
+  Pro: "#22c55e",
+};
+
+export function RankedPointsChart({ data }: RankedPointsChartProps) {
+  const chartData = data.map((item) => ({
+    points: item.current_points,
+    rank: item.current_rank,
+    shortDate: new Date(item.recorded_at).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    }),
+  }));
+
+  const pointValues = data.map((item) => item.current_points);
+  const dataMin = pointValues.length > 0 ? Math.min(...pointValues) : 0;
+  const dataMax = pointValues.length > 0 ? Math.max(...pointValues) : 0;
+
+  // Snap the axis to the tiers around the data so every band shown is complete
+  const ascending = [...RANK_THRESHOLDS].reverse();
+  const tierBelow = [...ascending].reverse().find(([min]) => min <= dataMin) ?? ascending[0];
+  const tierAbove = ascending.find(([min]) => min > dataMax);
+  const minDomain = tierBelow[0];
+  const maxDomain = tierAbove ? tierAbove[0] : dataMax + 500;
+
+  const bands = ascending
+    .map(([min, name], index) => ({
+      name,
+      y1: min,
+      y2: ascending[index + 1]?.[0] ?? maxDomain,
+      color: LEAGUE_COLORS[name.split(" ")[0]] || "#6b7280",
+    }))
+    .filter((band) => band.y1 >= minDomain && band.y1 < maxDomain);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ranked Points</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData} margin={{ top: 10, right: 16, left: 8, bottom: 18 }}>
+            {bands.map((band, index) => (
+              <ReferenceArea
+                key={band.name}
+                y1={band.y1}
+                y2={band.y2}
+                fill={band.color}
+                fillOpacity={index % 2 === 0 ? 0.12 : 0.2}
+                stroke="none"
+                label={{ value: band.name, position: "insideLeft", fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+              />
+            ))}
+            <XAxis
+              dataKey="shortDate"
+              className="text-xs"
+              height={42}
+              tickMargin={12}
+              axisLine={false}
+              tickLine={false}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              className="text-xs"
+              domain={[minDomain, maxDomain]}
+              ticks={bands.map((band) => band.y1)}
+              width={60}
+              tickFormatter={(value) => formatNumber(Number(value))}
+              axisLine={false}
+              tickLine={false}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--card))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "8px",
+              }}
+              formatter={(value, _name, item) => [
+                `${formatNumber(Number(value))} (${item.payload.rank || "Unranked"})`,
+                "Points",
+              ]}
+              labelFormatter={(value) => `Date: ${value}`}
+            />
+            <Line
+              type="monotone"
+              dataKey="points"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2.5}
+              dot={{ r: 3 }}
+              activeDot={{ r: 5 }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ClubHistoryChartsProps {
+  data: { date: string; trophies: number; memberCount: number; requiredTrophies: number | null }[];
+}
+
+// Club trophies and member count over time (from club_snapshots)
+export function ClubHistoryCharts({ data }: ClubHistoryChartsProps) {
+  const chartData = data.map((item) => ({
+    ...item,
+    shortDate: new Date(`${item.date}T00:00:00`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    }),
+  }));
+
+  const tooltipStyle = {
+    backgroundColor: "hsl(var(--card))",
+    border: "1px solid hsl(var(--border))",
+    borderRadius: "8px",
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Club Trophies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={chartData} margin={{ top: 10, right: 16, left: 8, bottom: 18 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="shortDate" className="text-xs" axisLine={false} tickLine={false} interval="preserveStartEnd" />
+              <YAxis
+                className="text-xs"
+                domain={["auto", "auto"]}
+                width={80}
+                tickFormatter={(value) => formatNumber(Number(value))}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value) => [formatNumber(Number(value)), "Trophies"]}
+                labelFormatter={(value) => `Date: ${value}`}
+              />
+              <Line type="monotone" dataKey="trophies" stroke="hsl(var(--primary))" strokeWidth={2.5} dot={{ r: 3 }} activeDot={{ r: 5 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Member Count</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={250}>
+            <AreaChart data={chartData} margin={{ top: 10, right: 16, left: 8, bottom: 18 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="shortDate" className="text-xs" axisLine={false} tickLine={false} interval="preserveStartEnd" />
+              <YAxis className="text-xs" domain={[0, "auto"]} allowDecimals={false} width={40} axisLine={false} tickLine={false} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value) => [Number(value), "Members"]}
+                labelFormatter={(value) => `Date: ${value}`}
+              />
+              <Area type="stepAfter" dataKey="memberCount" stroke="#22c55e" fill="#22c55e" fillOpacity={0.2} strokeWidth={2} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
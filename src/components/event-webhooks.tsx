@@ -0,0 +1,320 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { WebhookDelivery, WebhookSubscription } from "@/types/database";
+import {
+  SIGNATURE_HEADER,
+  validateWebhookSubscription,
+  WEBHOOK_EVENTS,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "@/lib/webhook-events";
+import { cn, formatDateTime, formatRelativeTime } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Eye, EyeOff, Plus, RefreshCw, RotateCcw, Send, Trash2 } from "lucide-react";
+
+type SubscriptionDraft = Pick<WebhookSubscription, "name" | "url" | "events"> & { secret: string };
+
+const EMPTY_DRAFT: SubscriptionDraft = { name: "", url: "", events: ["join", "leave"], secret: "" };
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-amber-500/10 text-amber-500",
+  sending: "bg-blue-500/10 text-blue-500",
+  delivered: "bg-green-500/10 text-green-500",
+  failed: "bg-red-500/10 text-red-500",
+};
+
+export function EventWebhooks() {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [draft, setDraft] = useState<SubscriptionDraft>(EMPTY_DRAFT);
+  const [revealedSecrets, setRevealedSecrets] = useState<Set<number>>(new Set());
+  const [redelivering, setRedelivering] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubscriptions = async () => {
+    try {
+      const response = await fetch("/api/webhooks");
+      if (response.ok) {
+        const data = await response.json();
+        setSubscriptions(data.subscriptions || []);
+      }
+    } catch (error) {
+      console.error("Error loading webhook subscriptions:", error);
+    }
+  };
+
+  const loadDeliveries = async () => {
+    try {
+      const response = await fetch("/api/webhooks/deliveries?limit=50");
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries || []);
+      }
+    } catch (error) {
+      console.error("Error loading webhook deliveries:", error);
+    }
+  };
+
+  useEffect(() => {
+    Promise.all([loadSubscriptions(), loadDeliveries()]).finally(() => setIsLoading(false));
+  }, []);
+
+  const updateSubscription = async (subscription: WebhookSubscription, changes: Record<string, unknown>) => {
+    try {
+      const response = await fetch("/api/webhooks", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: subscription.id, ...changes }),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setSubscriptions((prev) => prev.map((s) => (s.id === subscription.id ? data.subscription : s)));
+      }
+    } catch (error) {
+      console.error("Error updating webhook subscription:", error);
+    }
+  };
+
+  const handleRotate = (subscription: WebhookSubscription) => {
+    if (!confirm(`Issue a new secret for "${subscription.name}"? The receiver must be updated to verify it.`)) return;
+    updateSubscription(subscription, { rotateSecret: true });
+    setRevealedSecrets((prev) => new Set(prev).add(subscription.id));
+  };
+
+  const handleCreate = async () => {
+    const subscription = { ...draft, secret: draft.secret.trim() || null };
+    const invalid = validateWebhookSubscription(subscription);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(subscription),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setDraft(EMPTY_DRAFT);
+        setSubscriptions((prev) => [...prev, data.subscription]);
+        // Show the secret once so it can be copied into the receiver
+        setRevealedSecrets((prev) => new Set(prev).add(data.subscription.id));
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to save webhook");
+      }
+    } catch (error) {
+      console.error("Error creating webhook subscription:", error);
+      setError("Failed to save webhook");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (subscription: WebhookSubscription) => {
+    if (!confirm(`Delete the webhook "${subscription.name}" and its delivery log?`)) return;
+    try {
+      await fetch(`/api/webhooks?id=${subscription.id}`, { method: "DELETE" });
+      setSubscriptions((prev) => prev.filter((s) => s.id !== subscription.id));
+      setDeliveries((prev) => prev.filter((d) => d.subscription_id !== subscription.id));
+    } catch (error) {
+      console.error("Error deleting webhook subscription:", error);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedelivering(delivery.id);
+    try {
+      const response = await fetch("/api/webhooks/deliveries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: delivery.id }),
+      });
+      if (response.ok) await loadDeliveries();
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setDraft((prev) => ({
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter((e) => e !== event) : [...prev.events, event],
+    }));
+  };
+
+  const toggleSecret = (id: number) => {
+    setRevealedSecrets((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const subscriptionName = (id: number) => subscriptions.find((s) => s.id === id)?.name || `#${id}`;
+  const eventLabel = (event: string) => WEBHOOK_EVENTS[event as WebhookEvent] || event;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Event Webhooks
+        </CardTitle>
+        <CardDescription>
+          Raw events as JSON for your own bots and pipelines. Each request carries an
+          {" "}<code>{SIGNATURE_HEADER}</code> header: <code>sha256=</code> plus the HMAC-SHA256 of the
+          body, keyed with the webhook&apos;s secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && subscriptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : subscriptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No webhooks yet</p>
+        ) : (
+          <div className="space-y-2">
+            {subscriptions.map((subscription) => (
+              <div key={subscription.id} className="p-3 rounded-lg bg-muted/50 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{subscription.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {subscription.url} · {subscription.events.map(eventLabel).join(", ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={subscription.enabled}
+                      onCheckedChange={(enabled) => updateSubscription(subscription, { enabled })}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(subscription)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="text-muted-foreground">Secret</span>
+                  <code className="truncate">
+                    {revealedSecrets.has(subscription.id) ? subscription.secret : "••••••••••••••••"}
+                  </code>
+                  <Button variant="ghost" size="sm" onClick={() => toggleSecret(subscription.id)}>
+                    {revealedSecrets.has(subscription.id) ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRotate(subscription)}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Rotate
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="font-medium">New Webhook</h4>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                placeholder="e.g. Club bot"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">URL</label>
+              <Input
+                placeholder="https://example.com/hooks/brawl"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <label className="text-sm font-medium">Secret</label>
+              <Input
+                type="password"
+                placeholder="Leave empty to generate one"
+                value={draft.secret}
+                onChange={(e) => setDraft({ ...draft, secret: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {(Object.entries(WEBHOOK_EVENTS) as Array<[WebhookEvent, string]>).map(([event, label]) => (
+              <label key={event} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button onClick={handleCreate} disabled={isSaving}>
+            <Plus className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Add Webhook"}
+          </Button>
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">Recent Deliveries</h4>
+            <Button variant="ghost" size="sm" onClick={loadDeliveries}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries yet</p>
+          ) : (
+            <div className="space-y-2">
+              {deliveries.map((delivery) => (
+                <div key={delivery.id} className="flex items-center justify-between gap-3 p-2 rounded-lg bg-muted/50 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      <span className={cn("px-1.5 py-0.5 rounded text-xs mr-2", STATUS_STYLES[delivery.status as WebhookDeliveryStatus])}>
+                        {delivery.status}
+                      </span>
+                      {eventLabel(delivery.event)} → {subscriptionName(delivery.subscription_id)}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      #{delivery.id}
+                      {delivery.redelivery_of && ` (resend of #${delivery.redelivery_of})`} · {formatRelativeTime(delivery.created_at)} ·{" "}
+                      {delivery.attempts} attempt(s)
+                      {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                      {delivery.status === "pending" && delivery.next_attempt_at && ` · retries after ${formatDateTime(delivery.next_attempt_at)}`}
+                      {delivery.last_error && ` · ${delivery.last_error}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRedeliver(delivery)}
+                    disabled={redelivering === delivery.id}
+                  >
+                    <Send className="h-3 w-3 mr-1" />
+                    {redelivering === delivery.id ? "Sending..." : "Redeliver"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,8 @@ import { ReactNode, createContext, useContext, useCallback, useEffect, useRef, u
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useAppStore } from "@/lib/store";
-import { cn, formatDateTime } from "@/lib/utils";
+import { runSync } from "@/lib/sync-client";
+import { cn, formatDateTime, withClubScope } from "@/lib/utils";
 import {
   LayoutDashboard,
   Users,
@@ -23,6 +24,10 @@ import {
   Pencil,
   UserMinus,
   UserPlus,
+  ArrowRightLeft,
+  TrendingUp,
+  TrendingDown,
+  Zap,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -57,13 +62,14 @@ export function useSidebarContext() {
 
 function SimpleSidebar() {
   const pathname = usePathname();
-  const { clubName, lastSyncTime, isSyncing, clubTag, apiKey, refreshInterval } = useAppStore();
+  const { clubName, lastSyncTime, isSyncing, clubTag, apiKey, refreshInterval, clubs, activeClubTag, setActiveClubTag } = useAppStore();
   const { isOpen, close } = useSidebarContext();
   const autoSyncIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Ensure settings (including lastSyncTime) are loaded from DB on any page
+  // Ensure settings (including lastSyncTime) and the club registry are loaded from DB on any page
   useEffect(() => {
     useAppStore.getState().loadSettingsFromDB();
+    useAppStore.getState().loadClubs();
   }, []);
 
   const handleSync = async (isAutoSync = false) => {
@@ -71,12 +77,8 @@ function SimpleSidebar() {
     
     try {
       useAppStore.getState().setIsSyncing(true);
-      const response = await fetch("/api/sync", { 
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ clubTag, apiKey }),
-      });
-      const data = await response.json();
+      // No clubTag: the sync covers every registered club
+      const { response, data } = await runSync({ apiKey });
       if (!response.ok) {
         console.error("Sync error:", data.error);
         if (!isAutoSync) {
@@ -92,18 +94,20 @@ function SimpleSidebar() {
           body: JSON.stringify({ last_sync_time: syncTime }),
         }).catch(() => {});
         // Check if there were any member changes (joins/leaves)
-        const hasChanges = data.changes?.joins?.length > 0 || data.changes?.leaves?.length > 0;
+        const joins = data.changes?.joins.length || 0;
+        const leaves = data.changes?.leaves.length || 0;
+        const transfers = data.changes?.transfers.length || 0;
+        const hasChanges = joins > 0 || leaves > 0 || transfers > 0;
         if (hasChanges) {
           // Dispatch custom event so all components can refresh their data
           window.dispatchEvent(new CustomEvent("club-data-updated", { detail: data.changes }));
           // Show browser notification if permitted
           if (Notification.permission === "granted") {
-            const joins = data.changes?.joins?.length || 0;
-            const leaves = data.changes?.leaves?.length || 0;
-            let message = "";
-            if (joins > 0) message += `${joins} member(s) joined`;
-            if (joins > 0 && leaves > 0) message += ", ";
-            if (leaves > 0) message += `${leaves} member(s) left`;
+            const parts: string[] = [];
+            if (joins > 0) parts.push(`${joins} member(s) joined`);
+            if (leaves > 0) parts.push(`${leaves} member(s) left`);
+            if (transfers > 0) parts.push(`${transfers} member(s) transferred`);
+            const message = parts.join(", ");
             new Notification("Club Update", { body: message, icon: "/favicon.ico" });
           }
         }
@@ -190,6 +194,28 @@ function SimpleSidebar() {
             </Button>
           </div>
 
+          {/* Club switcher (only shown when more than one club is registered) */}
+          {clubs.length > 1 && (
+            <div className="px-3 pt-4">
+              <label htmlFor="club-switcher" className="text-xs font-medium text-muted-foreground px-1">
+                Club
+              </label>
+              <select
+                id="club-switcher"
+                value={activeClubTag}
+                onChange={(e) => setActiveClubTag(e.target.value)}
+                className="mt-1 w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                <option value="">All clubs</option>
+                {clubs.map((club) => (
+                  <option key={club.club_tag} value={club.club_tag}>
+                    {club.club_name || club.club_tag} ({club.member_count})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Navigation */}
           <nav className="flex-1 px-3 py-4 space-y-1">
             {navigation.map((item) => {
@@ -253,7 +279,8 @@ interface NotificationItem {
 }
 
 function SimpleHeader() {
-  const { clubName, theme, setTheme } = useAppStore();
+  const { clubName, theme, setTheme, clubs, activeClubTag } = useAppStore();
+  const activeClub = clubs.find((c) => c.club_tag === activeClubTag);
   const { toggle } = useSidebarContext();
   const [notifications, setNotifications] = useState<NotificationItem[]>([]);
   const [showNotifications, setShowNotifications] = useState(false);
@@ -262,7 +289,7 @@ function SimpleHeader() {
 
   const loadNotifications = useCallback(async () => {
     try {
-      const response = await fetch("/api/notifications?limit=5");
+      const response = await fetch(withClubScope("/api/notifications?limit=5", activeClubTag));
       if (response.ok) {
         const data = await response.json();
         setNotifications(data.notifications || []);
@@ -271,7 +298,7 @@ function SimpleHeader() {
     } catch (error) {
       console.error("Error loading notifications:", error);
     }
-  }, []);
+  }, [activeClubTag]);
 
   useEffect(() => {
     const handleUpdate = () => loadNotifications();
@@ -320,7 +347,7 @@ function SimpleHeader() {
       await fetch("/api/notifications", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ all: true }),
+        body: JSON.stringify({ all: true, clubTag: activeClubTag || undefined }),
       });
       setNotifications((prev) => prev.map((n) => ({ ...n, is_read: true })));
       setUnreadCount(0);
@@ -337,12 +364,24 @@ function SimpleHeader() {
         return { icon: UserMinus, label: "Left", color: "text-red-500" };
       case "inactive":
         return { icon: Clock3, label: "Inactive", color: "text-amber-500" };
+      case "transfer":
+        return { icon: ArrowRightLeft, label: "Transferred", color: "text-blue-500" };
       case "promotion":
         return { icon: ChevronUp, label: "Promoted", color: "text-emerald-500" };
       case "demotion":
         return { icon: ChevronDown, label: "Demoted", color: "text-orange-500" };
       case "name_change":
         return { icon: Pencil, label: "Name changed", color: "text-cyan-500" };
+      case "rank_up":
+        return { icon: TrendingUp, label: "Ranked up", color: "text-violet-500" };
+      case "rank_down":
+        return { icon: TrendingDown, label: "Ranked down", color: "text-rose-500" };
+      case "club_settings":
+        return { icon: Settings, label: "Club settings", color: "text-violet-500" };
+      case "milestone":
+        return { icon: Trophy, label: "Milestone", color: "text-yellow-500" };
+      case "rule":
+        return { icon: Zap, label: "Rule", color: "text-cyan-500" };
       default:
         return { icon: Bell, label: type, color: "text-blue-500" };
     }
@@ -394,7 +433,7 @@ function SimpleHeader() {
           <PanelLeft className="h-5 w-5" />
           <span className="sr-only">Toggle Sidebar</span>
         </Button>
-        <h1 className="text-lg md:text-xl font-semibold truncate">{clubName || "Brawl Stars Club Manager"}</h1>
+        <h1 className="text-lg md:text-xl font-semibold truncate">{activeClub?.club_name || clubName || "Brawl Stars Club Manager"}</h1>
       </div>
       <div className="flex items-center gap-2">
         <Button
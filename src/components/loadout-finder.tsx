@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { LoadoutItemKind } from "@/lib/loadouts";
+import { useAppStore } from "@/lib/store";
+import { withClubScope } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Search } from "lucide-react";
+
+interface LoadoutOwner {
+  playerTag: string;
+  playerName: string;
+  brawlerName: string;
+  power: number;
+  kind: LoadoutItemKind;
+  itemName: string;
+}
+
+const KIND_LABELS: Record<LoadoutItemKind, string> = {
+  gadget: "Gadget",
+  star_power: "Star Power",
+  gear: "Gear",
+  hypercharge: "Hypercharge",
+};
+
+// Officers' lookup: who owns a given gadget / star power / gear / hypercharge
+export function LoadoutFinder() {
+  const [item, setItem] = useState("");
+  const [owners, setOwners] = useState<LoadoutOwner[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const { activeClubTag } = useAppStore();
+
+  const handleSearch = async () => {
+    if (!item.trim()) return;
+    setIsSearching(true);
+    try {
+      const response = await fetch(
+        withClubScope(`/api/loadouts?item=${encodeURIComponent(item.trim())}`, activeClubTag)
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setOwners(data.owners || []);
+      }
+    } catch (error) {
+      console.error("Error searching loadouts:", error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Loadout Finder</CardTitle>
+        <CardDescription>Find members who own a gadget, star power, gear or hypercharge</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Item name, e.g. Spiky Bonsai"
+            value={item}
+            onChange={(e) => setItem(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          />
+          <Button onClick={handleSearch} disabled={isSearching || !item.trim()}>
+            <Search className="h-4 w-4 mr-2" />
+            {isSearching ? "Searching..." : "Search"}
+          </Button>
+        </div>
+        {owners && (
+          owners.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No current member owns a matching item</p>
+          ) : (
+            <div className="space-y-1">
+              {owners.map((o) => (
+                <div key={`${o.playerTag}-${o.brawlerName}-${o.itemName}`} className="flex items-center justify-between text-sm">
+                  <Link href={`/members/${encodeURIComponent(o.playerTag)}`} className="font-medium hover:underline">
+                    {o.playerName}
+                  </Link>
+                  <span className="text-muted-foreground">
+                    {o.brawlerName} P{o.power} · {KIND_LABELS[o.kind]} {o.itemName}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
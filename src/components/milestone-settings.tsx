@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MILESTONE_LADDER_KEY, MilestoneLadder, parseMilestoneLadder } from "@/lib/milestones";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Save, Trophy } from "lucide-react";
+
+type LadderListField = "trophies" | "expLevels" | "brawlerRanks";
+
+const LIST_FIELDS: Array<{ field: LadderListField; label: string; hint: string }> = [
+  { field: "trophies", label: "Trophy milestones", hint: "Highest trophies, e.g. 50000, 75000, 100000" },
+  { field: "expLevels", label: "Account level milestones", hint: "e.g. 100, 150, 200" },
+  { field: "brawlerRanks", label: "Brawler rank milestones", hint: "e.g. 30, 35" },
+];
+
+const toText = (steps: number[]) => steps.join(", ");
+const toSteps = (text: string) => text.split(/[\s,]+/).filter(Boolean).map(Number);
+
+export function MilestoneSettings() {
+  const [ladder, setLadder] = useState<MilestoneLadder>(parseMilestoneLadder(null));
+  const [lists, setLists] = useState<Record<LadderListField, string>>({
+    trophies: toText(ladder.trophies),
+    expLevels: toText(ladder.expLevels),
+    brawlerRanks: toText(ladder.brawlerRanks),
+  });
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+
+  const applyLadder = (next: MilestoneLadder) => {
+    setLadder(next);
+    setLists({
+      trophies: toText(next.trophies),
+      expLevels: toText(next.expLevels),
+      brawlerRanks: toText(next.brawlerRanks),
+    });
+  };
+
+  useEffect(() => {
+    const loadLadder = async () => {
+      try {
+        const response = await fetch("/api/settings");
+        if (response.ok) {
+          const settings = await response.json();
+          applyLadder(parseMilestoneLadder(settings[MILESTONE_LADDER_KEY]));
+        }
+      } catch (error) {
+        console.error("Error loading milestone ladder:", error);
+      }
+    };
+    loadLadder();
+  }, []);
+
+  const handleSave = async () => {
+    setStatus("saving");
+    // Round-trip through the parser so what is saved is exactly what the sync will use
+    const next = parseMilestoneLadder(JSON.stringify({
+      trophies: toSteps(lists.trophies),
+      expLevels: toSteps(lists.expLevels),
+      brawlerRanks: toSteps(lists.brawlerRanks),
+      personalBestStep: ladder.personalBestStep,
+    }));
+    try {
+      const response = await fetch("/api/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [MILESTONE_LADDER_KEY]: JSON.stringify(next) }),
+      });
+      setStatus(response.ok ? "saved" : "error");
+      if (response.ok) applyLadder(next);
+    } catch (error) {
+      console.error("Error saving milestone ladder:", error);
+      setStatus("error");
+    }
+    setTimeout(() => setStatus("idle"), 2000);
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Milestones
+        </CardTitle>
+        <CardDescription>
+          Announced in the notification panel and on routed channels, once per player
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {LIST_FIELDS.map(({ field, label, hint }) => (
+          <div key={field} className="space-y-1">
+            <label className="text-sm font-medium">{label}</label>
+            <Input
+              value={lists[field]}
+              onChange={(e) => setLists((prev) => ({ ...prev, [field]: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">{hint}</p>
+          </div>
+        ))}
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Personal best step</label>
+          <Input
+            type="number"
+            min="0"
+            value={ladder.personalBestStep}
+            onChange={(e) => setLadder((prev) => ({ ...prev, personalBestStep: parseInt(e.target.value) || 0 }))}
+          />
+          <p className="text-xs text-muted-foreground">
+            Announce a new highest trophies each time it passes a multiple of this (0 turns it off)
+          </p>
+        </div>
+
+        <Button onClick={handleSave} disabled={status === "saving"}>
+          {status === "saving" ? (
+            "Saving..."
+          ) : status === "saved" ? (
+            <>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Saved!
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save Milestones
+            </>
+          )}
+        </Button>
+        {status === "error" && (
+          <p className="text-sm text-destructive">Failed to save milestones</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
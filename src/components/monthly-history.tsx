@@ -0,0 +1,65 @@
+"use client";
+
+import type { MonthlyHistoryEntry } from "@/lib/retention";
+import { formatNumber } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarRange } from "lucide-react";
+
+interface MonthlyHistoryProps {
+  months: MonthlyHistoryEntry[];
+}
+
+function formatMonth(month: string) {
+  return new Date(`${month}T00:00:00`).toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
+
+export function MonthlyHistory({ months }: MonthlyHistoryProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5" />
+          Monthly History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              <TableHead className="text-right">Battles</TableHead>
+              <TableHead className="text-right">Win Rate</TableHead>
+              <TableHead className="text-right">Net Trophies</TableHead>
+              <TableHead className="text-right">Active Days</TableHead>
+              <TableHead>Most Played</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {months.map((m) => {
+              const decided = m.wins + m.losses;
+              const net = m.trophies_gained - m.trophies_lost;
+              const topBrawler = m.brawlers[0];
+              return (
+                <TableRow key={m.month}>
+                  <TableCell className="font-medium">{formatMonth(m.month)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(m.battles)}</TableCell>
+                  <TableCell className="text-right">
+                    {decided > 0 ? `${Math.round((m.wins / decided) * 100)}%` : "-"}
+                  </TableCell>
+                  <TableCell className={`text-right ${net >= 0 ? "text-green-500" : "text-red-500"}`}>
+                    {net >= 0 ? "+" : ""}{formatNumber(net)}
+                  </TableCell>
+                  <TableCell className="text-right">{m.active_days}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {topBrawler ? `${topBrawler.brawler_name} (${topBrawler.battles})` : "-"}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { NotificationChannelRecord } from "@/types/database";
+import { CHANNEL_KINDS, ChannelConfig, ChannelKind, validateChannel } from "@/lib/channel-kinds";
+import { NOTIFICATION_TYPES, NotificationType } from "@/lib/notification-types";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2, Webhook } from "lucide-react";
+
+type RoutedChannel = NotificationChannelRecord & { types: NotificationType[] };
+
+interface ChannelDraft {
+  kind: ChannelKind;
+  name: string;
+  config: ChannelConfig;
+}
+
+const EMPTY_DRAFT: ChannelDraft = { kind: "discord", name: "", config: {} };
+
+export function NotificationChannels() {
+  const [channels, setChannels] = useState<RoutedChannel[]>([]);
+  const [draft, setDraft] = useState<ChannelDraft>(EMPTY_DRAFT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChannels = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/notifications/channels");
+      if (response.ok) {
+        const data = await response.json();
+        setChannels(data.channels || []);
+      }
+    } catch (error) {
+      console.error("Error loading notification channels:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadChannels();
+  }, []);
+
+  const updateChannel = async (channel: RoutedChannel, changes: Partial<RoutedChannel>) => {
+    setChannels((prev) => prev.map((c) => (c.id === channel.id ? { ...c, ...changes } : c)));
+    try {
+      const response = await fetch("/api/notifications/channels", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: channel.id, ...changes }),
+      });
+      if (!response.ok) await loadChannels();
+    } catch (error) {
+      console.error("Error updating notification channel:", error);
+      await loadChannels();
+    }
+  };
+
+  const toggleRoute = (channel: RoutedChannel, type: NotificationType) => {
+    updateChannel(channel, {
+      types: channel.types.includes(type) ? channel.types.filter((t) => t !== type) : [...channel.types, type],
+    });
+  };
+
+  const handleCreate = async () => {
+    const invalid = validateChannel(draft);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/notifications/channels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      if (response.ok) {
+        setDraft(EMPTY_DRAFT);
+        await loadChannels();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to save channel");
+      }
+    } catch (error) {
+      console.error("Error creating notification channel:", error);
+      setError("Failed to save channel");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (channel: RoutedChannel) => {
+    if (!confirm(`Delete the channel "${channel.name}"?`)) return;
+    try {
+      await fetch(`/api/notifications/channels?id=${channel.id}`, { method: "DELETE" });
+      setChannels((prev) => prev.filter((c) => c.id !== channel.id));
+    } catch (error) {
+      console.error("Error deleting notification channel:", error);
+    }
+  };
+
+  const kindLabel = (kind: string) => CHANNEL_KINDS[kind as ChannelKind]?.label || kind;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Notification Channels
+        </CardTitle>
+        <CardDescription>
+          Discord, Slack, Telegram or any JSON webhook. Route each notification type to as many
+          channels as you like.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && channels.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No channels yet</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {channels.map((channel) => (
+                <div key={channel.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/50">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{channel.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {kindLabel(channel.kind)} · {channel.types.length} type(s)
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={channel.enabled}
+                      onCheckedChange={(enabled) => updateChannel(channel, { enabled })}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(channel)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left font-medium py-2 pr-4">Notification</th>
+                    {channels.map((channel) => (
+                      <th key={channel.id} className="font-medium py-2 px-2 text-center whitespace-nowrap">
+                        {channel.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.entries(NOTIFICATION_TYPES) as Array<[NotificationType, string]>).map(([type, label]) => (
+                    <tr key={type} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{label}</td>
+                      {channels.map((channel) => (
+                        <td key={channel.id} className="py-2 px-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={channel.types.includes(type)}
+                            onChange={() => toggleRoute(channel, type)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="font-medium">New Channel</h4>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Kind</label>
+              <select
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as ChannelKind, config: {} })}
+                className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+              >
+                {(Object.entries(CHANNEL_KINDS) as Array<[ChannelKind, { label: string }]>).map(([kind, meta]) => (
+                  <option key={kind} value={kind}>{meta.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                placeholder="e.g. #officers"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            {CHANNEL_KINDS[draft.kind].fields.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-sm font-medium">
+                  {field.label}
+                  {field.optional && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                </label>
+                <Input
+                  type={field.secret ? "password" : "text"}
+                  placeholder={field.placeholder}
+                  value={draft.config[field.key] ?? ""}
+                  onChange={(e) => setDraft({ ...draft, config: { ...draft.config, [field.key]: e.target.value } })}
+                />
+              </div>
+            ))}
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button onClick={handleCreate} disabled={isSaving}>
+            <Plus className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Add Channel"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { NotificationRule } from "@/types/database";
+import {
+  RANK_TIERS,
+  RULE_CHANNELS,
+  RULE_CONDITIONS,
+  RuleChannel,
+  RuleCondition,
+  validateRule,
+} from "@/lib/notification-rules";
+import { useAppStore } from "@/lib/store";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2, Zap } from "lucide-react";
+
+type RuleDraft = Pick<NotificationRule, "name" | "condition" | "threshold" | "rank_tier" | "club_tag" | "channels" | "cooldown_hours">;
+
+const CHANNEL_LABELS: Record<RuleChannel, string> = {
+  panel: "Notification panel",
+  external: "Routed channels",
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  condition: "trophies_above",
+  threshold: null,
+  rank_tier: null,
+  club_tag: null,
+  channels: ["panel"],
+  cooldown_hours: 24,
+};
+
+function describeRule(rule: NotificationRule): string {
+  const meta = RULE_CONDITIONS[rule.condition as RuleCondition];
+  if (!meta) return rule.condition;
+  if (meta.needsTier) return `${meta.label}: ${rule.rank_tier}`;
+  if (meta.thresholdLabel) return `${meta.label}: ${rule.threshold} ${meta.thresholdLabel.toLowerCase()}`;
+  return meta.label;
+}
+
+export function NotificationRules() {
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { clubs } = useAppStore();
+
+  const loadRules = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/notifications/rules");
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules || []);
+      }
+    } catch (error) {
+      console.error("Error loading notification rules:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const meta = RULE_CONDITIONS[draft.condition as RuleCondition];
+  const clubLabel = (tag: string | null) =>
+    tag ? clubs.find((c) => c.club_tag === tag)?.club_name || tag : "All clubs";
+
+  const handleCreate = async () => {
+    const rule = {
+      ...draft,
+      threshold: meta.thresholdLabel ? draft.threshold : null,
+      rank_tier: meta.needsTier ? draft.rank_tier : null,
+    };
+    const invalid = validateRule(rule);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/notifications/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(rule),
+      });
+      if (response.ok) {
+        setDraft(EMPTY_DRAFT);
+        await loadRules();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to save rule");
+      }
+    } catch (error) {
+      console.error("Error creating notification rule:", error);
+      setError("Failed to save rule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: NotificationRule, enabled: boolean) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled } : r)));
+    try {
+      await fetch("/api/notifications/rules", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: rule.id, enabled }),
+      });
+    } catch (error) {
+      console.error("Error updating notification rule:", error);
+      await loadRules();
+    }
+  };
+
+  const handleDelete = async (rule: NotificationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    try {
+      await fetch(`/api/notifications/rules?id=${rule.id}`, { method: "DELETE" });
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (error) {
+      console.error("Error deleting notification rule:", error);
+    }
+  };
+
+  const toggleChannel = (channel: RuleChannel) => {
+    setDraft((prev) => ({
+      ...prev,
+      channels: prev.channels.includes(channel)
+        ? prev.channels.filter((c) => c !== channel)
+        : [...prev.channels, channel],
+    }));
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5" />
+          Notification Rules
+        </CardTitle>
+        <CardDescription>
+          Custom alerts checked after every sync. A rule fires when a member starts matching it,
+          at most once per cooldown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rules yet</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/50">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeRule(rule)} · {clubLabel(rule.club_tag)} ·{" "}
+                    {rule.channels.map((c) => CHANNEL_LABELS[c as RuleChannel] || c).join(", ")} · {rule.cooldown_hours}h cooldown
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => handleToggle(rule, enabled)} />
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="font-medium">New Rule</h4>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                placeholder="e.g. Pushed past 50k"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Condition</label>
+              <select
+                value={draft.condition}
+                onChange={(e) => setDraft({ ...draft, condition: e.target.value })}
+                className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+              >
+                {Object.entries(RULE_CONDITIONS).map(([value, condition]) => (
+                  <option key={value} value={value}>{condition.label}</option>
+                ))}
+              </select>
+            </div>
+            {meta.thresholdLabel && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium">{meta.thresholdLabel}</label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={draft.threshold ?? ""}
+                  onChange={(e) => setDraft({ ...draft, threshold: parseInt(e.target.value) || null })}
+                />
+              </div>
+            )}
+            {meta.needsTier && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Tier</label>
+                <select
+                  value={draft.rank_tier ?? ""}
+                  onChange={(e) => setDraft({ ...draft, rank_tier: e.target.value || null })}
+                  className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+                >
+                  <option value="">Pick a tier</option>
+                  {RANK_TIERS.map((tier) => (
+                    <option key={tier} value={tier}>{tier}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Club</label>
+              <select
+                value={draft.club_tag ?? ""}
+                onChange={(e) => setDraft({ ...draft, club_tag: e.target.value || null })}
+                className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+              >
+                <option value="">All clubs</option>
+                {clubs.map((club) => (
+                  <option key={club.club_tag} value={club.club_tag}>{club.club_name || club.club_tag}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Cooldown (hours)</label>
+              <Input
+                type="number"
+                min="0"
+                value={draft.cooldown_hours}
+                onChange={(e) => setDraft({ ...draft, cooldown_hours: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {RULE_CHANNELS.map((channel) => (
+              <label key={channel} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.channels.includes(channel)}
+                  onChange={() => toggleChannel(channel)}
+                />
+                {CHANNEL_LABELS[channel]}
+              </label>
+            ))}
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button onClick={handleCreate} disabled={isSaving}>
+            <Plus className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Add Rule"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
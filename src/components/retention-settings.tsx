@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDate } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Archive, CheckCircle, Save } from "lucide-react";
+
+interface RetentionTable {
+  table: string;
+  label: string;
+  days: number;
+  defaultDays: number;
+  rolledUp: boolean;
+}
+
+export function RetentionSettings() {
+  const [tables, setTables] = useState<RetentionTable[]>([]);
+  const [rollups, setRollups] = useState<Record<string, string | null>>({});
+  const [days, setDays] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+
+  const loadRetention = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/retention");
+      if (response.ok) {
+        const data = await response.json();
+        setTables(data.tables || []);
+        setRollups(data.rollups || {});
+        setDays(Object.fromEntries((data.tables || []).map((t: RetentionTable) => [t.table, t.days])));
+      }
+    } catch (error) {
+      console.error("Error loading retention settings:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRetention();
+  }, []);
+
+  const handleSave = async () => {
+    setStatus("saving");
+    try {
+      const response = await fetch("/api/retention", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days }),
+      });
+      setStatus(response.ok ? "saved" : "error");
+      if (response.ok) await loadRetention();
+    } catch (error) {
+      console.error("Error saving retention settings:", error);
+      setStatus("error");
+    }
+    setTimeout(() => setStatus("idle"), 2000);
+  };
+
+  const rolledUpThrough = rollups.monthly_stats || rollups.monthly_brawler_stats;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Data Retention
+        </CardTitle>
+        <CardDescription>
+          How many days of raw data to keep. Battles and daily stats are summarised into
+          monthly totals before they are removed, so all-time stats keep working.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && tables.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {tables.map((t) => (
+              <div key={t.table} className="space-y-1">
+                <label className="text-sm font-medium">
+                  {t.label} (days)
+                  {t.rolledUp && <span className="text-muted-foreground font-normal"> · kept monthly</span>}
+                </label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={days[t.table] ?? t.days}
+                  onChange={(e) =>
+                    setDays((prev) => ({ ...prev, [t.table]: parseInt(e.target.value) || t.defaultDays }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {rolledUpThrough && (
+          <p className="text-xs text-muted-foreground">
+            Monthly totals cover everything before {formatDate(rolledUpThrough)}
+          </p>
+        )}
+
+        <Button onClick={handleSave} disabled={status === "saving" || tables.length === 0}>
+          {status === "saving" ? (
+            "Saving..."
+          ) : status === "saved" ? (
+            <>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Saved!
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save Retention
+            </>
+          )}
+        </Button>
+        {status === "error" && (
+          <p className="text-sm text-destructive">Failed to save retention settings</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import type { RolePeriod } from "@/types/database";
+import { formatDate, formatDuration, normalizeRole } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Shield } from "lucide-react";
+
+interface RoleHistoryProps {
+  periods: RolePeriod[];
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  member: "Member",
+  senior: "Senior",
+  vicepresident: "Vice President",
+  president: "President",
+};
+
+export function getRoleLabel(role: string): string {
+  return ROLE_LABELS[normalizeRole(role)] || role;
+}
+
+export function getPeriodLength(period: RolePeriod, now = Date.now()): number {
+  const end = period.ended_at ? new Date(period.ended_at).getTime() : now;
+  return end - new Date(period.started_at).getTime();
+}
+
+export function RoleHistory({ periods }: RoleHistoryProps) {
+  if (periods.length === 0) return null;
+
+  const current = periods.find((p) => !p.ended_at);
+  const showClub = new Set(periods.map((p) => p.club_tag)).size > 1;
+
+  // Total time per role across all periods
+  const totals = new Map<string, number>();
+  for (const period of periods) {
+    const label = getRoleLabel(period.role);
+    totals.set(label, (totals.get(label) || 0) + getPeriodLength(period));
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Role History
+        </CardTitle>
+        <CardDescription>
+          {current
+            ? `${getRoleLabel(current.role)} for ${formatDuration(getPeriodLength(current))}`
+            : "Not currently in a tracked club"}
+          {" · "}
+          {[...totals.entries()].map(([label, ms]) => `${label} ${formatDuration(ms)}`).join(" · ")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {periods.map((period) => (
+            <div key={period.id} className="flex items-center justify-between text-sm border-l-2 border-border pl-3">
+              <div className="flex items-center gap-2">
+                <Badge variant={period.ended_at ? "outline" : "default"}>{getRoleLabel(period.role)}</Badge>
+                {showClub && <span className="text-xs text-muted-foreground">{period.club_tag}</span>}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {formatDate(period.started_at)} – {period.ended_at ? formatDate(period.ended_at) : "now"} ·{" "}
+                {formatDuration(getPeriodLength(period))}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useAppStore } from "@/lib/store";
+import { runSync } from "@/lib/sync-client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -64,11 +65,8 @@ export function SetupWizard({ onComplete }: SetupWizardProps) {
     try {
       // Trigger initial sync with credentials
       const state = useAppStore.getState();
-      await fetch("/api/sync", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ clubTag: state.clubTag, apiKey: state.apiKey, initialSetup: true }),
-      });
+      // Setup must sync its own club, so wait for any running sync rather than attach to it
+      await runSync({ clubTag: state.clubTag, apiKey: state.apiKey, initialSetup: true, onBusy: "wait" });
       onComplete();
     } catch (err) {
       console.error(err);
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SyncRun, SyncRunFailure } from "@/types/database";
+import type { ClockSkewReading } from "@/lib/clock-skew";
+import { formatDateTime } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { History, RefreshCw, ChevronDown, ChevronRight } from "lucide-react";
+
+type SyncRunWithFailures = SyncRun & { failures: SyncRunFailure[] };
+
+const TRIGGER_LABELS: Record<string, string> = {
+  cron: "Scheduled",
+  manual: "Manual",
+  setup: "Setup",
+};
+
+function formatDuration(run: SyncRun): string {
+  if (!run.finished_at) return "-";
+  const seconds = Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// One line per data source whose battle times needed attention during the run
+function describeClockSkew(run: SyncRun): string[] {
+  const readings = (run.clock_skew || {}) as unknown as Record<string, ClockSkewReading>;
+  return Object.entries(readings)
+    .filter(([, r]) => r.offsetMs > 0 || r.suspectBattles > 0 || r.correctedRows > 0 || r.flaggedRows > 0)
+    .map(([source, r]) => {
+      const parts = [`${source}: battle times ${r.offsetMs > 0 ? `${r.offsetMs / 3600000}h ahead, corrected` : "not shifted"}`];
+      if (r.suspectBattles > 0) parts.push(`${r.suspectBattles} flagged as suspect`);
+      if (r.correctedRows > 0) parts.push(`${r.correctedRows} stored battles re-corrected`);
+      if (r.flaggedRows > 0) parts.push(`${r.flaggedRows} stored battles flagged`);
+      return parts.join(", ");
+    });
+}
+
+export function SyncHistory() {
+  const [runs, setRuns] = useState<SyncRunWithFailures[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+
+  const loadRuns = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/sync/runs?limit=20");
+      if (response.ok) {
+        const data = await response.json();
+        setRuns(data.runs || []);
+      }
+    } catch (error) {
+      console.error("Error loading sync runs:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "completed":
+        return <Badge variant="success">Completed</Badge>;
+      case "failed":
+        return <Badge variant="destructive">Failed</Badge>;
+      default:
+        return <Badge variant="warning">Running</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Sync History
+            </CardTitle>
+            <CardDescription>
+              Recent syncs, API usage and members whose stats could not be fetched
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadRuns} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No syncs recorded yet</p>
+        ) : (
+          <div className="space-y-2">
+            {runs.map((run) => {
+              const isExpanded = expandedRunId === run.id;
+              const clockSkewNotes = describeClockSkew(run);
+              const hasDetails = run.failures.length > 0 || !!run.error || clockSkewNotes.length > 0;
+              return (
+                <div key={run.id} className="rounded-lg border">
+                  <button
+                    className="w-full flex flex-wrap items-center gap-x-4 gap-y-1 p-3 text-left text-sm disabled:cursor-default"
+                    onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                    disabled={!hasDetails}
+                  >
+                    <span className="w-4">
+                      {hasDetails && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                    </span>
+                    <span className="font-medium">{formatDateTime(run.started_at)}</span>
+                    <span className="text-muted-foreground">{TRIGGER_LABELS[run.trigger] || run.trigger}</span>
+                    {getStatusBadge(run.status)}
+                    <span className="text-muted-foreground">
+                      {run.members_synced} synced
+                      {run.members_skipped > 0 && (
+                        <span className="text-destructive">, {run.members_skipped} skipped</span>
+                      )}
+                    </span>
+                    <span className="text-muted-foreground ml-auto">
+                      {run.official_api_calls} API / {run.rnt_api_calls} RNT
+                      {run.rate_limit_retries > 0 && ` · ${run.rate_limit_retries} × 429`}
+                      {" · "}
+                      {formatDuration(run)}
+                    </span>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="border-t p-3 space-y-2 text-sm">
+                      {run.error && (
+                        <p className="text-destructive">{run.error}</p>
+                      )}
+                      {clockSkewNotes.map((note) => (
+                        <p key={note} className="text-muted-foreground">{note}</p>
+                      ))}
+                      {run.failures.map((failure) => (
+                        <div key={failure.id} className="flex flex-col sm:flex-row sm:gap-2">
+                          <span className="font-medium shrink-0">
+                            {failure.player_name || failure.player_tag}{" "}
+                            <span className="text-muted-foreground font-normal">{failure.player_tag}</span>
+                          </span>
+                          <span className="text-muted-foreground break-words">{failure.error}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,23 +1,95 @@
+import { AsyncLocalStorage } from "async_hooks";
 import axios from "axios";
 import { encodeTag } from "./utils";
+import { createRateLimiter, parseRetryAfter, RateLimiterMetrics } from "./rate-limiter";
+import { CacheReadOptions, readThrough } from "./response-cache";
+import { formatLeagueRankFromPoints } from "./ranked";
+import { addDays, daysBetween, DEFAULT_TIMEZONE, getZonedToday, toZonedDate } from "./timezone";
 
+export { formatLeagueRankFromPoints };
+
+// Where club, player, battle log and ranked data come from. The HTTP sources live
+// here; the fixture source (replaying JSON from disk) is in fixture-data-source.ts
+// and data-source.ts picks one from config.
+export type BrawlDataSourceKind = "official" | "proxy" | "fixture";
+
+export interface PlayerRankedData {
+  currentRank: string;
+  highestRank: string;
+  currentPoints: number;
+  highestPoints: number;
+}
+
+export interface BrawlDataSource {
+  readonly kind: BrawlDataSourceKind;
+  getClub(clubTag: string): Promise<BrawlStarsClub>;
+  getPlayer(playerTag: string): Promise<BrawlStarsPlayer>;
+  getPlayerBattleLog(playerTag: string): Promise<BrawlStarsBattleLog>;
+  getPlayerRankedData(playerTag: string): Promise<PlayerRankedData>;
+}
+
+// The official API only answers from IPs whitelisted on the key
+const OFFICIAL_API_BASE = "https://api.brawlstars.com/v1";
 // Use RoyaleAPI proxy to bypass IP restrictions
 // Docs: https://docs.royaleapi.com/proxy.html
 // Whitelist IP: 45.79.218.79
-const BRAWL_API_BASE = "https://bsproxy.royaleapi.dev/v1";
-
-// Create axios instance with default config
-const brawlApi = axios.create({
-  baseURL: BRAWL_API_BASE,
-  proxy: false,
-  headers: {
-    Accept: "application/json",
-  },
+const PROXY_API_BASE = "https://bsproxy.royaleapi.dev/v1";
+
+let activeDataSource: BrawlDataSource | null = null;
+
+// Route the module-level API functions below through this source
+export function setDataSource(source: BrawlDataSource) {
+  activeDataSource = source;
+}
+
+function getDataSource(): BrawlDataSource {
+  if (!activeDataSource) {
+    throw new Error("No Brawl Stars data source configured");
+  }
+  return activeDataSource;
+}
+
+// Request counters for the sync run ledger. Each sync invocation counts into its own
+// object; calls made outside countApiCalls (member refreshes, dry runs) aren't counted.
+export interface ApiCallStats {
+  officialCalls: number;
+  rntCalls: number;
+  rateLimitRetries: number;
+}
+
+const apiCallScope = new AsyncLocalStorage<ApiCallStats>();
+
+export function createApiCallStats(): ApiCallStats {
+  return { officialCalls: 0, rntCalls: 0, rateLimitRetries: 0 };
+}
+
+// Count the requests made while fn runs (and everything it awaits) into stats
+export function countApiCalls<T>(stats: ApiCallStats, fn: () => Promise<T>): Promise<T> {
+  return apiCallScope.run(stats, fn);
+}
+
+function recordApiCall(counter: keyof ApiCallStats) {
+  const stats = apiCallScope.getStore();
+  if (stats) stats[counter]++;
+}
+
+// One limiter per upstream, shared by sync and on-demand member refreshes.
+// The official API allows ~10 req/sec per key (the proxy forwards to it with our key).
+const officialApiLimiter = createRateLimiter("brawl-stars", {
+  requestsPerSecond: parseFloat(process.env.BRAWL_API_RPS || "") || 8,
+});
+const rntApiLimiter = createRateLimiter("rnt", {
+  requestsPerSecond: parseFloat(process.env.RNT_API_RPS || "") || 5,
 });
 
-// Add API key to requests
-export function setApiKey(apiKey: string) {
-  brawlApi.defaults.headers.common["Authorization"] = `Bearer ${apiKey}`;
+export function getRateLimiterMetrics(): RateLimiterMetrics[] {
+  return [officialApiLimiter.getMetrics(), rntApiLimiter.getMetrics()];
+}
+
+// Fallback wait after a 429 without Retry-After: 1s, then 2s, ...
+function getRateLimitWaitMs(error: unknown, attempt: number): number {
+  const retryAfter = axios.isAxiosError(error) ? parseRetryAfter(error.response?.headers?.["retry-after"]) : null;
+  return retryAfter ?? 1000 * (attempt + 1);
 }
 
 export interface BrawlStarsClub {
@@ -76,6 +148,7 @@ export interface BrawlStarsBrawler {
   gears: { id: number; name: string; level: number }[];
   starPowers: { id: number; name: string }[];
   gadgets: { id: number; name: string }[];
+  hyperCharges?: { id: number; name: string }[];
 }
 
 export interface BrawlStarsBattleLog {
@@ -130,7 +203,7 @@ export interface BrawlStarsBattle {
 }
 
 // Helper to handle API errors with detailed logging
-function handleApiError(error: unknown, endpoint: string): never {
+function handleApiError(error: unknown, endpoint: string, kind: BrawlDataSourceKind): never {
   if (axios.isAxiosError(error)) {
     const status = error.response?.status;
     const responseData = error.response?.data;
@@ -147,9 +220,12 @@ function handleApiError(error: unknown, endpoint: string): never {
       } : "No headers"
     });
     
-    if (status === 403) {
+    if (status === 403 && kind === "proxy") {
       throw new Error(`API 403 Forbidden: ${reason}. This usually means the API key is invalid or not authorized for the RoyaleAPI proxy IP (45.79.218.79). Please generate a new key at https://developer.brawlstars.com with IP: 45.79.218.79`);
     }
+    if (status === 403) {
+      throw new Error(`API 403 Forbidden: ${reason}. This usually means the API key is invalid or not authorized for this server's IP address. Please generate a new key at https://developer.brawlstars.com`);
+    }
     if (status === 404) {
       throw new Error(`API 404 Not Found: The requested resource was not found. Check if the tag is correct.`);
     }
@@ -160,17 +236,23 @@ function handleApiError(error: unknown, endpoint: string): never {
   throw error;
 }
 
-// Wrapper that auto-retries on 429 rate limit
+// Wrapper that goes through the rate limiter and auto-retries on 429
 async function apiCallWithRetry<T>(fn: () => Promise<T>, label: string, maxRetries = 2): Promise<T> {
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
+      await officialApiLimiter.acquire();
+      recordApiCall("officialCalls");
       return await fn();
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 429 && attempt < maxRetries) {
-        const waitMs = 1000 * (attempt + 1); // 1s, then 2s
-        console.warn(`Rate limited on ${label}, retrying in ${waitMs}ms (attempt ${attempt + 1}/${maxRetries})`);
-        await new Promise((resolve) => setTimeout(resolve, waitMs));
-        continue;
+      if (axios.isAxiosError(error) && error.response?.status === 429) {
+        const waitMs = getRateLimitWaitMs(error, attempt);
+        // The limiter holds back every other request until the wait is over
+        officialApiLimiter.pauseFor(waitMs);
+        if (attempt < maxRetries) {
+          recordApiCall("rateLimitRetries");
+          console.warn(`Rate limited on ${label}, retrying in ${waitMs}ms (attempt ${attempt + 1}/${maxRetries})`);
+          continue;
+        }
       }
       throw error;
     }
@@ -178,38 +260,51 @@ async function apiCallWithRetry<T>(fn: () => Promise<T>, label: string, maxRetri
   throw new Error(`Unreachable`);
 }
 
-// API Functions
-export async function getClub(clubTag: string): Promise<BrawlStarsClub> {
-  try {
-    return await apiCallWithRetry(
-      () => brawlApi.get(`/clubs/${encodeTag(clubTag)}`).then(r => r.data),
-      `getClub(${clubTag})`
-    );
-  } catch (error) {
-    handleApiError(error, `getClub(${clubTag})`);
+// Official API or RoyaleAPI proxy: same endpoints, different base URL.
+// Ranked data isn't in the official API, both fetch it from RNT.
+export function createHttpDataSource(kind: "official" | "proxy", apiKey: string): BrawlDataSource {
+  const http = axios.create({
+    baseURL: kind === "official" ? OFFICIAL_API_BASE : PROXY_API_BASE,
+    proxy: false,
+    headers: {
+      Accept: "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+  });
+
+  async function get<T>(path: string, label: string): Promise<T> {
+    try {
+      return await apiCallWithRetry(() => http.get(path).then(r => r.data), label);
+    } catch (error) {
+      handleApiError(error, label, kind);
+    }
   }
+
+  return {
+    kind,
+    getClub: (clubTag) => get(`/clubs/${encodeTag(clubTag)}`, `getClub(${clubTag})`),
+    getPlayer: (playerTag) => get(`/players/${encodeTag(playerTag)}`, `getPlayer(${playerTag})`),
+    getPlayerBattleLog: (playerTag) =>
+      get(`/players/${encodeTag(playerTag)}/battlelog`, `getPlayerBattleLog(${playerTag})`),
+    getPlayerRankedData: fetchRntRankedData,
+  };
 }
 
-export async function getPlayer(playerTag: string): Promise<BrawlStarsPlayer> {
-  try {
-    return await apiCallWithRetry(
-      () => brawlApi.get(`/players/${encodeTag(playerTag)}`).then(r => r.data),
-      `getPlayer(${playerTag})`
-    );
-  } catch (error) {
-    handleApiError(error, `getPlayer(${playerTag})`);
-  }
+// API Functions (read through the response cache; pass { refresh: true } for fresh data)
+export async function getClub(clubTag: string, options?: CacheReadOptions): Promise<BrawlStarsClub> {
+  return readThrough("club", clubTag, () => getDataSource().getClub(clubTag), options);
 }
 
-export async function getPlayerBattleLog(playerTag: string): Promise<BrawlStarsBattleLog> {
-  try {
-    return await apiCallWithRetry(
-      () => brawlApi.get(`/players/${encodeTag(playerTag)}/battlelog`).then(r => r.data),
-      `getPlayerBattleLog(${playerTag})`
-    );
-  } catch (error) {
-    handleApiError(error, `getPlayerBattleLog(${playerTag})`);
-  }
+export async function getPlayer(playerTag: string, options?: CacheReadOptions): Promise<BrawlStarsPlayer> {
+  return readThrough("player", playerTag, () => getDataSource().getPlayer(playerTag), options);
+}
+
+export async function getPlayerBattleLog(playerTag: string, options?: CacheReadOptions): Promise<BrawlStarsBattleLog> {
+  return readThrough("battlelog", playerTag, () => getDataSource().getPlayerBattleLog(playerTag), options);
+}
+
+export async function getPlayerRankedData(playerTag: string, options?: CacheReadOptions): Promise<PlayerRankedData> {
+  return readThrough("ranked", playerTag, () => getDataSource().getPlayerRankedData(playerTag), options);
 }
 
 // RNT API for ranked data
@@ -226,57 +321,15 @@ export interface RntPlayerResponse {
   };
 }
 
-// Official Brawl Stars Ranked ELO thresholds
-// Each entry: [minPoints, rankName]
-const RANK_THRESHOLDS: [number, string][] = [
-  [11250, "Pro"],
-  [10250, "Masters III"],
-  [9250, "Masters II"],
-  [8250, "Masters I"],
-  [7500, "Legendary III"],
-  [6750, "Legendary II"],
-  [6000, "Legendary I"],
-  [5500, "Mythic III"],
-  [5000, "Mythic II"],
-  [4500, "Mythic I"],
-  [4000, "Diamond III"],
-  [3500, "Diamond II"],
-  [3000, "Diamond I"],
-  [2500, "Gold III"],
-  [2000, "Gold II"],
-  [1500, "Gold I"],
-  [1250, "Silver III"],
-  [1000, "Silver II"],
-  [750, "Silver I"],
-  [500, "Bronze III"],
-  [250, "Bronze II"],
-  [0, "Bronze I"],
-];
-
-export function formatLeagueRankFromPoints(points: number): string {
-  if (points < 0) return "Unranked";
-  
-  for (const [minPoints, rankName] of RANK_THRESHOLDS) {
-    if (points >= minPoints) {
-      return rankName;
-    }
-  }
-  
-  return "Unranked";
-}
-
 // Fetch real ranked data from RNT API (with retry)
-export async function getPlayerRankedData(playerTag: string): Promise<{
-  currentRank: string;
-  highestRank: string;
-  currentPoints: number;
-  highestPoints: number;
-}> {
+async function fetchRntRankedData(playerTag: string): Promise<PlayerRankedData> {
   const MAX_RETRIES = 1;
   const cleanTag = playerTag.replace('#', '');
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
     try {
+      await rntApiLimiter.acquire();
+      recordApiCall("rntCalls");
       const response = await axios.get(`${RNT_API_URL}/profile?tag=${cleanTag}`, {
         timeout: 4000,
         proxy: false,
@@ -306,8 +359,11 @@ export async function getPlayerRankedData(playerTag: string): Promise<{
         highestPoints,
       };
     } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 429) {
+        rntApiLimiter.pauseFor(getRateLimitWaitMs(error, attempt));
+      }
       if (attempt < MAX_RETRIES) {
-        // Wait briefly before retrying
+        // Wait briefly before retrying (on 429 the limiter waits for Retry-After)
         await new Promise((resolve) => setTimeout(resolve, 300));
         continue;
       }
@@ -438,8 +494,8 @@ function parseBattleTime(bt: string): string {
   return `${year}-${month}-${day}T${hour}:${min}:${sec}.000Z`;
 }
 
-// Get detailed battle statistics
-export async function getPlayerBattleStats(playerTag: string): Promise<{
+// Get detailed battle statistics (days bucketed in the club timezone)
+export async function getPlayerBattleStats(playerTag: string, timeZone = DEFAULT_TIMEZONE): Promise<{
   battles: number;
   wins: number;
   losses: number;
@@ -475,7 +531,7 @@ export async function getPlayerBattleStats(playerTag: string): Promise<{
       
       // Track active days
       const battleDate = parseBattleTime(battle.battleTime);
-      const dateKey = battleDate.slice(0, 10); // YYYY-MM-DD
+      const dateKey = toZonedDate(battleDate, timeZone); // YYYY-MM-DD, club-local
       stats.activeDays.add(dateKey);
       stats.battlesByDay.set(dateKey, (stats.battlesByDay.get(dateKey) || 0) + 1);
 
@@ -700,13 +756,16 @@ export interface EnhancedTrackingStats {
 
 export function calculateEnhancedStats(
   dailyStats: { date: string; battles: number; wins: number; losses: number; star_player: number; trophies_gained: number; trophies_lost: number }[],
-  tracking: { power_ups: number; unlocks: number; tracking_started: string } | null
+  tracking: { power_ups: number; unlocks: number; tracking_started: string } | null,
+  timeZone = DEFAULT_TIMEZONE
 ): EnhancedTrackingStats {
   const now = new Date();
-  const twentyEightDaysAgo = new Date(now.getTime() - 28 * 24 * 60 * 60 * 1000);
+  // Days are club-local, like the daily_stats rows
+  const today = getZonedToday(timeZone, now);
+  const twentyEightDaysAgo = addDays(today, -28);
   
   // Filter to last 28 days
-  const recentStats = dailyStats.filter(s => new Date(s.date) >= twentyEightDaysAgo);
+  const recentStats = dailyStats.filter(s => s.date >= twentyEightDaysAgo);
   
   // Calculate totals
   let totalBattles = 0;
@@ -743,37 +802,31 @@ export function calculateEnhancedStats(
   const sortedDates = Array.from(activeDates).sort((a, b) => b.localeCompare(a));
   
   // Calculate current streak (consecutive days from today)
-  const today = now.toISOString().slice(0, 10);
-  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const yesterday = addDays(today, -1);
   
   if (activeDates.has(today)) {
     currentStreak = 1;
-    const checkDate = new Date(now);
-    checkDate.setDate(checkDate.getDate() - 1);
+    let checkDate = addDays(today, -1);
     
-    while (activeDates.has(checkDate.toISOString().slice(0, 10))) {
+    while (activeDates.has(checkDate)) {
       currentStreak++;
-      checkDate.setDate(checkDate.getDate() - 1);
+      checkDate = addDays(checkDate, -1);
     }
   } else if (activeDates.has(yesterday)) {
     // If not played today but played yesterday, count from yesterday
     currentStreak = 1;
-    const checkDate = new Date(now);
-    checkDate.setDate(checkDate.getDate() - 2);
+    let checkDate = addDays(today, -2);
     
-    while (activeDates.has(checkDate.toISOString().slice(0, 10))) {
+    while (activeDates.has(checkDate)) {
       currentStreak++;
-      checkDate.setDate(checkDate.getDate() - 1);
+      checkDate = addDays(checkDate, -1);
     }
   }
 
   // Calculate best streak
   for (let i = 0; i < sortedDates.length; i++) {
-    const currentDate = new Date(sortedDates[i]);
-    const prevDate = i > 0 ? new Date(sortedDates[i - 1]) : null;
-    
-    if (prevDate) {
-      const diffDays = Math.round((prevDate.getTime() - currentDate.getTime()) / (24 * 60 * 60 * 1000));
+    if (i > 0) {
+      const diffDays = daysBetween(sortedDates[i], sortedDates[i - 1]);
       if (diffDays === 1) {
         tempStreak++;
       } else {
@@ -812,5 +865,3 @@ export function calculateEnhancedStats(
     trackedDays: Math.max(trackedDays, 1),
   };
 }
-
-export { brawlApi };
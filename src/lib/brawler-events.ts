@@ -0,0 +1,284 @@
+import { supabase } from "./supabase";
+import { getSnapshotLoadout, LoadoutItem } from "./loadouts";
+import type { BrawlerEvent, BrawlerSnapshot } from "@/types/database";
+
+// brawler_events is an append-only ledger of brawler progression, built by diffing a
+// player's brawlers against their previous snapshot: unlocks, power level-ups,
+// gadget / star power / gear / hypercharge acquisitions and rank changes. Snapshots
+// age out with retention; the ledger is kept, so cumulative totals are summed from it.
+
+export type BrawlerEventType = "unlock" | "power_up" | "gadget" | "star_power" | "gear" | "hypercharge" | "rank";
+
+export type BrawlerState = Pick<
+  BrawlerSnapshot,
+  | "player_tag" | "brawler_id" | "brawler_name" | "power_level" | "rank"
+  | "gadgets_count" | "star_powers_count" | "gears_count"
+  | "gadgets" | "star_powers" | "gears" | "hypercharges"
+>;
+
+const SNAPSHOT_COLUMNS =
+  "player_tag, brawler_id, brawler_name, power_level, rank, gadgets_count, star_powers_count, gears_count, gadgets, star_powers, gears, hypercharges";
+
+type BrawlerEventInsert = Omit<BrawlerEvent, "id" | "recorded_at">;
+
+export interface ProgressionTotals {
+  unlocks: number;
+  powerUps: number;
+  gadgets: number;
+  starPowers: number;
+  gears: number;
+  hypercharges: number;
+  rankUps: number;
+}
+
+const BACKFILL_PAGE_SIZE = 1000;
+
+// Counters that only ever grow, and the event each increase becomes
+const COUNTED_ITEMS: Array<{ field: "gadgets_count" | "star_powers_count" | "gears_count"; type: BrawlerEventType }> = [
+  { field: "gadgets_count", type: "gadget" },
+  { field: "star_powers_count", type: "star_power" },
+  { field: "gears_count", type: "gear" },
+];
+
+// Names of items the newer list has and the older one doesn't
+function addedItemNames(before: LoadoutItem[], after: LoadoutItem[]): string | null {
+  const owned = new Set(before.map((item) => item.id));
+  const names = after.filter((item) => !owned.has(item.id)).map((item) => item.name);
+  return names.length > 0 ? names.join(", ") : null;
+}
+
+// Events between two snapshots of one player's brawlers. Without a previous snapshot
+// there is nothing to compare against, so the first one only sets the baseline.
+export function diffBrawlerSnapshots(
+  previous: BrawlerState[],
+  current: BrawlerState[],
+  occurredAt: string
+): BrawlerEventInsert[] {
+  if (previous.length === 0) return [];
+
+  const previousById = new Map(previous.map((b) => [b.brawler_id, b]));
+  const events: BrawlerEventInsert[] = [];
+  const event = (b: BrawlerState, type: BrawlerEventType, from: number | null, to: number, itemName: string | null = null) => {
+    events.push({
+      player_tag: b.player_tag,
+      brawler_id: b.brawler_id,
+      brawler_name: b.brawler_name,
+      event_type: type,
+      from_value: from,
+      to_value: to,
+      item_name: itemName,
+      occurred_at: occurredAt,
+    });
+  };
+
+  for (const brawler of current) {
+    const before = previousById.get(brawler.brawler_id);
+    if (!before) {
+      event(brawler, "unlock", null, brawler.power_level);
+      continue;
+    }
+    if (brawler.power_level > before.power_level) {
+      event(brawler, "power_up", before.power_level, brawler.power_level);
+    }
+    // Item names are only known when both snapshots recorded the loadout
+    const loadoutBefore = getSnapshotLoadout(before);
+    const loadoutAfter = getSnapshotLoadout(brawler);
+    const itemLists = loadoutBefore && loadoutAfter
+      ? {
+          gadget: [loadoutBefore.gadgets, loadoutAfter.gadgets],
+          star_power: [loadoutBefore.starPowers, loadoutAfter.starPowers],
+          gear: [loadoutBefore.gears, loadoutAfter.gears],
+        } as Record<string, [LoadoutItem[], LoadoutItem[]]>
+      : null;
+    for (const { field, type } of COUNTED_ITEMS) {
+      if ((brawler[field] || 0) > (before[field] || 0)) {
+        const lists = itemLists?.[type];
+        event(brawler, type, before[field] || 0, brawler[field] || 0, lists ? addedItemNames(lists[0], lists[1]) : null);
+      }
+    }
+    if (loadoutBefore && loadoutAfter && loadoutAfter.hyperCharges.length > loadoutBefore.hyperCharges.length) {
+      event(
+        brawler,
+        "hypercharge",
+        loadoutBefore.hyperCharges.length,
+        loadoutAfter.hyperCharges.length,
+        addedItemNames(loadoutBefore.hyperCharges, loadoutAfter.hyperCharges)
+      );
+    }
+    if ((brawler.rank || 0) !== (before.rank || 0)) {
+      event(brawler, "rank", before.rank, brawler.rank);
+    }
+  }
+
+  return events;
+}
+
+// Each player's most recent stored snapshot (all brawlers from that day)
+export async function getLatestBrawlerSnapshots(playerTags: string[]): Promise<Map<string, BrawlerState[]>> {
+  const latest = new Map<string, BrawlerState[]>();
+  if (playerTags.length === 0) return latest;
+
+  const { data: rows, error } = await supabase
+    .rpc("latest_brawler_snapshots", { p_player_tags: playerTags })
+    .select(SNAPSHOT_COLUMNS);
+  if (error) throw error;
+
+  for (const row of (rows || []) as BrawlerState[]) {
+    if (!latest.has(row.player_tag)) latest.set(row.player_tag, []);
+    latest.get(row.player_tag)!.push(row);
+  }
+  return latest;
+}
+
+function eventKey(event: Pick<BrawlerEventInsert, "player_tag" | "brawler_id" | "event_type">) {
+  return `${event.player_tag}|${event.brawler_id}|${event.event_type}`;
+}
+
+// Append events, skipping any that repeats the last one recorded for the same brawler and
+// event type (a retried slice sees the same change again). A real repeat, like a rank
+// going 20 -> 21 -> 20 -> 21, always has the opposite change recorded in between.
+export async function recordBrawlerEvents(events: BrawlerEventInsert[]): Promise<void> {
+  if (events.length === 0) return;
+
+  // Newest first, so the first row seen per key is its last event
+  const { data: recorded, error: recordedError } = await supabase
+    .from("brawler_events")
+    .select("player_tag, brawler_id, event_type, from_value, to_value")
+    .in("player_tag", [...new Set(events.map((e) => e.player_tag))])
+    .in("brawler_id", [...new Set(events.map((e) => e.brawler_id))])
+    .in("event_type", [...new Set(events.map((e) => e.event_type))])
+    .order("id", { ascending: false });
+  if (recordedError) throw recordedError;
+
+  const lastEvents = new Map<string, Pick<BrawlerEvent, "from_value" | "to_value">>();
+  for (const row of recorded || []) {
+    if (!lastEvents.has(eventKey(row))) lastEvents.set(eventKey(row), row);
+  }
+
+  const newEvents = events.filter((event) => {
+    const last = lastEvents.get(eventKey(event));
+    if (last && last.from_value === event.from_value && last.to_value === event.to_value) return false;
+    lastEvents.set(eventKey(event), event);
+    return true;
+  });
+  if (newEvents.length === 0) return;
+
+  const { error } = await supabase.from("brawler_events").insert(newEvents);
+  if (error) throw error;
+}
+
+// Build the ledger from snapshots stored before it existed, a few players per call.
+// brawler_events_backfill_cursor holds the last player done ("done" when finished).
+export async function backfillBrawlerEvents(maxPlayers = 10): Promise<void> {
+  const { data: cursorSetting } = await supabase
+    .from("settings")
+    .select("value")
+    .eq("key", "brawler_events_backfill_cursor")
+    .maybeSingle();
+  if (cursorSetting?.value === "done") return;
+
+  let membersQuery = supabase
+    .from("members")
+    .select("player_tag")
+    .order("player_tag", { ascending: true })
+    .limit(maxPlayers);
+  if (cursorSetting?.value) membersQuery = membersQuery.gt("player_tag", cursorSetting.value);
+  const { data: players, error } = await membersQuery;
+  if (error) throw error;
+
+  let recorded = 0;
+  for (const { player_tag: playerTag } of players || []) {
+    // Days the sync already diffed live are in the ledger; only replay the ones before
+    const { data: firstEvent, error: firstEventError } = await supabase
+      .from("brawler_events")
+      .select("occurred_at")
+      .eq("player_tag", playerTag)
+      .order("occurred_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (firstEventError) throw firstEventError;
+    const ledgerStartDay = firstEvent?.occurred_at.slice(0, 10) ?? null;
+
+    const rows: Array<BrawlerState & { recorded_at: string }> = [];
+    for (let offset = 0; ; offset += BACKFILL_PAGE_SIZE) {
+      const { data, error: pageError } = await supabase
+        .from("brawler_snapshots")
+        .select(`${SNAPSHOT_COLUMNS}, recorded_at`)
+        .eq("player_tag", playerTag)
+        .order("recorded_at", { ascending: true })
+        .order("brawler_id", { ascending: true })
+        .range(offset, offset + BACKFILL_PAGE_SIZE - 1);
+      if (pageError) throw pageError;
+      rows.push(...(data || []));
+      if (!data || data.length < BACKFILL_PAGE_SIZE) break;
+    }
+
+    // One snapshot per day; compare each day with the one before it
+    const byDay = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const day = row.recorded_at.slice(0, 10);
+      if (!byDay.has(day)) byDay.set(day, []);
+      byDay.get(day)!.push(row);
+    }
+    const days = [...byDay.values()];
+    const events: BrawlerEventInsert[] = [];
+    for (let i = 1; i < days.length; i++) {
+      if (ledgerStartDay && days[i][0].recorded_at.slice(0, 10) >= ledgerStartDay) break;
+      events.push(...diffBrawlerSnapshots(days[i - 1], days[i], days[i][0].recorded_at));
+    }
+    await recordBrawlerEvents(events);
+    recorded += events.length;
+  }
+
+  const done = !players || players.length < maxPlayers;
+  const last = players && players.length > 0 ? players[players.length - 1].player_tag : cursorSetting?.value || "";
+  await supabase.from("settings").upsert({
+    key: "brawler_events_backfill_cursor",
+    value: done ? "done" : last,
+  }, { onConflict: "key" });
+  if (recorded > 0) console.log(`Backfilled ${recorded} brawler events${done ? " (complete)" : ""}`);
+}
+
+// A player's ledger, newest first
+export async function getBrawlerEvents(playerTag: string, limit = 200): Promise<BrawlerEvent[]> {
+  const { data, error } = await supabase
+    .from("brawler_events")
+    .select("*")
+    .eq("player_tag", playerTag)
+    .order("occurred_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data || [];
+}
+
+// Cumulative totals over the whole ledger
+export async function getProgressionTotals(playerTag: string): Promise<ProgressionTotals> {
+  const totals: ProgressionTotals = { unlocks: 0, powerUps: 0, gadgets: 0, starPowers: 0, gears: 0, hypercharges: 0, rankUps: 0 };
+
+  for (let offset = 0; ; offset += BACKFILL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("brawler_events")
+      .select("event_type, from_value, to_value")
+      .eq("player_tag", playerTag)
+      .order("id", { ascending: true })
+      .range(offset, offset + BACKFILL_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const e of data || []) {
+      const gained = e.to_value - (e.from_value || 0);
+      switch (e.event_type as BrawlerEventType) {
+        case "unlock": totals.unlocks++; break;
+        case "power_up": totals.powerUps += gained; break;
+        case "gadget": totals.gadgets += gained; break;
+        case "star_power": totals.starPowers += gained; break;
+        case "gear": totals.gears += gained; break;
+        case "hypercharge": totals.hypercharges += gained; break;
+        case "rank": if (gained > 0) totals.rankUps += gained; break;
+      }
+    }
+    if (!data || data.length < BACKFILL_PAGE_SIZE) break;
+  }
+
+  return totals;
+}
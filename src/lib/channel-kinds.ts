@@ -0,0 +1,116 @@
+// The kinds of notification channel and the configuration each one needs. Shared by the
+// delivery adapters and the settings page.
+
+import { isNotificationType } from "./notification-types";
+import type { Json } from "@/types/database";
+
+export type ChannelKind = "discord" | "slack" | "telegram" | "webhook";
+
+export type ChannelConfig = Record<string, string>;
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder: string;
+  optional?: boolean;
+  secret?: boolean;
+  pattern?: RegExp;
+  invalid?: string;
+}
+
+const HTTP_URL = /^https?:\/\/\S+$/;
+
+export const CHANNEL_KINDS: Record<ChannelKind, { label: string; fields: ChannelField[] }> = {
+  discord: {
+    label: "Discord",
+    fields: [
+      {
+        key: "url",
+        label: "Webhook URL",
+        placeholder: "https://discord.com/api/webhooks/...",
+        secret: true,
+        pattern: /^https:\/\/(ptb\.|canary\.)?discord(app)?\.com\/api\/webhooks\//,
+        invalid: "Webhook URL must be a Discord webhook (https://discord.com/api/webhooks/...)",
+      },
+      { key: "username", label: "Username", placeholder: "Brawl Club Manager", optional: true },
+      { key: "avatar_url", label: "Avatar URL", placeholder: "https://...", optional: true, pattern: HTTP_URL, invalid: "Avatar must be an http(s) URL" },
+    ],
+  },
+  slack: {
+    label: "Slack",
+    fields: [
+      {
+        key: "url",
+        label: "Incoming webhook URL",
+        placeholder: "https://hooks.slack.com/services/...",
+        secret: true,
+        pattern: /^https:\/\/hooks\.slack\.com\//,
+        invalid: "Webhook URL must be a Slack incoming webhook (https://hooks.slack.com/...)",
+      },
+    ],
+  },
+  telegram: {
+    label: "Telegram",
+    fields: [
+      {
+        key: "bot_token",
+        label: "Bot token",
+        placeholder: "123456789:AA...",
+        secret: true,
+        pattern: /^\d+:[\w-]+$/,
+        invalid: "Bot token looks like 123456789:AA... (from @BotFather)",
+      },
+      {
+        key: "chat_id",
+        label: "Chat ID",
+        placeholder: "-1001234567890 or @channel",
+        pattern: /^(-?\d+|@\w+)$/,
+        invalid: "Chat ID is a number (groups start with -) or an @channel name",
+      },
+    ],
+  },
+  webhook: {
+    label: "Generic webhook",
+    fields: [
+      { key: "url", label: "URL", placeholder: "https://example.com/hooks/brawl", secret: true, pattern: HTTP_URL, invalid: "URL must be http(s)" },
+    ],
+  },
+};
+
+export function isChannelKind(value: unknown): value is ChannelKind {
+  return typeof value === "string" && value in CHANNEL_KINDS;
+}
+
+// Stored config (JSONB) as trimmed strings, dropping anything else
+export function parseChannelConfig(value: Json | undefined): ChannelConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const config: ChannelConfig = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (typeof field === "string" && field.trim()) config[key] = field.trim();
+  }
+  return config;
+}
+
+// Why a channel can't be saved, or null when it is complete
+export function validateChannel(channel: {
+  kind?: string | null;
+  name?: string | null;
+  config?: Json;
+  types?: unknown;
+}): string | null {
+  if (!channel.name?.trim()) return "Name is required";
+  if (!isChannelKind(channel.kind)) return "Unknown channel kind";
+  const config = parseChannelConfig(channel.config);
+  for (const field of CHANNEL_KINDS[channel.kind].fields) {
+    const value = config[field.key];
+    if (!value) {
+      if (!field.optional) return `${field.label} is required`;
+    } else if (field.pattern && !field.pattern.test(value)) {
+      return field.invalid || `${field.label} is invalid`;
+    }
+  }
+  if (channel.types !== undefined && !(Array.isArray(channel.types) && channel.types.every(isNotificationType))) {
+    return "Unknown notification type";
+  }
+  return null;
+}
@@ -0,0 +1,160 @@
+import { supabase } from "./supabase";
+import { storeMatches } from "./matches";
+
+// Battle timestamps are supposed to be UTC, but a data source can stamp local time
+// with a Z suffix, which puts recent battles hours in the future. The offset is
+// detected per source from battle logs (newest battle vs the server clock when the
+// log was fetched) and only trusted when several logs agree, so a single bad
+// timestamp can't shift anyone else's history. Battles that are still in the future
+// after the correction are stored unchanged and flagged as time_suspect.
+
+export const CLOCK_SKEW_TOLERANCE_MS = 60 * 1000;
+
+// Logs that must show a battle in the future before an offset is applied
+const MIN_SKEW_SAMPLES = 2;
+// Offsets are whole hours (timezone mix-ups), rounded up from the observed lead
+const SKEW_STEP_MS = 60 * 60 * 1000;
+// Stored battles younger than this are checked by recorrectStoredBattles
+const RECORRECT_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+// One fetched battle log: when it was fetched and its newest battle (as reported)
+export interface BattleLogSample {
+  fetchedAt: number;
+  newestBattleAt: number;
+}
+
+// What a sync run saw for one source (stored in sync_runs.clock_skew, keyed by source)
+export interface ClockSkewReading {
+  offsetMs: number;
+  samples: number;
+  futureSamples: number;
+  suspectBattles: number;
+  correctedRows: number;
+  flaggedRows: number;
+}
+
+export function createClockSkewReading(): ClockSkewReading {
+  return { offsetMs: 0, samples: 0, futureSamples: 0, suspectBattles: 0, correctedRows: 0, flaggedRows: 0 };
+}
+
+// Add a slice's (or invocation's) reading to the run's; the largest offset wins
+export function mergeClockSkew(a: ClockSkewReading | undefined, b: ClockSkewReading): ClockSkewReading {
+  const base = a || createClockSkewReading();
+  return {
+    offsetMs: Math.max(base.offsetMs, b.offsetMs),
+    samples: base.samples + b.samples,
+    futureSamples: base.futureSamples + b.futureSamples,
+    suspectBattles: base.suspectBattles + b.suspectBattles,
+    correctedRows: base.correctedRows + b.correctedRows,
+    flaggedRows: base.flaggedRows + b.flaggedRows,
+  };
+}
+
+// Offset the samples agree on (null: not enough logs ahead of the server clock).
+// The MIN_SKEW_SAMPLES-th largest lead is used, so one outlier can't raise it.
+export function estimateClockOffset(samples: BattleLogSample[]): { offsetMs: number | null; futureSamples: number } {
+  const leads = samples
+    .map((s) => s.newestBattleAt - s.fetchedAt)
+    .filter((lead) => lead > CLOCK_SKEW_TOLERANCE_MS)
+    .sort((a, b) => b - a);
+
+  if (leads.length < MIN_SKEW_SAMPLES) {
+    return { offsetMs: null, futureSamples: leads.length };
+  }
+  return {
+    offsetMs: Math.ceil(leads[MIN_SKEW_SAMPLES - 1] / SKEW_STEP_MS) * SKEW_STEP_MS,
+    futureSamples: leads.length,
+  };
+}
+
+// Shift a battle by the source offset, or flag it if that still leaves it in the future
+export function correctBattleTime<T extends { battle_time: string }>(
+  battle: T,
+  offsetMs: number,
+  fetchedAt: number
+): T & { clock_offset_ms: number; time_suspect: boolean } {
+  const reported = new Date(battle.battle_time).getTime();
+  const corrected = reported - offsetMs;
+  if (corrected > fetchedAt + CLOCK_SKEW_TOLERANCE_MS) {
+    return { ...battle, clock_offset_ms: 0, time_suspect: true };
+  }
+  return {
+    ...battle,
+    battle_time: offsetMs > 0 ? new Date(corrected).toISOString() : battle.battle_time,
+    clock_offset_ms: offsetMs,
+    time_suspect: false,
+  };
+}
+
+// Re-check recently stored battles from a source: rows that were flagged, or that
+// claim to have happened after they were stored, are shifted by the detected offset
+// when that makes them plausible (dropping them if the corrected battle is already
+// stored) and flagged otherwise. Rows from before sources were recorded count too.
+export async function recorrectStoredBattles(
+  source: string,
+  offsetMs: number
+): Promise<{ correctedRows: number; flaggedRows: number }> {
+  const { data: rows, error } = await supabase
+    .from("battle_history")
+    .select("id, player_tag, battle_time, recorded_at, clock_offset_ms, time_suspect, data_source")
+    .gte("battle_time", new Date(Date.now() - RECORRECT_WINDOW_MS).toISOString())
+    .or(`data_source.eq.${source},data_source.is.null`)
+    .limit(10000);
+
+  if (error) throw error;
+
+  const stored = new Set((rows || []).map((r) => `${r.player_tag}|${new Date(r.battle_time).getTime()}`));
+  let correctedRows = 0;
+  let flaggedRows = 0;
+  const movedIds: number[] = [];
+
+  for (const row of rows || []) {
+    const battleAt = new Date(row.battle_time).getTime();
+    const recordedAt = new Date(row.recorded_at).getTime();
+    if (!row.time_suspect && battleAt <= recordedAt + CLOCK_SKEW_TOLERANCE_MS) continue;
+
+    const corrected = battleAt - offsetMs;
+    if (offsetMs > 0 && corrected <= recordedAt + CLOCK_SKEW_TOLERANCE_MS) {
+      const key = `${row.player_tag}|${corrected}`;
+      const { error: fixError } = stored.has(key)
+        ? await supabase.from("battle_history").delete().eq("id", row.id)
+        : await supabase
+            .from("battle_history")
+            .update({
+              battle_time: new Date(corrected).toISOString(),
+              clock_offset_ms: (row.clock_offset_ms || 0) + offsetMs,
+              time_suspect: false,
+            })
+            .eq("id", row.id);
+      if (fixError) {
+        console.error(`Error re-correcting battle ${row.id}:`, fixError);
+        continue;
+      }
+      if (!stored.has(key)) movedIds.push(row.id);
+      stored.add(key);
+      correctedRows++;
+    } else if (!row.time_suspect) {
+      const { error: flagError } = await supabase
+        .from("battle_history")
+        .update({ time_suspect: true })
+        .eq("id", row.id);
+      if (flagError) console.error(`Error flagging battle ${row.id}:`, flagError);
+      else flaggedRows++;
+    }
+  }
+
+  // Battles that now have a trustworthy time can join their match
+  if (movedIds.length > 0) {
+    const { data: moved, error: movedError } = await supabase
+      .from("battle_history")
+      .select("*")
+      .in("id", movedIds);
+    if (movedError) throw movedError;
+    await storeMatches(moved || []);
+  }
+
+  if (correctedRows > 0 || flaggedRows > 0) {
+    console.log(`Clock skew (${source}): re-corrected ${correctedRows} stored battles, flagged ${flaggedRows}`);
+  }
+  return { correctedRows, flaggedRows };
+}
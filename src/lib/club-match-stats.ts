@@ -0,0 +1,107 @@
+import { supabase } from "./supabase";
+
+// Club totals counted per real match (see matches.ts) rather than per battle_history
+// row, so a win three members played together counts once. A match is "stacked" when
+// at least two club members were on the same team, "solo" otherwise.
+
+const PAGE_SIZE = 1000;
+
+export interface ClubMatchSplit {
+  matches: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+export interface ClubMatchStats extends ClubMatchSplit {
+  stacked: ClubMatchSplit;
+  solo: ClubMatchSplit;
+}
+
+// One match as the club saw it
+export interface ClubMatch {
+  matchId: number;
+  battleTime: string;
+  mode: string | null;
+  result: "victory" | "defeat" | "other";
+  stacked: boolean;
+  participants: number;
+}
+
+interface ClubMatchQuery {
+  since: string;
+  until?: string;
+  // Only count these members (e.g. the current roster)
+  playerTags?: string[];
+  clubTag?: string | null;
+}
+
+// Matches in [since, until) with at least one club participant in scope
+export async function fetchClubMatches({ since, until, playerTags, clubTag }: ClubMatchQuery): Promise<ClubMatch[]> {
+  if (playerTags && playerTags.length === 0) return [];
+
+  const rows = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from("match_participants")
+      .select("id, match_id, player_tag, team_index, result, matches!inner(battle_time, mode)")
+      .gte("matches.battle_time", since);
+    if (until) query = query.lt("matches.battle_time", until);
+    if (playerTags) query = query.in("player_tag", playerTags);
+    if (clubTag) query = query.eq("club_tag", clubTag);
+
+    const { data, error } = await query
+      .order("id", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  type MatchEntry = { battleTime: string; mode: string | null; results: string[]; teams: (number | null)[] };
+  const byMatch = new Map<number, MatchEntry>();
+  for (const row of rows) {
+    const match = Array.isArray(row.matches) ? row.matches[0] : row.matches;
+    const entry: MatchEntry = byMatch.get(row.match_id) || {
+      battleTime: match?.battle_time,
+      mode: match?.mode ?? null,
+      results: [],
+      teams: [],
+    };
+    entry.results.push(row.result);
+    entry.teams.push(row.team_index);
+    byMatch.set(row.match_id, entry);
+  }
+
+  return [...byMatch.entries()].map(([matchId, entry]) => {
+    const teamIndexes = entry.teams.filter((i): i is number => i !== null);
+    return {
+      matchId,
+      battleTime: entry.battleTime,
+      mode: entry.mode,
+      // Members share a result in team modes; in showdown the best finish counts
+      result: entry.results.includes("victory") ? "victory" : entry.results.includes("defeat") ? "defeat" : "other",
+      stacked: new Set(teamIndexes).size < teamIndexes.length,
+      participants: entry.results.length,
+    };
+  });
+}
+
+function toSplit(matches: ClubMatch[]): ClubMatchSplit {
+  const wins = matches.filter((m) => m.result === "victory").length;
+  const losses = matches.filter((m) => m.result === "defeat").length;
+  return {
+    matches: matches.length,
+    wins,
+    losses,
+    winRate: matches.length > 0 ? Math.round((wins / matches.length) * 100) : 0,
+  };
+}
+
+export function summarizeClubMatches(matches: ClubMatch[]): ClubMatchStats {
+  return {
+    ...toSplit(matches),
+    stacked: toSplit(matches.filter((m) => m.stacked)),
+    solo: toSplit(matches.filter((m) => !m.stacked)),
+  };
+}
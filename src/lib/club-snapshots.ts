@@ -0,0 +1,133 @@
+import { supabase } from "./supabase";
+import { toZonedDate } from "./timezone";
+import type { BrawlStarsClub } from "./brawl-api";
+import type { ClubSnapshot } from "@/types/database";
+
+// One club_snapshots row per club per sync run: the club profile (name, description,
+// type, badge, required trophies) and its totals. Consecutive rows give the trophy and
+// member count charts and the history of profile changes.
+
+export interface ClubSettingChange {
+  field: "required_trophies" | "type" | "description";
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface ClubHistoryPoint {
+  date: string;
+  trophies: number;
+  memberCount: number;
+  requiredTrophies: number | null;
+}
+
+// Profile changes worth a notification (name and badge changes are only kept in history)
+const WATCHED_FIELDS: Array<{ field: ClubSettingChange["field"]; label: string }> = [
+  { field: "required_trophies", label: "Required trophies" },
+  { field: "type", label: "Club type" },
+  { field: "description", label: "Description" },
+];
+
+export function toClubSnapshot(clubTag: string, club: BrawlStarsClub) {
+  return {
+    club_tag: clubTag,
+    club_name: club.name,
+    description: club.description ?? null,
+    type: club.type ?? null,
+    badge_id: club.badgeId ?? null,
+    required_trophies: club.requiredTrophies ?? null,
+    trophies: club.trophies ?? 0,
+    member_count: club.members?.length ?? 0,
+  };
+}
+
+// Skips the snapshot of excludeJobId, so a club finalized again by the same job is
+// still compared with the run before it
+export async function getLatestClubSnapshot(clubTag: string, excludeJobId?: number): Promise<ClubSnapshot | null> {
+  let query = supabase
+    .from("club_snapshots")
+    .select("*")
+    .eq("club_tag", clubTag);
+  if (excludeJobId !== undefined) {
+    query = query.or(`sync_job_id.is.null,sync_job_id.neq.${excludeJobId}`);
+  }
+  const { data, error } = await query
+    .order("recorded_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Watched settings that differ between the previous snapshot and the club now
+export function diffClubSettings(
+  previous: Pick<ClubSnapshot, "required_trophies" | "type" | "description"> | null,
+  current: Pick<ClubSnapshot, "required_trophies" | "type" | "description">
+): ClubSettingChange[] {
+  if (!previous) return [];
+  return WATCHED_FIELDS
+    .filter(({ field }) => (previous[field] ?? null) !== (current[field] ?? null))
+    .map(({ field, label }) => ({
+      field,
+      label,
+      from: String(previous[field] ?? "none"),
+      to: String(current[field] ?? "none"),
+    }));
+}
+
+// Daily points (the last snapshot of each club-local day), summed across clubs
+export function buildClubHistory(snapshots: ClubSnapshot[], timeZone: string): ClubHistoryPoint[] {
+  const lastByClubDay = new Map<string, ClubSnapshot & { date: string }>();
+  for (const snapshot of snapshots) {
+    const date = toZonedDate(snapshot.recorded_at, timeZone);
+    const key = `${snapshot.club_tag}|${date}`;
+    const existing = lastByClubDay.get(key);
+    if (!existing || existing.recorded_at < snapshot.recorded_at) {
+      lastByClubDay.set(key, { ...snapshot, date });
+    }
+  }
+
+  const byDate = new Map<string, ClubHistoryPoint>();
+  const clubCount = new Set([...lastByClubDay.values()].map((s) => s.club_tag)).size;
+  for (const snapshot of lastByClubDay.values()) {
+    const point = byDate.get(snapshot.date) || { date: snapshot.date, trophies: 0, memberCount: 0, requiredTrophies: null };
+    point.trophies += snapshot.trophies || 0;
+    point.memberCount += snapshot.member_count || 0;
+    // A requirement only means something for a single club
+    if (clubCount === 1) point.requiredTrophies = snapshot.required_trophies;
+    byDate.set(snapshot.date, point);
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Every profile change between consecutive snapshots of each club, newest first
+export function buildClubProfileChanges(snapshots: ClubSnapshot[]) {
+  const fields: Array<{ field: keyof ClubSnapshot; label: string }> = [
+    { field: "club_name", label: "Name" },
+    ...WATCHED_FIELDS,
+    { field: "badge_id", label: "Badge" },
+  ];
+  const changes: Array<{ club_tag: string; recorded_at: string; label: string; from: string; to: string }> = [];
+  const previousByClub = new Map<string, ClubSnapshot>();
+
+  for (const snapshot of [...snapshots].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))) {
+    const previous = previousByClub.get(snapshot.club_tag);
+    if (previous) {
+      for (const { field, label } of fields) {
+        if ((previous[field] ?? null) !== (snapshot[field] ?? null)) {
+          changes.push({
+            club_tag: snapshot.club_tag,
+            recorded_at: snapshot.recorded_at,
+            label,
+            from: String(previous[field] ?? "none"),
+            to: String(snapshot[field] ?? "none"),
+          });
+        }
+      }
+    }
+    previousByClub.set(snapshot.club_tag, snapshot);
+  }
+
+  return changes.reverse();
+}
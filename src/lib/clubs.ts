@@ -0,0 +1,65 @@
+import { supabase } from "./supabase";
+import { formatTag } from "./utils";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "./timezone";
+import type { Club } from "@/types/database";
+
+export function normalizeClubTag(tag: string): string {
+  return formatTag(tag.trim().toUpperCase());
+}
+
+// Read the optional ?club= scope from an API request (null = all clubs)
+export function getClubScope(request: Request): string | null {
+  const { searchParams } = new URL(request.url);
+  const club = searchParams.get("club");
+  return club ? normalizeClubTag(club) : null;
+}
+
+// Load all registered clubs in display order
+export async function getRegisteredClubs(): Promise<Club[]> {
+  const { data, error } = await supabase
+    .from("clubs")
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("added_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Club[];
+}
+
+// Add a club to the registry if it isn't there yet (keeps existing name/order)
+export async function registerClub(clubTag: string, clubName?: string | null): Promise<void> {
+  const { error } = await supabase
+    .from("clubs")
+    .upsert(
+      { club_tag: normalizeClubTag(clubTag), club_name: clubName ?? null },
+      { onConflict: "club_tag", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+// Tags of players currently in the club (or in any registered club when clubTag is null)
+export async function getCurrentMemberTags(clubTag: string | null): Promise<string[]> {
+  let query = supabase
+    .from("member_history")
+    .select("player_tag")
+    .eq("is_current_member", true);
+
+  if (clubTag) {
+    query = query.eq("club_tag", clubTag);
+  }
+
+  const { data } = await query;
+  return [...new Set((data || []).map((h) => h.player_tag as string))];
+}
+
+// Timezone that daily stats and streaks are bucketed in (club_timezone setting, UTC if unset/invalid)
+export async function getClubTimezone(): Promise<string> {
+  const { data } = await supabase
+    .from("settings")
+    .select("value")
+    .eq("key", "club_timezone")
+    .maybeSingle();
+
+  return isValidTimeZone(data?.value) ? data.value : DEFAULT_TIMEZONE;
+}
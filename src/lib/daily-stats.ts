@@ -0,0 +1,106 @@
+import { supabase } from "./supabase";
+import { fetchRowsBetween, getRollupWatermark } from "./retention";
+import { addDays, DEFAULT_TIMEZONE, getZonedDayStart, toZonedDate } from "./timezone";
+import type { BattleHistory, DailyStats } from "@/types/database";
+
+// daily_stats rows are bucketed by club-local day. The daily_stats_timezone setting
+// records which timezone the stored rows use (unset: UTC, how older versions wrote
+// them); when it differs from club_timezone the rows are rebuilt from battle_history.
+
+type DailyStatsTotals = Omit<DailyStats, "id">;
+
+type BucketedBattle = Pick<BattleHistory, "player_tag" | "club_tag" | "battle_time" | "result" | "is_star_player" | "trophy_change">;
+
+// Battles summed per player and club-local day
+export function buildDailyStats(battles: BucketedBattle[], timeZone: string): DailyStatsTotals[] {
+  const dailyStatsMap = new Map<string, DailyStatsTotals>();
+
+  for (const battle of battles) {
+    const date = toZonedDate(battle.battle_time, timeZone);
+    const key = `${battle.player_tag}_${date}`;
+
+    if (!dailyStatsMap.has(key)) {
+      dailyStatsMap.set(key, {
+        player_tag: battle.player_tag,
+        club_tag: battle.club_tag,
+        date,
+        battles: 0,
+        wins: 0,
+        losses: 0,
+        star_player: 0,
+        trophies_gained: 0,
+        trophies_lost: 0,
+      });
+    }
+
+    const stats = dailyStatsMap.get(key)!;
+    const trophyChange = battle.trophy_change || 0;
+    stats.battles++;
+    if (battle.result === "victory") stats.wins++;
+    if (battle.result === "defeat") stats.losses++;
+    if (battle.is_star_player) stats.star_player++;
+    if (trophyChange > 0) stats.trophies_gained += trophyChange;
+    if (trophyChange < 0) stats.trophies_lost += Math.abs(trophyChange);
+  }
+
+  return Array.from(dailyStatsMap.values());
+}
+
+// Re-bucket stored battles into daily_stats when the club timezone changed since
+// the rows were written. Days already in the monthly rollups are left alone, and so
+// is the oldest stored day once battle_history has been purged (it is incomplete).
+export async function rebucketDailyStats(timeZone: string): Promise<boolean> {
+  const { data: marker } = await supabase
+    .from("settings")
+    .select("value")
+    .eq("key", "daily_stats_timezone")
+    .maybeSingle();
+  if ((marker?.value || DEFAULT_TIMEZONE) === timeZone) return false;
+
+  const [dailyWatermark, battleWatermark] = await Promise.all([
+    getRollupWatermark("daily_stats"),
+    getRollupWatermark("battle_history"),
+  ]);
+
+  const rows = await fetchRowsBetween<BucketedBattle & { time_suspect: boolean }>(
+    "battle_history",
+    "battle_time",
+    "player_tag, club_tag, battle_time, result, is_star_player, trophy_change, time_suspect",
+    battleWatermark,
+    new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+  );
+  // Battles whose time is still in doubt (see clock-skew.ts) don't count towards any day
+  const battles = rows.filter((b) => !b.time_suspect);
+
+  if (battles.length > 0) {
+    let firstDay = toZonedDate(battles[0].battle_time, timeZone);
+    if (battleWatermark) firstDay = addDays(firstDay, 1);
+    if (dailyWatermark && dailyWatermark > firstDay) firstDay = dailyWatermark;
+
+    const fromTime = getZonedDayStart(firstDay, timeZone).getTime();
+    const dailyRows = buildDailyStats(
+      battles.filter((b) => new Date(b.battle_time).getTime() >= fromTime),
+      timeZone
+    );
+
+    const { error: deleteError } = await supabase
+      .from("daily_stats")
+      .delete()
+      .gte("date", firstDay);
+    if (deleteError) throw deleteError;
+
+    for (let i = 0; i < dailyRows.length; i += 1000) {
+      const { error } = await supabase
+        .from("daily_stats")
+        .upsert(dailyRows.slice(i, i + 1000), { onConflict: "player_tag,date" });
+      if (error) throw error;
+    }
+    console.log(`Re-bucketed ${battles.length} battles into ${dailyRows.length} daily stats rows (${timeZone}) from ${firstDay}`);
+  }
+
+  const { error } = await supabase
+    .from("settings")
+    .upsert({ key: "daily_stats_timezone", value: timeZone }, { onConflict: "key" });
+  if (error) throw error;
+  return true;
+}
@@ -0,0 +1,33 @@
+import path from "path";
+import { BrawlDataSourceKind, createHttpDataSource, setDataSource } from "./brawl-api";
+import { createFixtureDataSource, createRecordingDataSource } from "./fixture-data-source";
+
+// BRAWL_DATA_SOURCE picks where Brawl Stars data comes from:
+//   proxy    - RoyaleAPI proxy (default, works from any host)
+//   official - api.brawlstars.com directly (key must whitelist this server's IP)
+//   fixture  - JSON files under BRAWL_FIXTURE_DIR, no network or API key needed
+// BRAWL_FIXTURE_RECORD=true saves every live response into BRAWL_FIXTURE_DIR.
+export function getDataSourceKind(): BrawlDataSourceKind {
+  const kind = process.env.BRAWL_DATA_SOURCE;
+  return kind === "official" || kind === "fixture" ? kind : "proxy";
+}
+
+function getFixtureDir(): string {
+  return path.resolve(process.env.BRAWL_FIXTURE_DIR || "fixtures");
+}
+
+// Activate the configured source. False when it needs an API key and none was given.
+export function configureDataSource(apiKey?: string | null): boolean {
+  const kind = getDataSourceKind();
+  if (kind === "fixture") {
+    setDataSource(createFixtureDataSource(getFixtureDir()));
+    return true;
+  }
+  if (!apiKey) return false;
+
+  const source = createHttpDataSource(kind, apiKey);
+  setDataSource(process.env.BRAWL_FIXTURE_RECORD === "true"
+    ? createRecordingDataSource(source, getFixtureDir())
+    : source);
+  return true;
+}
@@ -0,0 +1,220 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { supabase } from "./supabase";
+import { forEachWithConcurrency } from "./concurrency";
+import { DELIVERY_HEADER, EVENT_HEADER, SIGNATURE_HEADER, WebhookEvent } from "./webhook-events";
+import type { Json, WebhookDelivery, WebhookSubscription } from "@/types/database";
+
+// Signed event webhooks. Each event is stored as a pending delivery per matching
+// subscription; nothing is sent while the sync runs. runDueWebhookDeliveries sends what
+// is due, a few requests at a time, after each sync invocation and from the
+// /api/deliveries cron. A runner claims a delivery (pending -> sending) before sending
+// it, so overlapping runners never send the same one. Failures are retried with
+// exponential backoff (1 min, 2 min, 4 min, ... capped at 6 hours) until MAX_ATTEMPTS.
+// Redelivering creates a new delivery with the original payload.
+
+export interface WebhookEventInput {
+  event: WebhookEvent;
+  data: Record<string, Json | undefined>;
+}
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery whose runner never reported back goes back in the queue after this
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+const RUN_BATCH_SIZE = 50;
+const SEND_CONCURRENCY = 5;
+const MAX_ERROR_LENGTH = 500;
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+// Wait before the next attempt, after `attempts` failed ones
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+// Take a pending delivery for this runner; false if another runner claimed it first.
+// While claimed, next_attempt_at is when the claim runs out.
+async function claimDelivery(deliveryId: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .update({ status: "sending", next_attempt_at: new Date(Date.now() + CLAIM_TIMEOUT_MS).toISOString() })
+    .eq("id", deliveryId)
+    .eq("status", "pending")
+    .select("id");
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+// One attempt at a claimed delivery; records the outcome on it and returns it
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+
+  try {
+    const res = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "BrawlClubManager-Webhooks",
+        [EVENT_HEADER]: delivery.event,
+        [DELIVERY_HEADER]: String(delivery.id),
+        [SIGNATURE_HEADER]: signWebhookBody(body, subscription.secret),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    if (!res.ok) lastError = `HTTP ${res.status}: ${(await res.text()).slice(0, MAX_ERROR_LENGTH)}`;
+  } catch (error) {
+    lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const now = new Date();
+  const update = lastError
+    ? {
+        attempts,
+        response_status: responseStatus,
+        last_error: lastError,
+        status: attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+        next_attempt_at: attempts >= MAX_ATTEMPTS ? null : new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString(),
+      }
+    : {
+        attempts,
+        response_status: responseStatus,
+        last_error: null,
+        status: "delivered",
+        next_attempt_at: null,
+        delivered_at: now.toISOString(),
+      };
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .update(update)
+    .eq("id", delivery.id)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Queue events for every enabled subscription that wants them; returns how many
+// deliveries were queued
+export async function emitWebhookEvents(events: WebhookEventInput[]): Promise<number> {
+  if (events.length === 0) return 0;
+
+  const { data: subscriptions, error } = await supabase
+    .from("webhook_subscriptions")
+    .select("*")
+    .eq("enabled", true);
+  if (error) throw error;
+  if (!subscriptions?.length) return 0;
+
+  const createdAt = new Date().toISOString();
+  const payloads = events.map(({ event, data }) => ({ id: randomUUID(), event, created_at: createdAt, data }));
+  const rows = subscriptions.flatMap((subscription) =>
+    payloads
+      .filter((payload) => subscription.events.includes(payload.event))
+      .map((payload) => ({ subscription_id: subscription.id, event: payload.event, payload, next_attempt_at: createdAt }))
+  );
+  if (rows.length === 0) return 0;
+
+  const { error: insertError } = await supabase
+    .from("webhook_deliveries")
+    .insert(rows);
+  if (insertError) throw insertError;
+  return rows.length;
+}
+
+// Send pending deliveries that are due (new ones and retries whose backoff has passed),
+// oldest first
+export async function runDueWebhookDeliveries(limit = RUN_BATCH_SIZE): Promise<{ attempted: number; delivered: number }> {
+  const now = new Date().toISOString();
+
+  // Claims left behind by a runner that died mid-request
+  const { error: releaseError } = await supabase
+    .from("webhook_deliveries")
+    .update({ status: "pending" })
+    .eq("status", "sending")
+    .lt("next_attempt_at", now);
+  if (releaseError) throw releaseError;
+
+  const { data: due, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now)
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  if (!due?.length) return { attempted: 0, delivered: 0 };
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from("webhook_subscriptions")
+    .select("*")
+    .in("id", [...new Set(due.map((d) => d.subscription_id))])
+    .eq("enabled", true);
+  if (subscriptionsError) throw subscriptionsError;
+  const subscriptionsById = new Map((subscriptions || []).map((s) => [s.id, s]));
+
+  // Paused subscriptions keep their pending deliveries until they are enabled again
+  const sendable = due.filter((delivery) => subscriptionsById.has(delivery.subscription_id));
+  let attempted = 0;
+  let delivered = 0;
+  await forEachWithConcurrency(sendable, SEND_CONCURRENCY, async (delivery) => {
+    try {
+      if (!(await claimDelivery(delivery.id))) return;
+      attempted++;
+      const result = await attemptDelivery(delivery, subscriptionsById.get(delivery.subscription_id)!);
+      if (result.status === "delivered") delivered++;
+    } catch (error) {
+      console.error(`Error sending webhook delivery ${delivery.id}:`, error);
+    }
+  });
+  if (attempted > 0) console.log(`Sent ${attempted} webhook deliveries (${delivered} delivered)`);
+  return { attempted, delivered };
+}
+
+// Send a past delivery's payload again, as a new delivery (null if it doesn't exist)
+export async function redeliverWebhook(deliveryId: number): Promise<WebhookDelivery | null> {
+  const { data: original, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", deliveryId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!original) return null;
+
+  const { data: subscription, error: subscriptionError } = await supabase
+    .from("webhook_subscriptions")
+    .select("*")
+    .eq("id", original.subscription_id)
+    .single();
+  if (subscriptionError) throw subscriptionError;
+
+  const { data: delivery, error: insertError } = await supabase
+    .from("webhook_deliveries")
+    .insert({
+      subscription_id: original.subscription_id,
+      event: original.event,
+      payload: original.payload,
+      redelivery_of: original.id,
+      // Sent right here, so it starts out claimed rather than waiting for a runner
+      status: "sending",
+      next_attempt_at: new Date(Date.now() + CLAIM_TIMEOUT_MS).toISOString(),
+    })
+    .select()
+    .single();
+  if (insertError) throw insertError;
+
+  return attemptDelivery(delivery, subscription);
+}
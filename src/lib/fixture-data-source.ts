@@ -0,0 +1,80 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { BrawlDataSource, PlayerRankedData } from "./brawl-api";
+
+// Captured API responses on disk, one JSON file per tag:
+//   <dir>/clubs/<TAG>.json, <dir>/players/<TAG>.json,
+//   <dir>/battlelogs/<TAG>.json, <dir>/ranked/<TAG>.json
+type FixtureKind = "clubs" | "players" | "battlelogs" | "ranked";
+
+const UNRANKED: PlayerRankedData = {
+  currentRank: "Unranked",
+  highestRank: "Unranked",
+  currentPoints: 0,
+  highestPoints: 0,
+};
+
+function fixturePath(dir: string, kind: FixtureKind, tag: string) {
+  const fileName = tag.replace("#", "").toUpperCase();
+  return path.join(dir, kind, `${fileName}.json`);
+}
+
+async function readFixture<T>(dir: string, kind: FixtureKind, tag: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(fixturePath(dir, kind, tag), "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function requireFixture<T>(dir: string, kind: FixtureKind, tag: string): Promise<T> {
+  const data = await readFixture<T>(dir, kind, tag);
+  if (!data) {
+    // Same wording as a real 404 so callers treat it like an unknown tag
+    throw new Error(`API 404 Not Found: No fixture at ${fixturePath(dir, kind, tag)}. Check if the tag is correct.`);
+  }
+  return data;
+}
+
+// Replays captured responses, so the app runs without network access or an API key
+export function createFixtureDataSource(dir: string): BrawlDataSource {
+  return {
+    kind: "fixture",
+    getClub: (clubTag) => requireFixture(dir, "clubs", clubTag),
+    getPlayer: (playerTag) => requireFixture(dir, "players", playerTag),
+    getPlayerBattleLog: (playerTag) => requireFixture(dir, "battlelogs", playerTag),
+    // Players without captured ranked data are simply unranked
+    getPlayerRankedData: async (playerTag) =>
+      (await readFixture<PlayerRankedData>(dir, "ranked", playerTag)) || UNRANKED,
+  };
+}
+
+async function writeFixture(dir: string, kind: FixtureKind, tag: string, data: unknown) {
+  try {
+    const file = fixturePath(dir, kind, tag);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(data, null, 2));
+  } catch (error) {
+    console.error(`Error recording fixture ${kind}/${tag}:`, error);
+  }
+}
+
+// Passes every call through to a live source and saves the response as a fixture
+export function createRecordingDataSource(source: BrawlDataSource, dir: string): BrawlDataSource {
+  function record<T>(kind: FixtureKind, fetch: (tag: string) => Promise<T>) {
+    return async (tag: string) => {
+      const data = await fetch(tag);
+      await writeFixture(dir, kind, tag, data);
+      return data;
+    };
+  }
+
+  return {
+    kind: source.kind,
+    getClub: record("clubs", (tag) => source.getClub(tag)),
+    getPlayer: record("players", (tag) => source.getPlayer(tag)),
+    getPlayerBattleLog: record("battlelogs", (tag) => source.getPlayerBattleLog(tag)),
+    getPlayerRankedData: record("ranked", (tag) => source.getPlayerRankedData(tag)),
+  };
+}
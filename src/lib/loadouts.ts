@@ -0,0 +1,69 @@
+import type { Json } from "@/types/database";
+
+// A brawler's build: the gadgets, star powers, gears and hypercharges it owns.
+// Snapshots store each list as JSONB ([{ id, name }], gears also carry a level).
+
+export type LoadoutItem = {
+  id: number;
+  name: string;
+  level?: number;
+};
+
+export interface BrawlerLoadout {
+  gadgets: LoadoutItem[];
+  starPowers: LoadoutItem[];
+  gears: LoadoutItem[];
+  hyperCharges: LoadoutItem[];
+}
+
+export type LoadoutItemKind = "gadget" | "star_power" | "gear" | "hypercharge";
+
+type ApiItem = { id: number; name: string; level?: number };
+
+function toItems(items: ApiItem[] | null | undefined): LoadoutItem[] {
+  return (items || []).map((item) => ({
+    id: item.id,
+    name: item.name,
+    ...(item.level !== undefined ? { level: item.level } : {}),
+  }));
+}
+
+// From a Brawl Stars API brawler
+export function getBrawlerLoadout(brawler: {
+  gadgets?: ApiItem[];
+  starPowers?: ApiItem[];
+  gears?: ApiItem[];
+  hyperCharges?: ApiItem[];
+}): BrawlerLoadout {
+  return {
+    gadgets: toItems(brawler.gadgets),
+    starPowers: toItems(brawler.starPowers),
+    gears: toItems(brawler.gears),
+    hyperCharges: toItems(brawler.hyperCharges),
+  };
+}
+
+// From a brawler_snapshots row (null: stored before loadouts were recorded)
+export function getSnapshotLoadout(row: {
+  gadgets: Json | null;
+  star_powers: Json | null;
+  gears: Json | null;
+  hypercharges: Json | null;
+}): BrawlerLoadout | null {
+  if (!row.gadgets && !row.star_powers && !row.gears && !row.hypercharges) return null;
+  return {
+    gadgets: toItems(row.gadgets as ApiItem[] | null),
+    starPowers: toItems(row.star_powers as ApiItem[] | null),
+    gears: toItems(row.gears as ApiItem[] | null),
+    hyperCharges: toItems(row.hypercharges as ApiItem[] | null),
+  };
+}
+
+export function getLoadoutItems(loadout: BrawlerLoadout): Array<LoadoutItem & { kind: LoadoutItemKind }> {
+  return [
+    ...loadout.gadgets.map((item) => ({ ...item, kind: "gadget" as const })),
+    ...loadout.starPowers.map((item) => ({ ...item, kind: "star_power" as const })),
+    ...loadout.gears.map((item) => ({ ...item, kind: "gear" as const })),
+    ...loadout.hyperCharges.map((item) => ({ ...item, kind: "hypercharge" as const })),
+  ];
+}
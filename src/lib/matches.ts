@@ -0,0 +1,250 @@
+import { createHash } from "crypto";
+import { supabase } from "./supabase";
+
+// One row per real match in `matches` (teams normalized once, at sync time) and one
+// `match_participants` row per club member who played in it. Every member's battle
+// log reports the same match, so a three-stack arrives as three battle_history rows
+// but ends up as a single match with three participants.
+
+export type MatchPlayer = {
+  tag: string;
+  name: string;
+  brawler: string | null;
+  power: number | null;
+  trophies: number | null;
+};
+
+// The battle_history fields a match is built from
+export interface MatchSourceBattle {
+  player_tag: string;
+  club_tag: string | null;
+  battle_time: string;
+  mode: string | null;
+  map: string | null;
+  result: string | null;
+  trophy_change: number | null;
+  is_star_player: boolean | null;
+  brawler_name: string | null;
+  brawler_power: number | null;
+  teams_json: unknown;
+  time_suspect?: boolean | null;
+}
+
+const BACKFILL_PAGE_SIZE = 1000;
+
+export function isShowdownMode(mode: string | null | undefined): boolean {
+  return mode === "soloShowdown" || mode === "duoShowdown" || mode === "showdown";
+}
+
+// Brawl Stars API may use %23 instead of #
+export function normalizePlayerTag(tag: string): string {
+  return tag.startsWith("%23") ? "#" + tag.slice(3) : tag;
+}
+
+type RawPlayer = {
+  tag?: string;
+  name?: string;
+  brawler?: string | null;
+  power?: number | null;
+  trophies?: number | null;
+};
+
+function toMatchPlayer(p: RawPlayer): MatchPlayer | null {
+  if (!p?.tag) return null;
+  const tag = normalizePlayerTag(p.tag);
+  return {
+    tag,
+    name: p.name || tag,
+    brawler: p.brawler ?? null,
+    power: p.power ?? null,
+    trophies: p.trophies ?? null,
+  };
+}
+
+// teams_json (string or parsed) as teams of players. Showdown logs are a flat
+// player list, which becomes one single-player team per entry.
+export function normalizeTeams(raw: unknown): MatchPlayer[][] {
+  if (!raw) return [];
+
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  const asObject = typeof value === "object" && value !== null ? value as Record<string, unknown> : null;
+  const source =
+    Array.isArray(value) ? value :
+    Array.isArray(asObject?.teams) ? asObject.teams :
+    Array.isArray(asObject?.players) ? asObject.players :
+    [];
+
+  if (!Array.isArray(source) || source.length === 0) return [];
+
+  // Flat players array => showdown-style one player per team
+  if (!Array.isArray(source[0])) {
+    return source
+      .map((player) => toMatchPlayer(player as RawPlayer))
+      .filter((player): player is MatchPlayer => !!player)
+      .map((player) => [player]);
+  }
+
+  // teams[][] shape
+  return source
+    .map((team) =>
+      (team as unknown[])
+        .map((player) => toMatchPlayer(player as RawPlayer))
+        .filter((player): player is MatchPlayer => !!player)
+    )
+    .filter((team) => team.length > 0);
+}
+
+// Same match, same key, whichever member's log it came from. Without team data
+// the battle can't be matched to anyone else's, so it stays its own match.
+function buildMatchKey(battle: MatchSourceBattle, teams: MatchPlayer[][]): string {
+  const players = teams.length > 0
+    ? teams.flat().map((p) => p.tag).sort().join(",")
+    : normalizePlayerTag(battle.player_tag);
+  const time = new Date(battle.battle_time).toISOString();
+  return createHash("sha1")
+    .update(`${time}|${battle.mode || ""}|${battle.map || ""}|${players}`)
+    .digest("hex");
+}
+
+// Upsert the matches behind a batch of battles and link their club participants.
+// Battles whose time is in doubt wait until it has been corrected.
+export async function storeMatches(battles: MatchSourceBattle[]): Promise<number> {
+  const matchesByKey = new Map<string, {
+    match_key: string;
+    battle_time: string;
+    mode: string | null;
+    map: string | null;
+    is_showdown: boolean;
+    teams: MatchPlayer[][] | null;
+  }>();
+  const participants: Array<{
+    match_key: string;
+    player_tag: string;
+    club_tag: string | null;
+    team_index: number | null;
+    brawler_name: string | null;
+    brawler_power: number | null;
+    result: string | null;
+    trophy_change: number;
+    is_star_player: boolean;
+  }> = [];
+
+  for (const battle of battles) {
+    if (battle.time_suspect) continue;
+
+    const teams = normalizeTeams(battle.teams_json);
+    const matchKey = buildMatchKey(battle, teams);
+    const playerTag = normalizePlayerTag(battle.player_tag);
+    const teamIndex = teams.findIndex((team) => team.some((p) => p.tag === playerTag));
+
+    if (!matchesByKey.has(matchKey)) {
+      matchesByKey.set(matchKey, {
+        match_key: matchKey,
+        battle_time: battle.battle_time,
+        mode: battle.mode,
+        map: battle.map,
+        is_showdown: isShowdownMode(battle.mode),
+        teams: teams.length > 0 ? teams : null,
+      });
+    }
+    participants.push({
+      match_key: matchKey,
+      player_tag: playerTag,
+      club_tag: battle.club_tag,
+      team_index: teamIndex >= 0 ? teamIndex : null,
+      brawler_name: battle.brawler_name,
+      brawler_power: battle.brawler_power,
+      result: battle.result,
+      trophy_change: battle.trophy_change || 0,
+      is_star_player: !!battle.is_star_player,
+    });
+  }
+
+  if (matchesByKey.size === 0) return 0;
+
+  const { data: stored, error } = await supabase
+    .from("matches")
+    .upsert([...matchesByKey.values()], { onConflict: "match_key" })
+    .select("id, match_key");
+  if (error) throw error;
+
+  const idByKey = new Map((stored || []).map((m) => [m.match_key as string, m.id as number]));
+  const participantRows = new Map<string, Record<string, unknown>>();
+  for (const { match_key, ...participant } of participants) {
+    const matchId = idByKey.get(match_key);
+    if (matchId === undefined) continue;
+    participantRows.set(`${matchId}|${participant.player_tag}`, { ...participant, match_id: matchId });
+  }
+
+  const { error: participantsError } = await supabase
+    .from("match_participants")
+    .upsert([...participantRows.values()], { onConflict: "match_id,player_tag" });
+  if (participantsError) throw participantsError;
+
+  return matchesByKey.size;
+}
+
+// Build matches for battles stored before the matches table existed. Works through
+// battle_history oldest first, a bounded number of rows per call, and keeps its place
+// in the matches_backfill_cursor setting ("done" once it has caught up).
+export async function backfillMatches(maxRows = 5000): Promise<void> {
+  const { data: cursorSetting } = await supabase
+    .from("settings")
+    .select("value")
+    .eq("key", "matches_backfill_cursor")
+    .maybeSingle();
+  if (cursorSetting?.value === "done") return;
+
+  let cursor: string | null = cursorSetting?.value || null;
+  let processed = 0;
+  let done = false;
+
+  while (processed < maxRows) {
+    let query = supabase
+      .from("battle_history")
+      .select("player_tag, club_tag, battle_time, mode, map, result, trophy_change, is_star_player, brawler_name, brawler_power, teams_json, time_suspect")
+      .order("battle_time", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(BACKFILL_PAGE_SIZE);
+    if (cursor) query = query.gt("battle_time", cursor);
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+    if (!rows || rows.length === 0) {
+      done = true;
+      break;
+    }
+
+    // Leave the last timestamp's rows for the next page unless the page is short,
+    // so battles of one match are never split by the cursor
+    const lastTime = rows[rows.length - 1].battle_time;
+    const batch = rows.length < BACKFILL_PAGE_SIZE ? rows : rows.filter((r) => r.battle_time !== lastTime);
+    if (batch.length === 0) {
+      // A whole page at one timestamp: process it as is rather than stall
+      batch.push(...rows);
+    }
+
+    await storeMatches(batch);
+    processed += batch.length;
+    cursor = batch[batch.length - 1].battle_time;
+
+    if (rows.length < BACKFILL_PAGE_SIZE) {
+      done = true;
+      break;
+    }
+  }
+
+  await supabase.from("settings").upsert({
+    key: "matches_backfill_cursor",
+    value: done ? "done" : cursor || "",
+  }, { onConflict: "key" });
+  if (processed > 0) console.log(`Backfilled matches from ${processed} stored battles${done ? " (complete)" : ""}`);
+}
@@ -0,0 +1,88 @@
+import { supabase } from "./supabase";
+import type { Member, MemberChange } from "@/types/database";
+
+// member_changes keeps one row per tracked field that changed between a member's stored
+// row and what a sync saw, with the old and new values as text. Notifications for name
+// and role changes are derived from the same diff.
+
+export const MEMBER_CHANGE_FIELDS = [
+  "player_name",
+  "role",
+  "club_tag",
+  "trophies",
+  "highest_trophies",
+  "exp_level",
+  "brawlers_count",
+  "rank_current",
+  "rank_highest",
+  "icon_id",
+  "win_rate",
+  "solo_victories",
+  "duo_victories",
+  "trio_victories",
+] as const;
+
+export type MemberChangeField = (typeof MEMBER_CHANGE_FIELDS)[number];
+
+export type TrackedMember = Pick<Member, MemberChangeField>;
+
+export interface MemberFieldDiff {
+  field: MemberChangeField;
+  from: TrackedMember[MemberChangeField];
+  to: TrackedMember[MemberChangeField];
+}
+
+type MemberChangeInsert = Omit<MemberChange, "id">;
+
+// Tracked fields whose stored and incoming values differ
+export function diffMemberFields(previous: Partial<TrackedMember>, current: Partial<TrackedMember>): MemberFieldDiff[] {
+  const diffs: MemberFieldDiff[] = [];
+  for (const field of MEMBER_CHANGE_FIELDS) {
+    // A field missing on either side (e.g. a partial select) is not a change
+    if (!(field in previous) || !(field in current)) continue;
+    const from = previous[field] ?? null;
+    const to = current[field] ?? null;
+    if (from !== to) diffs.push({ field, from, to });
+  }
+  return diffs;
+}
+
+export function toMemberChangeRows(
+  playerTag: string,
+  clubTag: string | null,
+  diffs: MemberFieldDiff[],
+  changedAt: string
+): MemberChangeInsert[] {
+  return diffs.map((diff) => ({
+    player_tag: playerTag,
+    club_tag: clubTag,
+    field: diff.field,
+    old_value: diff.from === null ? null : String(diff.from),
+    new_value: diff.to === null ? null : String(diff.to),
+    changed_at: changedAt,
+  }));
+}
+
+// A member's changes, newest first, optionally for one field and/or before a timestamp
+export async function getMemberChanges(
+  playerTag: string,
+  options: { field?: MemberChangeField; before?: string; limit?: number } = {}
+): Promise<MemberChange[]> {
+  let query = supabase
+    .from("member_changes")
+    .select("*")
+    .eq("player_tag", playerTag)
+    .order("changed_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(options.limit ?? 200);
+  if (options.field) query = query.eq("field", options.field);
+  if (options.before) query = query.lt("changed_at", options.before);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export function isMemberChangeField(value: string): value is MemberChangeField {
+  return (MEMBER_CHANGE_FIELDS as readonly string[]).includes(value);
+}
@@ -0,0 +1,174 @@
+import { supabase } from "./supabase";
+import type { MemberFieldDiff } from "./member-changes";
+
+// Milestones are crossings of a configurable ladder seen between two syncs: highest
+// trophies passing 50k / 75k / 100k, a new personal best (in steps), account level
+// and brawler rank thresholds. Each one is recorded in the milestones table under a
+// per-player key once its notification is stored, so it is announced once per player.
+
+export interface MilestoneLadder {
+  trophies: number[];
+  personalBestStep: number;
+  expLevels: number[];
+  brawlerRanks: number[];
+}
+
+export type MilestoneKind = "trophies" | "personal_best" | "exp_level" | "brawler_rank";
+
+export interface Milestone {
+  player_tag: string;
+  player_name: string;
+  milestone_key: string;
+  kind: MilestoneKind;
+  value: number;
+  message: string;
+}
+
+export const MILESTONE_LADDER_KEY = "milestone_ladder";
+
+export const MILESTONE_TITLES: Record<MilestoneKind, string> = {
+  trophies: "Trophy Milestone",
+  personal_best: "New Personal Best",
+  exp_level: "Level Milestone",
+  brawler_rank: "Brawler Rank Milestone",
+};
+
+export const DEFAULT_MILESTONE_LADDER: MilestoneLadder = {
+  trophies: [50000, 75000, 100000],
+  personalBestStep: 1000,
+  expLevels: [100, 150, 200, 250, 300],
+  brawlerRanks: [30, 35],
+};
+
+function parseSteps(value: unknown, fallback: number[]): number[] {
+  if (!Array.isArray(value)) return fallback;
+  return [...new Set(value.map(Number).filter((n) => Number.isInteger(n) && n > 0))].sort((a, b) => a - b);
+}
+
+// The stored ladder (JSON in settings), with defaults for anything missing or invalid
+export function parseMilestoneLadder(value: string | null | undefined): MilestoneLadder {
+  let stored: Partial<Record<keyof MilestoneLadder, unknown>> = {};
+  try {
+    stored = value ? JSON.parse(value) : {};
+  } catch {
+    stored = {};
+  }
+  const step = Number(stored.personalBestStep);
+  return {
+    trophies: parseSteps(stored.trophies, DEFAULT_MILESTONE_LADDER.trophies),
+    personalBestStep: Number.isInteger(step) && step >= 0 ? step : DEFAULT_MILESTONE_LADDER.personalBestStep,
+    expLevels: parseSteps(stored.expLevels, DEFAULT_MILESTONE_LADDER.expLevels),
+    brawlerRanks: parseSteps(stored.brawlerRanks, DEFAULT_MILESTONE_LADDER.brawlerRanks),
+  };
+}
+
+// Ladder steps in (from, to]
+function crossed(steps: number[], from: number, to: number): number[] {
+  return steps.filter((step) => from < step && step <= to);
+}
+
+// Milestones in one member's field changes (highest trophies and level)
+export function findMemberMilestones(
+  player: { player_tag: string; player_name: string },
+  diffs: MemberFieldDiff[],
+  ladder: MilestoneLadder
+): Milestone[] {
+  const who = `${player.player_name} (${player.player_tag})`;
+  const milestones: Milestone[] = [];
+  const numeric = (field: MemberFieldDiff["field"]) => {
+    const diff = diffs.find((d) => d.field === field);
+    return diff && typeof diff.from === "number" && typeof diff.to === "number" && diff.to > diff.from
+      ? { from: diff.from, to: diff.to }
+      : null;
+  };
+
+  const highest = numeric("highest_trophies");
+  if (highest) {
+    const ladderSteps = crossed(ladder.trophies, highest.from, highest.to);
+    for (const step of ladderSteps) {
+      milestones.push({
+        ...player,
+        milestone_key: `trophies:${step}`,
+        kind: "trophies",
+        value: step,
+        message: `${who} reached ${step.toLocaleString("en-US")} trophies!`,
+      });
+    }
+    // A personal best is announced per step band, and not when a ladder milestone already covers it
+    if (ladder.personalBestStep > 0 && ladderSteps.length === 0) {
+      const band = Math.floor(highest.to / ladder.personalBestStep) * ladder.personalBestStep;
+      if (band > highest.from) {
+        milestones.push({
+          ...player,
+          milestone_key: `personal_best:${band}`,
+          kind: "personal_best",
+          value: highest.to,
+          message: `${who} set a new personal best of ${highest.to.toLocaleString("en-US")} trophies.`,
+        });
+      }
+    }
+  }
+
+  const level = numeric("exp_level");
+  if (level) {
+    for (const step of crossed(ladder.expLevels, level.from, level.to)) {
+      milestones.push({
+        ...player,
+        milestone_key: `exp_level:${step}`,
+        kind: "exp_level",
+        value: step,
+        message: `${who} reached account level ${step}.`,
+      });
+    }
+  }
+
+  return milestones;
+}
+
+// Milestones in brawler rank changes (from the progression ledger diff)
+export function findBrawlerRankMilestones(
+  player: { player_tag: string; player_name: string },
+  rankChanges: Array<{ brawler_id: number; brawler_name: string; from_value: number | null; to_value: number }>,
+  ladder: MilestoneLadder
+): Milestone[] {
+  const milestones: Milestone[] = [];
+  for (const change of rankChanges) {
+    for (const step of crossed(ladder.brawlerRanks, change.from_value ?? 0, change.to_value)) {
+      milestones.push({
+        ...player,
+        milestone_key: `brawler_rank:${change.brawler_id}:${step}`,
+        kind: "brawler_rank",
+        value: step,
+        message: `${player.player_name} (${player.player_tag}) took ${change.brawler_name} to rank ${step}.`,
+      });
+    }
+  }
+  return milestones;
+}
+
+// The milestones never announced before
+export async function getUnannouncedMilestones(milestones: Milestone[]): Promise<Milestone[]> {
+  if (milestones.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("milestones")
+    .select("player_tag, milestone_key")
+    .in("player_tag", [...new Set(milestones.map((m) => m.player_tag))])
+    .in("milestone_key", [...new Set(milestones.map((m) => m.milestone_key))]);
+  if (error) throw error;
+  const claimed = new Set((data || []).map((row) => `${row.player_tag}|${row.milestone_key}`));
+  return milestones.filter((m) => !claimed.has(`${m.player_tag}|${m.milestone_key}`));
+}
+
+// Mark milestones as announced, once their notifications are stored
+export async function recordMilestones(milestones: Milestone[]): Promise<void> {
+  if (milestones.length === 0) return;
+
+  const { error } = await supabase
+    .from("milestones")
+    .upsert(
+      milestones.map((m) => ({ player_tag: m.player_tag, milestone_key: m.milestone_key, kind: m.kind, value: m.value })),
+      { onConflict: "player_tag,milestone_key", ignoreDuplicates: true }
+    );
+  if (error) throw error;
+}
@@ -0,0 +1,47 @@
+// Fuzzy player-name matching shared by the member, history and battle feed searches.
+// Client-safe: no database access.
+
+// Lowercase, accents stripped, and only letters and digits kept, so "Émile★" and
+// "emile" compare equal. Names made only of symbols are kept as lowercase text.
+export function normalizeName(name: string): string {
+  const folded = name.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+  const stripped = folded.replace(/[^\p{L}\p{N}]/gu, "");
+  return stripped || folded.trim();
+}
+
+// Smallest edit distance between the query and any substring of the text
+function substringDistance(query: string, text: string): number {
+  let previous = new Array(text.length + 1).fill(0);
+  for (let i = 1; i <= query.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= text.length; j++) {
+      const cost = query[i - 1] === text[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return Math.min(...previous);
+}
+
+// Typos allowed for a query of this length
+function allowedTypos(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+export function nameMatches(query: string, name: string): boolean {
+  const q = normalizeName(query);
+  if (!q) return true;
+  const n = normalizeName(name);
+  if (n.includes(q)) return true;
+  const typos = allowedTypos(q.length);
+  return typos > 0 && substringDistance(q, n) <= typos;
+}
+
+// True when the query matches the tag or any of the player's names, current or former
+export function playerMatches(query: string, tag: string, names: Array<string | null | undefined>): boolean {
+  const trimmed = query.trim();
+  if (!trimmed) return true;
+  if (tag.toLowerCase().includes(trimmed.toLowerCase())) return true;
+  return names.some((name) => !!name && nameMatches(trimmed, name));
+}
@@ -0,0 +1,387 @@
+import { supabase } from "./supabase";
+import { ChannelConfig, ChannelKind, parseChannelConfig, validateChannel } from "./channel-kinds";
+import { forEachWithConcurrency } from "./concurrency";
+import { getRetryDelayMs } from "./event-webhooks";
+import { isNotificationType, NotificationType } from "./notification-types";
+import type { Notification, NotificationChannelRecord, NotificationDelivery } from "@/types/database";
+
+// Delivery of notification rows to external channels. Each kind of channel is an adapter
+// that turns a batch of rows into the request its service expects; notification_routes
+// decides which channels get which notification types. Adding a channel kind means an
+// entry in CHANNEL_KINDS and an adapter here, nothing in the sync.
+//
+// The sync stores every notification first and queues a notification_deliveries row per
+// routed channel. runDueNotificationDeliveries sends what is due after each sync
+// invocation and from the /api/deliveries cron, claiming rows the same way webhook
+// deliveries are claimed, and retries failed requests with the same backoff.
+
+export type OutboundNotification = Pick<
+  Notification,
+  "type" | "title" | "message" | "player_tag" | "player_name" | "club_tag"
+> & { created_at?: string };
+
+export interface ChannelRequest {
+  url: string;
+  body: unknown;
+}
+
+export interface NotificationChannel {
+  kind: ChannelKind;
+  // Notifications per request
+  batchSize: number;
+  format(rows: OutboundNotification[], config: ChannelConfig, clubLabel: (clubTag: string | null) => string): ChannelRequest;
+}
+
+export interface ConfiguredChannel {
+  id: number;
+  kind: ChannelKind;
+  name: string;
+  config: ChannelConfig;
+}
+
+export interface ChannelRouting {
+  channels: ConfiguredChannel[];
+  // notification type -> channel ids
+  routes: Map<string, number[]>;
+}
+
+export interface ChannelDelivery {
+  channel: string;
+  kind: ChannelKind;
+  notifications: number;
+}
+
+const DEFAULT_USERNAME = "Brawl Club Manager";
+const MAX_ATTEMPTS = 8;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery whose runner never reported back goes back in the queue after this
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+const RUN_BATCH_SIZE = 100;
+const SEND_CONCURRENCY = 5;
+const MAX_ERROR_LENGTH = 500;
+
+export const NOTIFICATION_STYLES: Record<NotificationType, { emoji: string; color: number }> = {
+  join: { emoji: "\u2705", color: 0x22c55e }, // green
+  leave: { emoji: "\u274c", color: 0xef4444 }, // red
+  transfer: { emoji: "\u{1F501}", color: 0x3b82f6 }, // blue
+  inactive: { emoji: "\u23f0", color: 0xf59e0b }, // amber
+  promotion: { emoji: "\u2b06\ufe0f", color: 0x10b981 }, // emerald
+  demotion: { emoji: "\u2b07\ufe0f", color: 0xf97316 }, // orange
+  role_change: { emoji: "\u{1F396}\ufe0f", color: 0x64748b }, // slate
+  name_change: { emoji: "\u270f\ufe0f", color: 0x6366f1 }, // indigo
+  rank_up: { emoji: "\u{1F4C8}", color: 0x14b8a6 }, // teal
+  rank_down: { emoji: "\u{1F4C9}", color: 0xe11d48 }, // rose
+  club_settings: { emoji: "\u2699\ufe0f", color: 0x8b5cf6 }, // violet
+  milestone: { emoji: "\u{1F3C6}", color: 0xeab308 }, // yellow
+  rule: { emoji: "\u{1F514}", color: 0x06b6d4 }, // cyan
+};
+
+function styleOf(type: string) {
+  return isNotificationType(type) ? NOTIFICATION_STYLES[type] : { emoji: "\u{1F514}", color: 0x64748b };
+}
+
+// The message with the player's name marked up, after escaping for the target format
+function emphasizeName(row: OutboundNotification, wrap: (name: string) => string, escape = (text: string) => text): string {
+  const message = escape(row.message);
+  if (!row.player_name) return message;
+  const name = escape(row.player_name);
+  return message.replace(`${name} (`, `${wrap(name)} (`);
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const discordChannel: NotificationChannel = {
+  kind: "discord",
+  batchSize: 10, // embeds per message
+  format: (rows, config, clubLabel) => ({
+    url: config.url,
+    body: {
+      username: config.username || DEFAULT_USERNAME,
+      ...(config.avatar_url ? { avatar_url: config.avatar_url } : {}),
+      embeds: rows.map((row) => ({
+        title: `${styleOf(row.type).emoji} ${row.title}`,
+        description: emphasizeName(row, (name) => `**${name}**`),
+        color: styleOf(row.type).color,
+        timestamp: row.created_at || new Date().toISOString(),
+        footer: { text: clubLabel(row.club_tag) },
+      })),
+    },
+  }),
+};
+
+// Slack mrkdwn only needs &, < and > escaped
+const slackChannel: NotificationChannel = {
+  kind: "slack",
+  batchSize: 10, // two blocks each, Slack allows 50
+  format: (rows, config, clubLabel) => ({
+    url: config.url,
+    body: {
+      text: rows.map((row) => `${row.title}: ${row.message}`).join("\n"),
+      blocks: rows.flatMap((row) => [
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `${styleOf(row.type).emoji} *${escapeHtml(row.title)}*\n${emphasizeName(row, (name) => `*${name}*`, escapeHtml)}`,
+          },
+        },
+        { type: "context", elements: [{ type: "mrkdwn", text: escapeHtml(clubLabel(row.club_tag)) }] },
+      ]),
+    },
+  }),
+};
+
+const telegramChannel: NotificationChannel = {
+  kind: "telegram",
+  batchSize: 5, // one message, kept well under Telegram's 4096 characters
+  format: (rows, config, clubLabel) => ({
+    url: `https://api.telegram.org/bot${config.bot_token}/sendMessage`,
+    body: {
+      chat_id: config.chat_id,
+      parse_mode: "HTML",
+      disable_web_page_preview: true,
+      text: rows
+        .map((row) => [
+          `${styleOf(row.type).emoji} <b>${escapeHtml(row.title)}</b>`,
+          emphasizeName(row, (name) => `<b>${name}</b>`, escapeHtml),
+          `<i>${escapeHtml(clubLabel(row.club_tag))}</i>`,
+        ].join("\n"))
+        .join("\n\n"),
+    },
+  }),
+};
+
+// The rows as they are stored, for anything that takes plain JSON
+const webhookChannel: NotificationChannel = {
+  kind: "webhook",
+  batchSize: 50,
+  format: (rows, config, clubLabel) => ({
+    url: config.url,
+    body: {
+      source: "brawl-club-manager",
+      notifications: rows.map((row) => ({ ...row, club_name: clubLabel(row.club_tag) })),
+    },
+  }),
+};
+
+export const CHANNEL_ADAPTERS: Record<ChannelKind, NotificationChannel> = {
+  discord: discordChannel,
+  slack: slackChannel,
+  telegram: telegramChannel,
+  webhook: webhookChannel,
+};
+
+// Enabled, valid channels and their routes
+export async function getChannelRouting(): Promise<ChannelRouting> {
+  const [{ data: channels, error }, { data: routes, error: routesError }] = await Promise.all([
+    supabase.from("notification_channels").select("*").eq("enabled", true).order("id"),
+    supabase.from("notification_routes").select("notification_type, channel_id"),
+  ]);
+  if (error || routesError) {
+    console.warn("Notification channels unavailable, notifications only reach the panel:", (error || routesError)?.message);
+    return { channels: [], routes: new Map() };
+  }
+
+  const configured: ConfiguredChannel[] = [];
+  for (const channel of channels || []) {
+    const configuredChannel = toConfiguredChannel(channel);
+    if (configuredChannel) configured.push(configuredChannel);
+  }
+
+  const configuredIds = new Set(configured.map((c) => c.id));
+  const routesByType = new Map<string, number[]>();
+  for (const route of routes || []) {
+    if (!configuredIds.has(route.channel_id)) continue;
+    routesByType.set(route.notification_type, [...(routesByType.get(route.notification_type) || []), route.channel_id]);
+  }
+  return { channels: configured, routes: routesByType };
+}
+
+function toConfiguredChannel(channel: NotificationChannelRecord): ConfiguredChannel | null {
+  const invalid = validateChannel(channel);
+  if (invalid) {
+    console.warn(`Skipping notification channel ${channel.name}: ${invalid}`);
+    return null;
+  }
+  return {
+    id: channel.id,
+    kind: channel.kind as ChannelKind,
+    name: channel.name,
+    config: parseChannelConfig(channel.config),
+  };
+}
+
+export function getRoutedChannels(routing: ChannelRouting, type: string): ConfiguredChannel[] {
+  const ids = routing.routes.get(type) || [];
+  return routing.channels.filter((c) => ids.includes(c.id));
+}
+
+// How many of these notifications each channel gets
+export function getChannelDeliveries(routing: ChannelRouting, rows: Array<Pick<Notification, "type">>): ChannelDelivery[] {
+  const deliveries: ChannelDelivery[] = [];
+  for (const channel of routing.channels) {
+    const notifications = rows.filter((row) => routing.routes.get(row.type)?.includes(channel.id)).length;
+    if (notifications > 0) deliveries.push({ channel: channel.name, kind: channel.kind, notifications });
+  }
+  return deliveries;
+}
+
+// Queue stored notifications for every channel their type is routed to; returns how many
+// deliveries were queued
+export async function queueNotificationDeliveries(
+  routing: ChannelRouting,
+  notifications: Array<Pick<Notification, "id" | "type">>
+): Promise<number> {
+  const rows = notifications.flatMap((notification) =>
+    (routing.routes.get(notification.type) || []).map((channelId) => ({
+      notification_id: notification.id,
+      channel_id: channelId,
+    }))
+  );
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase
+    .from("notification_deliveries")
+    .upsert(rows, { onConflict: "notification_id,channel_id", ignoreDuplicates: true });
+  if (error) throw error;
+  return rows.length;
+}
+
+// Take pending deliveries for this runner; returns the ones it got, as other runners may
+// have claimed some first. While claimed, next_attempt_at is when the claim runs out.
+async function claimDeliveries(ids: number[]): Promise<NotificationDelivery[]> {
+  const { data, error } = await supabase
+    .from("notification_deliveries")
+    .update({ status: "sending", next_attempt_at: new Date(Date.now() + CLAIM_TIMEOUT_MS).toISOString() })
+    .in("id", ids)
+    .eq("status", "pending")
+    .select("*");
+  if (error) throw error;
+  return data || [];
+}
+
+// One request with a batch of claimed deliveries to one channel; records the outcome on
+// each of them and returns whether it went through
+async function attemptBatch(
+  channel: ConfiguredChannel,
+  batch: Array<{ delivery: NotificationDelivery; notification: Notification }>,
+  clubLabel: (clubTag: string | null) => string
+): Promise<boolean> {
+  const request = CHANNEL_ADAPTERS[channel.kind].format(batch.map((item) => item.notification), channel.config, clubLabel);
+  let lastError: string | null = null;
+  try {
+    const res = await fetch(request.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request.body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) lastError = `HTTP ${res.status}: ${(await res.text()).slice(0, MAX_ERROR_LENGTH)}`;
+  } catch (error) {
+    lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+  }
+  if (lastError) console.error(`${channel.kind} channel ${channel.name} error:`, lastError);
+
+  // Deliveries of one batch can have different attempt counts after earlier failures
+  const idsByAttempts = new Map<number, number[]>();
+  for (const { delivery } of batch) {
+    const attempts = delivery.attempts + 1;
+    idsByAttempts.set(attempts, [...(idsByAttempts.get(attempts) || []), delivery.id]);
+  }
+  const now = new Date();
+  for (const [attempts, ids] of idsByAttempts) {
+    const update = lastError
+      ? {
+          attempts,
+          last_error: lastError,
+          status: attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+          next_attempt_at: attempts >= MAX_ATTEMPTS ? null : new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString(),
+        }
+      : { attempts, last_error: null, status: "delivered", next_attempt_at: null, delivered_at: now.toISOString() };
+    const { error } = await supabase
+      .from("notification_deliveries")
+      .update(update)
+      .in("id", ids);
+    if (error) throw error;
+  }
+  return !lastError;
+}
+
+// Send pending deliveries that are due (new ones and retries whose backoff has passed),
+// oldest first, in as few requests as each channel's batch size allows
+export async function runDueNotificationDeliveries(limit = RUN_BATCH_SIZE): Promise<{ attempted: number; delivered: number }> {
+  const now = new Date().toISOString();
+
+  // Claims left behind by a runner that died mid-request
+  const { error: releaseError } = await supabase
+    .from("notification_deliveries")
+    .update({ status: "pending" })
+    .eq("status", "sending")
+    .lt("next_attempt_at", now);
+  if (releaseError) throw releaseError;
+
+  const { data: due, error } = await supabase
+    .from("notification_deliveries")
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now)
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  if (!due?.length) return { attempted: 0, delivered: 0 };
+
+  const { data: channels, error: channelsError } = await supabase
+    .from("notification_channels")
+    .select("*")
+    .in("id", [...new Set(due.map((d) => d.channel_id))])
+    .eq("enabled", true);
+  if (channelsError) throw channelsError;
+  const channelsById = new Map<number, ConfiguredChannel>();
+  for (const channel of channels || []) {
+    const configuredChannel = toConfiguredChannel(channel);
+    if (configuredChannel) channelsById.set(channel.id, configuredChannel);
+  }
+
+  // Paused or invalid channels keep their pending deliveries until they are usable again
+  const sendable = due.filter((delivery) => channelsById.has(delivery.channel_id));
+  if (sendable.length === 0) return { attempted: 0, delivered: 0 };
+  const claimed = await claimDeliveries(sendable.map((d) => d.id));
+  if (claimed.length === 0) return { attempted: 0, delivered: 0 };
+
+  const { data: notifications, error: notificationsError } = await supabase
+    .from("notifications")
+    .select("*")
+    .in("id", [...new Set(claimed.map((d) => d.notification_id))]);
+  if (notificationsError) throw notificationsError;
+  const notificationsById = new Map((notifications || []).map((n) => [n.id, n]));
+
+  const { data: clubs } = await supabase.from("clubs").select("club_tag, club_name");
+  const clubNames = new Map((clubs || []).map((c) => [c.club_tag, c.club_name]));
+  const clubLabel = (clubTag: string | null) => (clubTag && clubNames.get(clubTag)) || clubTag || "";
+
+  // Oldest notification first within each channel, split into the adapter's batch size
+  const batches: Array<{ channel: ConfiguredChannel; items: Array<{ delivery: NotificationDelivery; notification: Notification }> }> = [];
+  for (const channel of channelsById.values()) {
+    const items = claimed
+      .filter((delivery) => delivery.channel_id === channel.id && notificationsById.has(delivery.notification_id))
+      .map((delivery) => ({ delivery, notification: notificationsById.get(delivery.notification_id)! }))
+      .sort((a, b) => a.notification.created_at.localeCompare(b.notification.created_at));
+    const { batchSize } = CHANNEL_ADAPTERS[channel.kind];
+    for (let i = 0; i < items.length; i += batchSize) {
+      batches.push({ channel, items: items.slice(i, i + batchSize) });
+    }
+  }
+
+  let attempted = 0;
+  let delivered = 0;
+  await forEachWithConcurrency(batches, SEND_CONCURRENCY, async ({ channel, items }) => {
+    try {
+      attempted += items.length;
+      if (await attemptBatch(channel, items, clubLabel)) delivered += items.length;
+    } catch (error) {
+      console.error(`Error sending notifications to ${channel.kind} channel ${channel.name}:`, error);
+    }
+  });
+  if (attempted > 0) console.log(`Sent ${attempted} notification deliveries (${delivered} delivered)`);
+  return { attempted, delivered };
+}
@@ -0,0 +1,93 @@
+// Notification rule conditions: what each one checks, what it needs configured and the
+// message it produces. Shared by the sync (evaluation) and the settings page (editing).
+
+import { getRankTierIndex, RANK_THRESHOLDS } from "./ranked";
+import type { NotificationRule } from "@/types/database";
+
+export type RuleCondition = "trophies_above" | "rank_tier" | "inactive_days" | "win_streak" | "below_required";
+
+// "external" sends to whatever channels the "rule" notification type is routed to
+export type RuleChannel = "panel" | "external";
+
+export const RULE_CHANNELS: RuleChannel[] = ["panel", "external"];
+
+export const RULE_CONDITIONS: Record<RuleCondition, { label: string; thresholdLabel: string | null; needsTier: boolean }> = {
+  trophies_above: { label: "Trophy threshold crossed", thresholdLabel: "Trophies", needsTier: false },
+  rank_tier: { label: "Ranked tier reached", thresholdLabel: null, needsTier: true },
+  inactive_days: { label: "Inactive for N days", thresholdLabel: "Days", needsTier: false },
+  win_streak: { label: "Win streak of at least", thresholdLabel: "Wins", needsTier: false },
+  below_required: { label: "Below the club's required trophies", thresholdLabel: null, needsTier: false },
+};
+
+// Ranked tiers from the bottom up, for the tier picker
+export const RANK_TIERS = RANK_THRESHOLDS.map(([, name]) => name).reverse();
+
+// What the evaluation knows about a member at the end of a sync
+export interface MemberFacts {
+  player_tag: string;
+  player_name: string;
+  trophies: number;
+  rank_current: string | null;
+  lastActiveAt: string | null;
+  winStreak: number;
+  requiredTrophies: number | null;
+}
+
+export function isRuleCondition(value: unknown): value is RuleCondition {
+  return typeof value === "string" && value in RULE_CONDITIONS;
+}
+
+// Why a rule can't be saved, or null when it is complete
+export function validateRule(rule: Partial<NotificationRule>): string | null {
+  if (!rule.name?.trim()) return "Name is required";
+  if (!isRuleCondition(rule.condition)) return "Unknown condition";
+  const meta = RULE_CONDITIONS[rule.condition];
+  if (meta.thresholdLabel && !(typeof rule.threshold === "number" && rule.threshold > 0)) {
+    return `${meta.thresholdLabel} must be a positive number`;
+  }
+  if (meta.needsTier && getRankTierIndex(rule.rank_tier) < 0) return "Pick a ranked tier";
+  if (!rule.channels?.length || rule.channels.some((c) => !RULE_CHANNELS.includes(c as RuleChannel))) {
+    return "Pick at least one channel";
+  }
+  if (rule.cooldown_hours != null && !(rule.cooldown_hours >= 0)) return "Cooldown can't be negative";
+  return null;
+}
+
+export function ruleMatches(rule: NotificationRule, facts: MemberFacts, now = Date.now()): boolean {
+  const threshold = rule.threshold ?? 0;
+  switch (rule.condition as RuleCondition) {
+    case "trophies_above":
+      return facts.trophies >= threshold;
+    case "rank_tier": {
+      const target = getRankTierIndex(rule.rank_tier);
+      return target >= 0 && getRankTierIndex(facts.rank_current) >= target;
+    }
+    case "inactive_days":
+      // No known activity at all is not evidence of inactivity
+      return !!facts.lastActiveAt && now - new Date(facts.lastActiveAt).getTime() >= threshold * 24 * 60 * 60 * 1000;
+    case "win_streak":
+      return facts.winStreak >= threshold;
+    case "below_required":
+      return facts.requiredTrophies != null && facts.trophies < facts.requiredTrophies;
+    default:
+      return false;
+  }
+}
+
+export function describeRuleMatch(rule: NotificationRule, facts: MemberFacts): string {
+  const who = `${facts.player_name} (${facts.player_tag})`;
+  switch (rule.condition as RuleCondition) {
+    case "trophies_above":
+      return `${who} passed ${rule.threshold} trophies (now ${facts.trophies}).`;
+    case "rank_tier":
+      return `${who} reached ${facts.rank_current} in ranked.`;
+    case "inactive_days":
+      return `${who} has been inactive for ${rule.threshold}+ days.`;
+    case "win_streak":
+      return `${who} is on a ${facts.winStreak}-game win streak.`;
+    case "below_required":
+      return `${who} dropped below the required ${facts.requiredTrophies} trophies (now ${facts.trophies}).`;
+    default:
+      return `${who} matched ${rule.name}.`;
+  }
+}
@@ -0,0 +1,24 @@
+// Every notification type the sync produces, with a label for the channel routing
+// table. Shared by the sync and the settings page.
+
+export const NOTIFICATION_TYPES = {
+  join: "Member joined",
+  leave: "Member left",
+  transfer: "Member transferred",
+  inactive: "Inactive members",
+  promotion: "Promotion",
+  demotion: "Demotion",
+  role_change: "Role change",
+  name_change: "Name change",
+  rank_up: "Ranked up",
+  rank_down: "Ranked down",
+  club_settings: "Club settings changed",
+  milestone: "Milestone",
+  rule: "Notification rule",
+} as const;
+
+export type NotificationType = keyof typeof NOTIFICATION_TYPES;
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === "string" && value in NOTIFICATION_TYPES;
+}
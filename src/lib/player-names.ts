@@ -0,0 +1,58 @@
+import { supabase } from "./supabase";
+import type { PlayerName } from "@/types/database";
+
+// player_names holds every name seen for a tag with when it was first and last seen.
+// member_history and members only keep the latest name, so this is what alias search
+// and the profile's name list read.
+
+const TAG_CHUNK_SIZE = 200;
+
+// Mark names as seen now; a new (tag, name) pair starts its first_seen here
+export async function recordPlayerNames(
+  players: Array<{ player_tag: string; player_name: string }>,
+  seenAt: string
+): Promise<void> {
+  if (players.length === 0) return;
+  const { error } = await supabase
+    .from("player_names")
+    .upsert(
+      players.map((p) => ({ player_tag: p.player_tag, player_name: p.player_name, last_seen: seenAt })),
+      { onConflict: "player_tag,player_name" }
+    );
+  if (error) throw error;
+}
+
+// All names of one player, most recently seen first
+export async function getPlayerNames(playerTag: string): Promise<PlayerName[]> {
+  const { data, error } = await supabase
+    .from("player_names")
+    .select("*")
+    .eq("player_tag", playerTag)
+    .order("last_seen", { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+// Names per tag other than the one given as current, most recently seen first
+export async function getAliasesByTag(players: Array<{ player_tag: string; player_name: string }>): Promise<Map<string, string[]>> {
+  const currentByTag = new Map(players.map((p) => [p.player_tag, p.player_name]));
+  const tags = [...currentByTag.keys()];
+  const aliases = new Map<string, string[]>();
+
+  for (let i = 0; i < tags.length; i += TAG_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("player_names")
+      .select("player_tag, player_name, last_seen")
+      .in("player_tag", tags.slice(i, i + TAG_CHUNK_SIZE))
+      .order("last_seen", { ascending: false });
+    if (error) throw error;
+
+    for (const row of data || []) {
+      if (row.player_name === currentByTag.get(row.player_tag)) continue;
+      if (!aliases.has(row.player_tag)) aliases.set(row.player_tag, []);
+      aliases.get(row.player_tag)!.push(row.player_name);
+    }
+  }
+
+  return aliases;
+}
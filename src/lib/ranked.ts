@@ -0,0 +1,46 @@
+// Ranked tiers, shared by the sync (rank up/down detection) and the charts.
+
+// Official Brawl Stars Ranked ELO thresholds
+// Each entry: [minPoints, rankName]
+export const RANK_THRESHOLDS: [number, string][] = [
+  [11250, "Pro"],
+  [10250, "Masters III"],
+  [9250, "Masters II"],
+  [8250, "Masters I"],
+  [7500, "Legendary III"],
+  [6750, "Legendary II"],
+  [6000, "Legendary I"],
+  [5500, "Mythic III"],
+  [5000, "Mythic II"],
+  [4500, "Mythic I"],
+  [4000, "Diamond III"],
+  [3500, "Diamond II"],
+  [3000, "Diamond I"],
+  [2500, "Gold III"],
+  [2000, "Gold II"],
+  [1500, "Gold I"],
+  [1250, "Silver III"],
+  [1000, "Silver II"],
+  [750, "Silver I"],
+  [500, "Bronze III"],
+  [250, "Bronze II"],
+  [0, "Bronze I"],
+];
+
+export function formatLeagueRankFromPoints(points: number): string {
+  if (points < 0) return "Unranked";
+
+  for (const [minPoints, rankName] of RANK_THRESHOLDS) {
+    if (points >= minPoints) {
+      return rankName;
+    }
+  }
+
+  return "Unranked";
+}
+
+// Position of a tier from the bottom (Bronze I = 0), -1 for unranked/unknown
+export function getRankTierIndex(rankName: string | null | undefined): number {
+  const index = RANK_THRESHOLDS.findIndex(([, name]) => name === rankName);
+  return index === -1 ? -1 : RANK_THRESHOLDS.length - 1 - index;
+}
@@ -0,0 +1,94 @@
+// Token bucket shared by every request to one upstream. Tokens refill at
+// `requestsPerSecond` up to `burst`; a request waits until a token is free.
+// A 429 with Retry-After pauses the whole bucket, not just the request that got it.
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  burst?: number;
+}
+
+export interface RateLimiterMetrics {
+  name: string;
+  requestsPerSecond: number;
+  burst: number;
+  requests: number;
+  throttledRequests: number;
+  totalWaitMs: number;
+  rateLimited: number;
+  pausedUntil: string | null;
+}
+
+export interface RateLimiter {
+  acquire(): Promise<void>;
+  pauseFor(ms: number): void;
+  getMetrics(): RateLimiterMetrics;
+}
+
+export function createRateLimiter(name: string, options: RateLimiterOptions): RateLimiter {
+  const requestsPerSecond = Math.max(options.requestsPerSecond, 0.1);
+  const burst = Math.max(options.burst ?? Math.ceil(requestsPerSecond), 1);
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  // Waiters are served in order so a burst of callers can't starve an earlier one
+  let queue: Promise<void> = Promise.resolve();
+
+  const metrics = { requests: 0, throttledRequests: 0, totalWaitMs: 0, rateLimited: 0 };
+
+  function refill(now: number) {
+    tokens = Math.min(burst, tokens + ((now - lastRefill) / 1000) * requestsPerSecond);
+    lastRefill = now;
+  }
+
+  async function takeToken() {
+    const start = Date.now();
+    for (;;) {
+      const now = Date.now();
+      refill(now);
+      let waitMs = pausedUntil - now;
+      if (waitMs <= 0) {
+        if (tokens >= 1) break;
+        waitMs = Math.ceil(((1 - tokens) / requestsPerSecond) * 1000);
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+    tokens -= 1;
+    metrics.requests++;
+    const waited = Date.now() - start;
+    if (waited > 0) {
+      metrics.throttledRequests++;
+      metrics.totalWaitMs += waited;
+    }
+  }
+
+  return {
+    acquire() {
+      const turn = queue.then(takeToken);
+      queue = turn.catch(() => {});
+      return turn;
+    },
+    // Called on a 429: nobody sends to this upstream until the wait is over
+    pauseFor(ms: number) {
+      metrics.rateLimited++;
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+      tokens = 0;
+    },
+    getMetrics() {
+      return {
+        name,
+        requestsPerSecond,
+        burst,
+        ...metrics,
+        pausedUntil: pausedUntil > Date.now() ? new Date(pausedUntil).toISOString() : null,
+      };
+    },
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: unknown): number | null {
+  if (typeof header !== "string" || header.trim() === "") return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
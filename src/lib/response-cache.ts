@@ -0,0 +1,111 @@
+import { supabase } from "./supabase";
+
+// TTL cache in front of the upstream fetches. The memory tier lives as long as the
+// server instance; with API_CACHE_DB=true entries are also shared through the
+// api_cache table. Concurrent reads of the same key share one upstream request.
+export type CachedResource = "club" | "player" | "battlelog" | "ranked";
+
+export interface CacheReadOptions {
+  // Skip the cached copy and fetch (then store) a fresh one, e.g. during sync
+  refresh?: boolean;
+}
+
+type CacheEntry = { data: unknown; fetchedAt: number };
+
+const CACHE_TTL_MS = (parseInt(process.env.API_CACHE_TTL_SECONDS || "", 10) || 300) * 1000;
+const MAX_MEMORY_ENTRIES = 1000;
+const useDbTier = process.env.API_CACHE_DB === "true";
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+function cacheKey(resource: CachedResource, tag: string) {
+  return `${resource}:${tag.replace("#", "").toUpperCase()}`;
+}
+
+function remember(key: string, entry: CacheEntry) {
+  // Map keeps insertion order: re-insert so the oldest entries are evicted first
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  if (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+async function readDbTier(key: string): Promise<CacheEntry | null> {
+  const { data, error } = await supabase
+    .from("api_cache")
+    .select("data, fetched_at")
+    .eq("cache_key", key)
+    .gte("fetched_at", new Date(Date.now() - CACHE_TTL_MS).toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error reading API cache:", error);
+    return null;
+  }
+  return data ? { data: data.data, fetchedAt: new Date(data.fetched_at).getTime() } : null;
+}
+
+async function writeDbTier(key: string, entry: CacheEntry) {
+  const { error } = await supabase
+    .from("api_cache")
+    .upsert({ cache_key: key, data: entry.data, fetched_at: new Date(entry.fetchedAt).toISOString() }, { onConflict: "cache_key" });
+
+  if (error) console.error("Error writing API cache:", error);
+}
+
+export async function readThrough<T>(
+  resource: CachedResource,
+  tag: string,
+  fetcher: () => Promise<T>,
+  options: CacheReadOptions = {}
+): Promise<T> {
+  const key = cacheKey(resource, tag);
+
+  if (!options.refresh) {
+    const cached = memoryCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.data as T;
+
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+  }
+
+  const request = (async () => {
+    if (!options.refresh && useDbTier) {
+      const stored = await readDbTier(key);
+      if (stored) {
+        remember(key, stored);
+        return stored.data as T;
+      }
+    }
+
+    const data = await fetcher();
+    const entry = { data, fetchedAt: Date.now() };
+    remember(key, entry);
+    if (useDbTier) await writeDbTier(key, entry);
+    return data;
+  })();
+
+  inFlight.set(key, request);
+  try {
+    return await request;
+  } finally {
+    if (inFlight.get(key) === request) inFlight.delete(key);
+  }
+}
+
+export interface CacheAge {
+  fetchedAt: string | null;
+  ageSeconds: number | null;
+}
+
+// When the cached copy of a resource was fetched upstream (nulls if never)
+export function getCacheAge(resource: CachedResource, tag: string): CacheAge {
+  const entry = memoryCache.get(cacheKey(resource, tag));
+  if (!entry) return { fetchedAt: null, ageSeconds: null };
+  return {
+    fetchedAt: new Date(entry.fetchedAt).toISOString(),
+    ageSeconds: Math.floor((Date.now() - entry.fetchedAt) / 1000),
+  };
+}
@@ -0,0 +1,282 @@
+import { supabase } from "./supabase";
+import type { BattleHistory, DailyStats, MonthlyBrawlerStats, MonthlyStats } from "@/types/database";
+
+// How long raw rows are kept, per table (days, overridable with retention_days:<table>
+// settings). Before daily_stats and battle_history rows are purged they are added to
+// the monthly_stats / monthly_brawler_stats rollups, so long ranges stay available.
+// A rollup_watermark:<table> setting records up to where rows have been rolled up.
+interface RetentionTable {
+  table: string;
+  column: string;
+  label: string;
+  defaultDays: number;
+  // DATE column: compare against YYYY-MM-DD instead of a timestamp
+  dateOnly?: boolean;
+  // SQL function (schema.sql) that rolls rows up and moves the watermark in one transaction
+  rollup?: string;
+}
+
+export interface RetentionTarget {
+  table: string;
+  column: string;
+  label: string;
+  days: number;
+  defaultDays: number;
+  cutoff: string;
+  rolledUp: boolean;
+}
+
+const ROLLUP_PAGE_SIZE = 1000;
+const MIN_RETENTION_DAYS = 1;
+
+const RETENTION_TABLES: RetentionTable[] = [
+  { table: "battle_history", column: "battle_time", label: "Battle log", defaultDays: 30, rollup: "rollup_battle_history" },
+  { table: "daily_stats", column: "date", label: "Daily stats", defaultDays: 30, dateOnly: true, rollup: "rollup_daily_stats" },
+  { table: "matches", column: "battle_time", label: "Matches", defaultDays: 30 },
+  { table: "brawler_snapshots", column: "recorded_at", label: "Brawler snapshots", defaultDays: 30, dateOnly: true },
+  { table: "ranked_snapshots", column: "recorded_at", label: "Ranked points", defaultDays: 365 },
+  { table: "club_snapshots", column: "recorded_at", label: "Club history", defaultDays: 365 },
+  { table: "member_changes", column: "changed_at", label: "Member changes", defaultDays: 365 },
+  { table: "notification_deliveries", column: "created_at", label: "Notification deliveries", defaultDays: 30 },
+  { table: "webhook_deliveries", column: "created_at", label: "Webhook deliveries", defaultDays: 30 },
+  { table: "sync_jobs", column: "started_at", label: "Sync jobs", defaultDays: 30 },
+  { table: "sync_runs", column: "started_at", label: "Sync history", defaultDays: 30 },
+  { table: "api_cache", column: "fetched_at", label: "API response cache", defaultDays: 7 },
+];
+
+export function isRetentionTable(table: string): boolean {
+  return RETENTION_TABLES.some((t) => t.table === table);
+}
+
+// Current retention days and purge cutoff for every table
+export async function getRetentionPolicy(): Promise<RetentionTarget[]> {
+  const { data: settings } = await supabase
+    .from("settings")
+    .select("key, value")
+    .like("key", "retention_days:%");
+
+  const configured = new Map<string, number>();
+  for (const setting of settings || []) {
+    const days = parseInt(setting.value, 10);
+    if (days >= MIN_RETENTION_DAYS) configured.set(setting.key.slice("retention_days:".length), days);
+  }
+
+  return RETENTION_TABLES.map((t) => {
+    const days = configured.get(t.table) ?? t.defaultDays;
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
+    const cutoffISO = cutoffDate.toISOString();
+    return {
+      table: t.table,
+      column: t.column,
+      label: t.label,
+      days,
+      defaultDays: t.defaultDays,
+      cutoff: t.dateOnly ? cutoffISO.slice(0, 10) : cutoffISO,
+      rolledUp: !!t.rollup,
+    };
+  });
+}
+
+// Everything before the watermark is already in the rollup (null: nothing rolled up yet)
+export async function getRollupWatermark(table: string): Promise<string | null> {
+  const { data } = await supabase
+    .from("settings")
+    .select("value")
+    .eq("key", `rollup_watermark:${table}`)
+    .maybeSingle();
+
+  return data?.value || null;
+}
+
+// Roll up, then delete rows older than each table's cutoff
+export async function applyRetention(): Promise<void> {
+  const policy = await getRetentionPolicy();
+
+  for (const target of policy) {
+    const config = RETENTION_TABLES.find((t) => t.table === target.table)!;
+    if (config.rollup) {
+      const watermark = await getRollupWatermark(target.table);
+      // A raised retention moves the cutoff back: those rows were rolled up already
+      if (!watermark || target.cutoff > watermark) {
+        const { data: rolledUp, error } = await supabase.rpc(config.rollup, { p_from: watermark, p_to: target.cutoff });
+        // Never purge rows that didn't make it into the rollup
+        if (error) {
+          console.error(`Error rolling up ${target.table}, skipping its purge:`, error);
+          continue;
+        }
+        if (rolledUp === null) {
+          console.log(`${target.table} rollup watermark moved during this run, skipping its purge`);
+          continue;
+        }
+        if (rolledUp > 0) console.log(`Rolled up ${target.table} into ${rolledUp} monthly rows`);
+      }
+    }
+
+    const { error, count } = await supabase
+      .from(target.table)
+      .delete({ count: "exact" })
+      .lt(target.column, target.cutoff);
+    if (error) console.error(`Error purging old ${target.table}:`, error);
+    else if (count && count > 0) console.log(`Purged ${count} ${target.table} rows older than ${target.days} days`);
+  }
+}
+
+// Rows of a table with from <= column < to, across as many pages as needed
+export async function fetchRowsBetween<T>(table: string, column: string, columns: string, from: string | null, to: string): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += ROLLUP_PAGE_SIZE) {
+    let query = supabase.from(table).select(columns).lt(column, to);
+    if (from) query = query.gte(column, from);
+    const { data, error } = await query
+      .order(column, { ascending: true })
+      .range(offset, offset + ROLLUP_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < ROLLUP_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function toMonth(date: string) {
+  return `${date.slice(0, 7)}-01`;
+}
+
+type MonthlyTotals = Omit<MonthlyStats, "id">;
+type MonthlyBrawlerTotals = Omit<MonthlyBrawlerStats, "id">;
+type DailyStatsRow = Omit<DailyStats, "id">;
+type BattleRow = Pick<BattleHistory, "player_tag" | "club_tag" | "battle_time" | "result" | "is_star_player" | "trophy_change" | "brawler_name">;
+
+// daily_stats rows summed per player and month (key: player|month)
+function aggregateDailyStats(rows: DailyStatsRow[]): Map<string, MonthlyTotals> {
+  const totals = new Map<string, MonthlyTotals>();
+  for (const row of rows) {
+    const month = toMonth(row.date);
+    const key = `${row.player_tag}|${month}`;
+    const total = totals.get(key) || {
+      player_tag: row.player_tag,
+      club_tag: row.club_tag ?? null,
+      month,
+      battles: 0,
+      wins: 0,
+      losses: 0,
+      star_player: 0,
+      trophies_gained: 0,
+      trophies_lost: 0,
+      active_days: 0,
+    };
+    total.club_tag = row.club_tag ?? total.club_tag;
+    total.battles += row.battles || 0;
+    total.wins += row.wins || 0;
+    total.losses += row.losses || 0;
+    total.star_player += row.star_player || 0;
+    total.trophies_gained += row.trophies_gained || 0;
+    total.trophies_lost += row.trophies_lost || 0;
+    if ((row.battles || 0) > 0) total.active_days++;
+    totals.set(key, total);
+  }
+  return totals;
+}
+
+// battle_history rows counted per player, month and brawler (key: player|month|brawler)
+function aggregateBattles(rows: BattleRow[]): Map<string, MonthlyBrawlerTotals> {
+  const totals = new Map<string, MonthlyBrawlerTotals>();
+  for (const row of rows) {
+    const month = toMonth(row.battle_time);
+    const brawlerName = row.brawler_name || "Unknown";
+    const key = `${row.player_tag}|${month}|${brawlerName}`;
+    const total = totals.get(key) || {
+      player_tag: row.player_tag,
+      club_tag: row.club_tag ?? null,
+      month,
+      brawler_name: brawlerName,
+      battles: 0,
+      wins: 0,
+      losses: 0,
+      star_player: 0,
+      trophy_change: 0,
+    };
+    total.club_tag = row.club_tag ?? total.club_tag;
+    total.battles++;
+    if (row.result === "victory") total.wins++;
+    if (row.result === "defeat") total.losses++;
+    if (row.is_star_player) total.star_player++;
+    total.trophy_change += row.trophy_change || 0;
+    totals.set(key, total);
+  }
+  return totals;
+}
+
+export type MonthlyHistoryEntry = MonthlyTotals & { brawlers: MonthlyBrawlerTotals[] };
+
+// A player's stats per month, newest first: rolled-up months plus the raw rows
+// that are still inside the retention window
+export async function getMonthlyHistory(playerTag: string, months = 12): Promise<MonthlyHistoryEntry[]> {
+  const [dailyWatermark, battleWatermark] = await Promise.all([
+    getRollupWatermark("daily_stats"),
+    getRollupWatermark("battle_history"),
+  ]);
+
+  let rawDailyQuery = supabase
+    .from("daily_stats")
+    .select("player_tag, club_tag, date, battles, wins, losses, star_player, trophies_gained, trophies_lost")
+    .eq("player_tag", playerTag);
+  if (dailyWatermark) rawDailyQuery = rawDailyQuery.gte("date", dailyWatermark);
+
+  let rawBattleQuery = supabase
+    .from("battle_history")
+    .select("player_tag, club_tag, battle_time, result, is_star_player, trophy_change, brawler_name")
+    .eq("player_tag", playerTag)
+    .order("battle_time", { ascending: false })
+    .limit(5000);
+  if (battleWatermark) rawBattleQuery = rawBattleQuery.gte("battle_time", battleWatermark);
+
+  const [monthlyRes, monthlyBrawlerRes, rawDailyRes, rawBattleRes] = await Promise.all([
+    supabase.from("monthly_stats").select("*").eq("player_tag", playerTag).order("month", { ascending: false }).limit(months),
+    supabase.from("monthly_brawler_stats").select("*").eq("player_tag", playerTag).order("month", { ascending: false }).limit(months * 50),
+    rawDailyQuery,
+    rawBattleQuery,
+  ]);
+
+  const byMonth = new Map<string, MonthlyHistoryEntry>();
+  const addMonth = (total: MonthlyTotals) => {
+    const entry = byMonth.get(total.month);
+    if (!entry) {
+      byMonth.set(total.month, { ...total, brawlers: [] });
+      return;
+    }
+    entry.battles += total.battles;
+    entry.wins += total.wins;
+    entry.losses += total.losses;
+    entry.star_player += total.star_player;
+    entry.trophies_gained += total.trophies_gained;
+    entry.trophies_lost += total.trophies_lost;
+    entry.active_days += total.active_days;
+  };
+  for (const row of monthlyRes.data || []) addMonth(row);
+  for (const total of aggregateDailyStats(rawDailyRes.data || []).values()) addMonth(total);
+
+  const brawlerTotals = new Map<string, MonthlyBrawlerTotals>();
+  for (const row of [...(monthlyBrawlerRes.data || []), ...aggregateBattles(rawBattleRes.data || []).values()]) {
+    const key = `${row.month}|${row.brawler_name}`;
+    const total = brawlerTotals.get(key);
+    if (!total) {
+      brawlerTotals.set(key, { ...row });
+      continue;
+    }
+    total.battles += row.battles;
+    total.wins += row.wins;
+    total.losses += row.losses;
+    total.star_player += row.star_player;
+    total.trophy_change += row.trophy_change;
+  }
+  for (const total of brawlerTotals.values()) {
+    byMonth.get(total.month)?.brawlers.push(total);
+  }
+
+  return [...byMonth.values()]
+    .sort((a, b) => b.month.localeCompare(a.month))
+    .slice(0, months)
+    .map((entry) => ({ ...entry, brawlers: entry.brawlers.sort((a, b) => b.battles - a.battles) }));
+}
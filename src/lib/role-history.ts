@@ -0,0 +1,76 @@
+import { supabase } from "./supabase";
+import { normalizeRole } from "./utils";
+import type { RolePeriod } from "@/types/database";
+
+// role_history keeps every role period of a player in a club: it opens when the sync
+// first sees a role and closes when the role changes or the player leaves. Unlike the
+// promotion/demotion notifications it is never purged.
+
+const TAG_CHUNK_SIZE = 200;
+
+// Open a period for every member whose role has no open period or a different one,
+// closing the previous period at the same moment
+export async function recordRolePeriods(
+  clubTag: string,
+  members: Array<{ player_tag: string; role: string }>,
+  at: string
+): Promise<void> {
+  if (members.length === 0) return;
+
+  const { data: open, error } = await supabase
+    .from("role_history")
+    .select("id, player_tag, role")
+    .eq("club_tag", clubTag)
+    .is("ended_at", null)
+    .in("player_tag", members.map((m) => m.player_tag));
+  if (error) throw error;
+
+  const openByTag = new Map((open || []).map((p) => [p.player_tag, p]));
+  const toClose: number[] = [];
+  const toOpen: Array<Omit<RolePeriod, "id" | "ended_at">> = [];
+  for (const member of members) {
+    if (!member.role) continue;
+    const current = openByTag.get(member.player_tag);
+    if (current && normalizeRole(current.role) === normalizeRole(member.role)) continue;
+    if (current) toClose.push(current.id);
+    toOpen.push({ club_tag: clubTag, player_tag: member.player_tag, role: member.role, started_at: at });
+  }
+
+  if (toClose.length > 0) {
+    const { error: closeError } = await supabase.from("role_history").update({ ended_at: at }).in("id", toClose);
+    if (closeError) throw closeError;
+  }
+  if (toOpen.length > 0) {
+    const { error: openError } = await supabase.from("role_history").insert(toOpen);
+    if (openError) throw openError;
+  }
+}
+
+// End the open periods of players who left the club
+export async function closeRolePeriods(clubTag: string, playerTags: string[], at: string): Promise<void> {
+  if (playerTags.length === 0) return;
+  const { error } = await supabase
+    .from("role_history")
+    .update({ ended_at: at })
+    .eq("club_tag", clubTag)
+    .is("ended_at", null)
+    .in("player_tag", playerTags);
+  if (error) throw error;
+}
+
+// Role periods of the given players, newest first, optionally in one club
+export async function getRoleHistory(playerTags: string[], clubTag?: string | null): Promise<RolePeriod[]> {
+  const periods: RolePeriod[] = [];
+  for (let i = 0; i < playerTags.length; i += TAG_CHUNK_SIZE) {
+    let query = supabase
+      .from("role_history")
+      .select("*")
+      .in("player_tag", playerTags.slice(i, i + TAG_CHUNK_SIZE))
+      .order("started_at", { ascending: false });
+    if (clubTag) query = query.eq("club_tag", clubTag);
+    const { data, error } = await query;
+    if (error) throw error;
+    periods.push(...(data || []));
+  }
+  return periods;
+}
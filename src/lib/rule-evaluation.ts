@@ -0,0 +1,233 @@
+import { supabase } from "./supabase";
+import { getCurrentMemberTags } from "./clubs";
+import { describeRuleMatch, MemberFacts, RuleCondition, ruleMatches } from "./notification-rules";
+import type { NotificationRule, NotificationRuleState } from "@/types/database";
+
+// Evaluates the notification rules for one club after a sync. A rule fires for a player
+// when its condition goes from false to true and the rule's cooldown has passed since it
+// last fired for them. The first evaluation of a rule for a player only records whether
+// they match, so a new rule (or a new member) doesn't fire for what is already true.
+// The state is saved separately, once the firings' notifications are stored, so a failed
+// sync evaluates the same firings again.
+
+export interface RuleFiring {
+  rule: NotificationRule;
+  facts: MemberFacts;
+  message: string;
+}
+
+type RuleStateUpdate = Omit<NotificationRuleState, "updated_at"> & { updated_at: string };
+
+export interface RuleEvaluation {
+  firings: RuleFiring[];
+  stateUpdates: RuleStateUpdate[];
+}
+
+// What a dry run would have written for the club: the member rows as the sync would
+// store them and the battles it fetched. Rules are evaluated against these instead of
+// the tables, which a dry run leaves as the last real sync wrote them.
+export interface RulePreview {
+  members: Array<Pick<MemberFacts, "player_tag" | "player_name" | "trophies" | "rank_current"> & { trophyChanged: boolean }>;
+  battles: RecentBattle[];
+}
+
+const MIN_STREAK_DEPTH = 25;
+// How far back battles are read. Longer inactive_days rules widen it, so a battle that
+// ends their inactivity is still seen.
+const MIN_BATTLE_LOOKBACK_DAYS = 30;
+
+// Enabled rules that apply to the club (rules without a club apply to every club)
+export async function getClubRules(clubTag: string): Promise<NotificationRule[]> {
+  const { data, error } = await supabase
+    .from("notification_rules")
+    .select("*")
+    .eq("enabled", true)
+    .or(`club_tag.is.null,club_tag.eq.${clubTag}`);
+  if (error) throw error;
+  return data || [];
+}
+
+const PAGE_SIZE = 1000;
+
+type RecentBattle = { player_tag: string; battle_time: string; result: string | null };
+
+// Each player's newest battles since the lookback, up to depth and ending at their first
+// non-victory (all a streak needs), read for the whole roster at once, page by page until
+// every player is done or the lookback is exhausted
+async function loadRecentBattles(tags: string[], depth: number, since: string): Promise<Map<string, RecentBattle[]>> {
+  const battlesByPlayer = new Map<string, RecentBattle[]>(tags.map((tag) => [tag, []]));
+  const pending = new Set(tags);
+
+  for (let offset = 0; pending.size > 0; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("battle_history")
+      .select("player_tag, battle_time, result")
+      .in("player_tag", tags)
+      .gte("battle_time", since)
+      .order("battle_time", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const battle of data || []) {
+      if (!pending.has(battle.player_tag)) continue;
+      const battles = battlesByPlayer.get(battle.player_tag)!;
+      battles.push(battle);
+      if (battle.result !== "victory" || battles.length >= depth) pending.delete(battle.player_tag);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return battlesByPlayer;
+}
+
+// Last sync that saw a trophy change, for players without stored battles
+async function loadLastTrophyChanges(tags: string[]): Promise<Map<string, string>> {
+  const lastChange = new Map<string, string>();
+  if (tags.length === 0) return lastChange;
+
+  for (let offset = 0; lastChange.size < tags.length; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("activity_log")
+      .select("player_tag, recorded_at")
+      .in("player_tag", tags)
+      .neq("trophy_change", 0)
+      .order("recorded_at", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const activity of data || []) {
+      if (!lastChange.has(activity.player_tag)) lastChange.set(activity.player_tag, activity.recorded_at);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return lastChange;
+}
+
+// Stored battles plus the ones a dry run fetched, newest first per player
+function mergePreviewBattles(battlesByPlayer: Map<string, RecentBattle[]>, previewBattles: RecentBattle[]) {
+  for (const [tag, stored] of battlesByPlayer) {
+    const fetched = previewBattles.filter((b) => b.player_tag === tag);
+    if (fetched.length === 0) continue;
+    const times = new Set(stored.map((b) => b.battle_time));
+    battlesByPlayer.set(tag, [...stored, ...fetched.filter((b) => !times.has(b.battle_time))]
+      .sort((a, b) => b.battle_time.localeCompare(a.battle_time)));
+  }
+}
+
+async function loadMemberFacts(
+  clubTag: string,
+  requiredTrophies: number | null,
+  streakDepth: number,
+  battlesSince: string,
+  preview?: RulePreview
+): Promise<MemberFacts[]> {
+  const tags = preview ? preview.members.map((m) => m.player_tag) : await getCurrentMemberTags(clubTag);
+  if (tags.length === 0) return [];
+
+  const [{ data: storedMembers, error }, battlesByPlayer] = await Promise.all([
+    preview
+      ? { data: preview.members, error: null }
+      : supabase
+        .from("members")
+        .select("player_tag, player_name, trophies, rank_current")
+        .in("player_tag", tags),
+    loadRecentBattles(tags, streakDepth, battlesSince),
+  ]);
+  if (error) throw error;
+  const members = storedMembers || [];
+  if (preview) mergePreviewBattles(battlesByPlayer, preview.battles);
+
+  // A trophy change seen by the dry run is activity right now
+  const now = new Date().toISOString();
+  const lastTrophyChanges = await loadLastTrophyChanges(
+    tags.filter((tag) => battlesByPlayer.get(tag)!.length === 0)
+  );
+  for (const member of preview?.members || []) {
+    if (member.trophyChanged) lastTrophyChanges.set(member.player_tag, now);
+  }
+
+  return members.map((member) => {
+    const battles = battlesByPlayer.get(member.player_tag) || [];
+    const firstLoss = battles.findIndex((b) => b.result !== "victory");
+
+    return {
+      player_tag: member.player_tag,
+      player_name: member.player_name,
+      trophies: member.trophies || 0,
+      rank_current: member.rank_current,
+      lastActiveAt: battles[0]?.battle_time ?? lastTrophyChanges.get(member.player_tag) ?? null,
+      winStreak: firstLoss === -1 ? battles.length : firstLoss,
+      requiredTrophies,
+    };
+  });
+}
+
+export async function evaluateNotificationRules(
+  clubTag: string,
+  requiredTrophies: number | null,
+  preview?: RulePreview
+): Promise<RuleEvaluation> {
+  const rules = await getClubRules(clubTag);
+  if (rules.length === 0) return { firings: [], stateUpdates: [] };
+
+  const streakDepth = Math.max(
+    MIN_STREAK_DEPTH,
+    ...rules.filter((r) => (r.condition as RuleCondition) === "win_streak").map((r) => r.threshold || 0)
+  );
+  const lookbackDays = Math.max(
+    MIN_BATTLE_LOOKBACK_DAYS,
+    ...rules.filter((r) => (r.condition as RuleCondition) === "inactive_days").map((r) => (r.threshold || 0) + 1)
+  );
+  const battlesSince = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+  const members = await loadMemberFacts(clubTag, requiredTrophies, streakDepth, battlesSince, preview);
+  if (members.length === 0) return { firings: [], stateUpdates: [] };
+
+  const { data: stateRows, error } = await supabase
+    .from("notification_rule_state")
+    .select("*")
+    .in("rule_id", rules.map((r) => r.id))
+    .in("player_tag", members.map((m) => m.player_tag));
+  if (error) throw error;
+  const stateByKey = new Map(
+    ((stateRows || []) as NotificationRuleState[]).map((s) => [`${s.rule_id}|${s.player_tag}`, s])
+  );
+
+  const now = new Date();
+  const firings: RuleFiring[] = [];
+  const stateUpdates: RuleStateUpdate[] = [];
+
+  for (const rule of rules) {
+    for (const facts of members) {
+      const matched = ruleMatches(rule, facts, now.getTime());
+      const previous = stateByKey.get(`${rule.id}|${facts.player_tag}`);
+      let lastFiredAt = previous?.last_fired_at ?? null;
+
+      if (previous && matched && !previous.matched) {
+        const cooldownMs = (rule.cooldown_hours ?? 0) * 60 * 60 * 1000;
+        if (!lastFiredAt || now.getTime() - new Date(lastFiredAt).getTime() >= cooldownMs) {
+          firings.push({ rule, facts, message: describeRuleMatch(rule, facts) });
+          lastFiredAt = now.toISOString();
+        }
+      }
+
+      if (!previous || previous.matched !== matched || lastFiredAt !== (previous.last_fired_at ?? null)) {
+        stateUpdates.push({
+          rule_id: rule.id,
+          player_tag: facts.player_tag,
+          matched,
+          last_fired_at: lastFiredAt,
+          updated_at: now.toISOString(),
+        });
+      }
+    }
+  }
+
+  return { firings, stateUpdates };
+}
+
+export async function saveRuleState(stateUpdates: RuleStateUpdate[]) {
+  if (stateUpdates.length === 0) return;
+  const { error } = await supabase
+    .from("notification_rule_state")
+    .upsert(stateUpdates, { onConflict: "rule_id,player_tag" });
+  if (error) throw error;
+}
@@ -1,11 +1,21 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "./timezone";
+
+export interface ClubSummary {
+  club_tag: string;
+  club_name: string | null;
+  required_trophies: number | null;
+  member_count: number;
+}
 
 interface AppState {
   // Club info
   clubTag: string;
   clubName: string;
   apiKey: string;
+  clubs: ClubSummary[];
+  activeClubTag: string; // "" = all registered clubs
   
   // UI State
   lastSyncTime: string | null;
@@ -19,8 +29,8 @@ interface AppState {
   inactivityThreshold: number; // hours
   refreshInterval: number; // minutes
   notificationsEnabled: boolean;
-  discordWebhook: string;
   requiredTrophies: number | null;
+  timezone: string; // IANA name; daily stats, streaks and calendars use this day boundary
   
   // Actions
   setClubTag: (tag: string) => void;
@@ -35,8 +45,10 @@ interface AppState {
   setInactivityThreshold: (hours: number) => void;
   setRefreshInterval: (minutes: number) => void;
   setNotificationsEnabled: (enabled: boolean) => void;
-  setDiscordWebhook: (webhook: string) => void;
   setRequiredTrophies: (trophies: number | null) => void;
+  setTimezone: (timezone: string) => void;
+  setActiveClubTag: (tag: string) => void;
+  loadClubs: () => Promise<void>;
   loadSettingsFromDB: () => Promise<void>;
   saveSettingsToDB: () => Promise<void>;
 }
@@ -48,6 +60,8 @@ export const useAppStore = create<AppState>()(
       clubTag: "",
       clubName: "",
       apiKey: "",
+      clubs: [],
+      activeClubTag: "",
       lastSyncTime: null,
       isSyncing: false,
       isLoadingSettings: true,
@@ -57,8 +71,8 @@ export const useAppStore = create<AppState>()(
       inactivityThreshold: 24,
       refreshInterval: 60, // 1 hour
       notificationsEnabled: true,
-      discordWebhook: "",
       requiredTrophies: null,
+      timezone: DEFAULT_TIMEZONE,
       
       // Actions
       setClubTag: (tag) => set({ clubTag: tag }),
@@ -73,8 +87,37 @@ export const useAppStore = create<AppState>()(
       setInactivityThreshold: (hours) => set({ inactivityThreshold: hours }),
       setRefreshInterval: (minutes) => set({ refreshInterval: minutes }),
       setNotificationsEnabled: (enabled) => set({ notificationsEnabled: enabled }),
-      setDiscordWebhook: (webhook) => set({ discordWebhook: webhook }),
       setRequiredTrophies: (trophies) => set({ requiredTrophies: trophies }),
+      setTimezone: (timezone) => set({ timezone }),
+      setActiveClubTag: (tag) => {
+        const club = get().clubs.find((c) => c.club_tag === tag);
+        set({
+          activeClubTag: tag,
+          requiredTrophies: club ? club.required_trophies : get().requiredTrophies,
+        });
+      },
+
+      // Load the club registry (used by the sidebar switcher)
+      loadClubs: async () => {
+        try {
+          const response = await fetch("/api/clubs");
+          if (response.ok) {
+            const data = await response.json();
+            const clubs: ClubSummary[] = data.clubs || [];
+            const activeClubTag = clubs.some((c) => c.club_tag === get().activeClubTag)
+              ? get().activeClubTag
+              : "";
+            const scopedClub = clubs.find((c) => c.club_tag === (activeClubTag || get().clubTag));
+            set({
+              clubs,
+              activeClubTag,
+              requiredTrophies: scopedClub ? scopedClub.required_trophies : get().requiredTrophies,
+            });
+          }
+        } catch (error) {
+          console.error("Failed to load clubs:", error);
+        }
+      },
       
       // Load settings from database (only once)
       loadSettingsFromDB: async () => {
@@ -94,9 +137,9 @@ export const useAppStore = create<AppState>()(
               inactivityThreshold: settings.inactivity_threshold ? parseInt(settings.inactivity_threshold) : get().inactivityThreshold,
               refreshInterval: settings.refresh_interval ? parseInt(settings.refresh_interval) : get().refreshInterval,
               notificationsEnabled: settings.notifications_enabled === "true",
-              discordWebhook: settings.discord_webhook || get().discordWebhook || "",
               requiredTrophies: settings.required_trophies ? parseInt(settings.required_trophies) : get().requiredTrophies,
               lastSyncTime: settings.last_sync_time || get().lastSyncTime,
+              timezone: isValidTimeZone(settings.club_timezone) ? settings.club_timezone : get().timezone,
             });
           }
         } catch (error) {
@@ -117,7 +160,7 @@ export const useAppStore = create<AppState>()(
             inactivity_threshold: String(state.inactivityThreshold),
             refresh_interval: String(state.refreshInterval),
             notifications_enabled: String(state.notificationsEnabled),
-            discord_webhook: state.discordWebhook,
+            club_timezone: state.timezone,
             last_sync_time: state.lastSyncTime || "",
           };
 
@@ -141,6 +184,7 @@ export const useAppStore = create<AppState>()(
         theme: state.theme,
         sidebarOpen: state.sidebarOpen,
         lastSyncTime: state.lastSyncTime,
+        activeClubTag: state.activeClubTag,
       }),
     }
   )
@@ -0,0 +1,52 @@
+// Sync runs as a resumable job: each POST /api/sync processes as many member
+// slices as fit in one invocation and answers 202 until the job has finished.
+// While another caller (e.g. the cron) holds the sync lease we get a 409 and retry.
+const MAX_SYNC_REQUESTS = 50;
+const BUSY_RETRY_DELAY_MS = 2000;
+
+type SyncMemberChange = {
+  playerTag: string;
+  playerName: string;
+  clubTag: string;
+  fromClubTag?: string | null;
+};
+
+// The parts of a /api/sync answer the client reads (202, 409, error or final summary)
+export interface SyncResponse {
+  success?: boolean;
+  done?: boolean;
+  error?: string;
+  message?: string;
+  jobId?: number | null;
+  changes?: {
+    joins: SyncMemberChange[];
+    leaves: SyncMemberChange[];
+    transfers: SyncMemberChange[];
+  };
+}
+
+export async function runSync(body: Record<string, unknown>) {
+  let response: Response | null = null;
+  let data: SyncResponse = {};
+  // By default attach to a sync that is already running instead of starting another
+  const onBusy = body.onBusy ?? "attach";
+  let jobStarted = false;
+
+  for (let attempt = 0; attempt < MAX_SYNC_REQUESTS; attempt++) {
+    response = await fetch("/api/sync", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      // Only the first accepted request may start a new job; the rest resume it
+      body: JSON.stringify(jobStarted ? { apiKey: body.apiKey, onBusy } : { ...body, onBusy }),
+    });
+    data = await response.json();
+    if (response.status === 409) {
+      await new Promise((resolve) => setTimeout(resolve, BUSY_RETRY_DELAY_MS));
+      continue;
+    }
+    jobStarted = true;
+    if (!response.ok || data.done !== false) break;
+  }
+
+  return { response: response as Response, data };
+}
@@ -0,0 +1,90 @@
+import { supabase } from "./supabase";
+
+// A single DB-stored lease guards the sync job so cron, the Sync button and the
+// setup wizard never work on it at the same time. The holder renews the lease
+// after each slice; a lease left behind by a crashed invocation simply expires.
+const LOCK_NAME = "sync";
+export const SYNC_LEASE_TTL_MS = 60 * 1000;
+const LEASE_POLL_INTERVAL_MS = 1000;
+
+export type SyncBusyMode = "reject" | "wait" | "attach";
+
+export function parseSyncBusyMode(value: unknown): SyncBusyMode {
+  return value === "wait" || value === "attach" ? value : "reject";
+}
+
+// Take the lease if nobody holds it, or steal it if the current lease has expired
+export async function acquireSyncLease(holder: string): Promise<boolean> {
+  const now = new Date();
+  const lease = {
+    holder,
+    acquired_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + SYNC_LEASE_TTL_MS).toISOString(),
+  };
+
+  const { error: insertError } = await supabase
+    .from("sync_lock")
+    .insert({ name: LOCK_NAME, ...lease });
+
+  if (!insertError) return true;
+  // 23505 = unique violation: someone holds (or held) the lease
+  if (insertError.code !== "23505") throw insertError;
+
+  // Conditional update: only one caller can win a stale lease
+  const { data: stolen, error } = await supabase
+    .from("sync_lock")
+    .update(lease)
+    .eq("name", LOCK_NAME)
+    .lt("expires_at", now.toISOString())
+    .select("holder");
+
+  if (error) throw error;
+  if (stolen && stolen.length > 0) {
+    console.log("Took over an expired sync lease");
+    return true;
+  }
+  return false;
+}
+
+// Poll until the lease can be taken or the timeout passes
+export async function waitForSyncLease(holder: string, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, LEASE_POLL_INTERVAL_MS));
+    if (await acquireSyncLease(holder)) return true;
+  }
+  return false;
+}
+
+// Extend our lease; false means it expired and was taken over by another caller
+export async function renewSyncLease(holder: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("sync_lock")
+    .update({ expires_at: new Date(Date.now() + SYNC_LEASE_TTL_MS).toISOString() })
+    .eq("name", LOCK_NAME)
+    .eq("holder", holder)
+    .select("holder");
+
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+export async function releaseSyncLease(holder: string): Promise<void> {
+  const { error } = await supabase
+    .from("sync_lock")
+    .delete()
+    .eq("name", LOCK_NAME)
+    .eq("holder", holder);
+
+  if (error) console.error("Error releasing sync lease:", error);
+}
+
+export async function getSyncLease(): Promise<{ holder: string; acquired_at: string; expires_at: string } | null> {
+  const { data } = await supabase
+    .from("sync_lock")
+    .select("holder, acquired_at, expires_at")
+    .eq("name", LOCK_NAME)
+    .maybeSingle();
+
+  return data;
+}
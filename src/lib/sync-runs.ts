@@ -0,0 +1,93 @@
+import { supabase } from "./supabase";
+import { ApiCallStats, createApiCallStats } from "./brawl-api";
+import { ClockSkewReading, mergeClockSkew } from "./clock-skew";
+
+export type SyncTrigger = "cron" | "manual" | "setup";
+
+export type SyncMemberFailure = {
+  club_tag: string;
+  player_tag: string;
+  player_name: string;
+  error: string;
+};
+
+// What a single invocation of a sync job contributed to its run
+export interface SyncInvocationTally {
+  membersSynced: number;
+  failures: SyncMemberFailure[];
+  // Battle clock skew seen per data source
+  clockSkew: Record<string, ClockSkewReading>;
+  // Requests made on behalf of the job (see countApiCalls)
+  apiCalls: ApiCallStats;
+}
+
+export function createInvocationTally(): SyncInvocationTally {
+  return { membersSynced: 0, failures: [], clockSkew: {}, apiCalls: createApiCallStats() };
+}
+
+// Open the ledger entry for a newly created sync job
+export async function startSyncRun(jobId: number, trigger: SyncTrigger): Promise<void> {
+  const { error } = await supabase
+    .from("sync_runs")
+    .insert({ job_id: jobId, trigger, status: "running" });
+
+  if (error) throw error;
+}
+
+// Add one invocation's member counts, API calls, 429 retries and clock skew to the job's run.
+// Without a status the run stays open (the job resumes on the next call).
+export async function recordSyncInvocation(
+  jobId: number,
+  tally: SyncInvocationTally,
+  outcome: { status?: "completed" | "failed"; error?: string | null } = {}
+): Promise<void> {
+  const { data: run, error: runError } = await supabase
+    .from("sync_runs")
+    .select("*")
+    .eq("job_id", jobId)
+    .maybeSingle();
+
+  if (runError) throw runError;
+  if (!run) return;
+
+  const stats = tally.apiCalls;
+  const clockSkew: Record<string, ClockSkewReading> = { ...(run.clock_skew || {}) };
+  for (const [source, reading] of Object.entries(tally.clockSkew)) {
+    clockSkew[source] = mergeClockSkew(clockSkew[source], reading);
+  }
+
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({
+      status: outcome.status ?? run.status,
+      error: outcome.error !== undefined ? outcome.error : run.error,
+      finished_at: outcome.status ? new Date().toISOString() : null,
+      invocations: run.invocations + 1,
+      members_synced: run.members_synced + tally.membersSynced,
+      members_skipped: run.members_skipped + tally.failures.length,
+      official_api_calls: run.official_api_calls + stats.officialCalls,
+      rnt_api_calls: run.rnt_api_calls + stats.rntCalls,
+      rate_limit_retries: run.rate_limit_retries + stats.rateLimitRetries,
+      clock_skew: Object.keys(clockSkew).length > 0 ? clockSkew : null,
+    })
+    .eq("id", run.id);
+
+  if (error) throw error;
+
+  if (tally.failures.length > 0) {
+    const { error: failuresError } = await supabase
+      .from("sync_run_failures")
+      .insert(tally.failures.map((f) => ({ ...f, run_id: run.id })));
+    if (failuresError) console.error("Error storing sync failures:", failuresError);
+  }
+}
+
+// Close runs whose job will never finish (superseded or expired)
+export async function closeOpenSyncRuns(reason: string): Promise<void> {
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({ status: "failed", error: reason, finished_at: new Date().toISOString() })
+    .eq("status", "running");
+
+  if (error) console.error("Error closing open sync runs:", error);
+}
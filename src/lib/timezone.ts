@@ -0,0 +1,91 @@
+// Calendar days in the club's timezone (club_timezone setting, IANA name).
+// daily_stats, streaks, the activity calendar, weekly reports and the battle
+// feed date filter all bucket by these days instead of UTC dates.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant in the given timezone
+function getZonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+// How far the timezone is ahead of UTC at that instant (ms, DST aware)
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Club-local calendar day (YYYY-MM-DD) of an instant
+export function toZonedDate(date: Date | string, timeZone: string): string {
+  const p = getZonedParts(new Date(date), timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+// Today's date in the club timezone
+export function getZonedToday(timeZone: string, now = new Date()): string {
+  return toZonedDate(now, timeZone);
+}
+
+// YYYY-MM-DD plus/minus whole days (pure calendar arithmetic, no timezone involved)
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Whole days from one YYYY-MM-DD to another
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// UTC instant at which a club-local day starts
+export function getZonedDayStart(date: string, timeZone: string): Date {
+  const midnightUTC = Date.parse(`${date}T00:00:00Z`);
+  let start = midnightUTC - getTimeZoneOffsetMs(new Date(midnightUTC), timeZone);
+  // The offset can differ at the real start of the day (DST change in between)
+  start = midnightUTC - getTimeZoneOffsetMs(new Date(start), timeZone);
+  return new Date(start);
+}
+
+// [start, end) UTC instants covering a club-local day
+export function getZonedDayRange(date: string, timeZone: string): { start: string; end: string } {
+  return {
+    start: getZonedDayStart(date, timeZone).toISOString(),
+    end: getZonedDayStart(addDays(date, 1), timeZone).toISOString(),
+  };
+}
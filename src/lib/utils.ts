@@ -13,15 +13,23 @@ export function encodeTag(tag: string): string {
   return encodeURIComponent(formatTag(tag));
 }
 
+// Append the ?club= scope used by the API routes ("" = all clubs)
+export function withClubScope(path: string, clubTag: string | null | undefined): string {
+  if (!clubTag) return path;
+  const separator = path.includes("?") ? "&" : "?";
+  return `${path}${separator}club=${encodeURIComponent(clubTag)}`;
+}
+
 export function formatNumber(num: number): string {
   return new Intl.NumberFormat().format(num);
 }
 
-export function formatDate(date: Date | string): string {
+export function formatDate(date: Date | string, timeZone?: string): string {
   return new Date(date).toLocaleDateString("en-US", {
     year: "numeric",
     month: "short",
     day: "numeric",
+    timeZone,
   });
 }
 
@@ -35,6 +43,23 @@ export function formatDateTime(date: Date | string): string {
   });
 }
 
+// "vicePresident", "Vice President" and "vice_president" are the same role
+export function normalizeRole(role: string | null | undefined): string {
+  return (role || "").toLowerCase().replace(/[\s_-]/g, "");
+}
+
+// Compact length of a period, e.g. "1y 3mo", "2mo 5d", "12d", "6h"
+export function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  const days = Math.floor(hours / 24);
+  if (days < 1) return `${Math.max(hours, 0)}h`;
+  if (days < 30) return `${days}d`;
+  const months = Math.floor(days / 30);
+  if (months < 12) return days % 30 ? `${months}mo ${days % 30}d` : `${months}mo`;
+  const years = Math.floor(months / 12);
+  return months % 12 ? `${years}y ${months % 12}mo` : `${years}y`;
+}
+
 export function getActivityEmoji(status: "active" | "minimal" | "inactive"): string {
   switch (status) {
     case "active":
@@ -0,0 +1,39 @@
+// Events sent to webhook subscriptions and how their requests are signed. Shared by the
+// sender and the settings page.
+
+export type WebhookEvent = "join" | "leave" | "transfer" | "role_change" | "milestone" | "sync_completed";
+
+export const WEBHOOK_EVENTS: Record<WebhookEvent, string> = {
+  join: "Member joined",
+  leave: "Member left",
+  transfer: "Member transferred",
+  role_change: "Role changed",
+  milestone: "Milestone reached",
+  sync_completed: "Sync completed",
+};
+
+// Hex HMAC-SHA256 of the raw request body, keyed with the subscription secret
+export const SIGNATURE_HEADER = "X-Brawl-Signature";
+export const EVENT_HEADER = "X-Brawl-Event";
+export const DELIVERY_HEADER = "X-Brawl-Delivery";
+
+export type WebhookDeliveryStatus = "pending" | "sending" | "delivered" | "failed";
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && value in WEBHOOK_EVENTS;
+}
+
+// Why a subscription can't be saved, or null when it is complete
+export function validateWebhookSubscription(subscription: {
+  name?: string | null;
+  url?: string | null;
+  secret?: string | null;
+  events?: unknown;
+}): string | null {
+  if (!subscription.name?.trim()) return "Name is required";
+  if (!subscription.url || !/^https?:\/\/\S+$/.test(subscription.url)) return "URL must be http(s)";
+  if (subscription.secret != null && subscription.secret.length < 16) return "Secret must be at least 16 characters";
+  if (!Array.isArray(subscription.events) || subscription.events.length === 0) return "Pick at least one event";
+  if (!subscription.events.every(isWebhookEvent)) return "Unknown event";
+  return null;
+}
@@ -9,6 +9,29 @@ export type Json =
 export interface Database {
   public: {
     Tables: {
+      clubs: {
+        Row: {
+          club_tag: string;
+          club_name: string | null;
+          required_trophies: number | null;
+          sort_order: number;
+          added_at: string;
+        };
+        Insert: {
+          club_tag: string;
+          club_name?: string | null;
+          required_trophies?: number | null;
+          sort_order?: number;
+          added_at?: string;
+        };
+        Update: {
+          club_tag?: string;
+          club_name?: string | null;
+          required_trophies?: number | null;
+          sort_order?: number;
+          added_at?: string;
+        };
+      };
       members: {
         Row: {
           player_tag: string;
@@ -27,6 +50,7 @@ export interface Database {
           trio_victories: number;
           is_active: boolean;
           last_updated: string;
+          club_tag: string | null;
         };
         Insert: {
           player_tag: string;
@@ -45,6 +69,7 @@ export interface Database {
           trio_victories?: number;
           is_active?: boolean;
           last_updated?: string;
+          club_tag?: string | null;
         };
         Update: {
           player_tag?: string;
@@ -63,6 +88,7 @@ export interface Database {
           trio_victories?: number;
           is_active?: boolean;
           last_updated?: string;
+          club_tag?: string | null;
         };
       };
       activity_log: {
@@ -73,6 +99,7 @@ export interface Database {
           trophy_change: number;
           activity_type: string;
           recorded_at: string;
+          club_tag: string | null;
         };
         Insert: {
           id?: number;
@@ -81,6 +108,7 @@ export interface Database {
           trophy_change?: number;
           activity_type?: string;
           recorded_at?: string;
+          club_tag?: string | null;
         };
         Update: {
           id?: number;
@@ -89,6 +117,7 @@ export interface Database {
           trophy_change?: number;
           activity_type?: string;
           recorded_at?: string;
+          club_tag?: string | null;
         };
       };
       club_events: {
@@ -98,6 +127,9 @@ export interface Database {
           player_tag: string;
           player_name: string;
           event_time: string;
+          club_tag: string | null;
+          from_club_tag: string | null;
+          sync_job_id: number | null;
         };
         Insert: {
           id?: number;
@@ -105,6 +137,9 @@ export interface Database {
           player_tag: string;
           player_name: string;
           event_time?: string;
+          club_tag?: string | null;
+          from_club_tag?: string | null;
+          sync_job_id?: number | null;
         };
         Update: {
           id?: number;
@@ -112,6 +147,9 @@ export interface Database {
           player_tag?: string;
           player_name?: string;
           event_time?: string;
+          club_tag?: string | null;
+          from_club_tag?: string | null;
+          sync_job_id?: number | null;
         };
       };
       member_history: {
@@ -127,6 +165,7 @@ export interface Database {
           role_at_leave: string | null;
           trophies_at_leave: number | null;
           notes: string | null;
+          club_tag: string;
         };
         Insert: {
           player_tag: string;
@@ -140,6 +179,7 @@ export interface Database {
           role_at_leave?: string | null;
           trophies_at_leave?: number | null;
           notes?: string | null;
+          club_tag: string;
         };
         Update: {
           player_tag?: string;
@@ -153,6 +193,7 @@ export interface Database {
           role_at_leave?: string | null;
           trophies_at_leave?: number | null;
           notes?: string | null;
+          club_tag?: string;
         };
       };
       settings: {
@@ -184,6 +225,10 @@ export interface Database {
           brawler_trophies: number | null;
           teams_json: Json | null;
           recorded_at: string;
+          club_tag: string | null;
+          data_source: string | null;
+          clock_offset_ms: number;
+          time_suspect: boolean;
         };
         Insert: {
           id?: number;
@@ -199,6 +244,10 @@ export interface Database {
           brawler_trophies?: number | null;
           teams_json?: Json | null;
           recorded_at?: string;
+          club_tag?: string | null;
+          data_source?: string | null;
+          clock_offset_ms?: number;
+          time_suspect?: boolean;
         };
         Update: {
           id?: number;
@@ -214,6 +263,10 @@ export interface Database {
           brawler_trophies?: number | null;
           teams_json?: Json | null;
           recorded_at?: string;
+          club_tag?: string | null;
+          data_source?: string | null;
+          clock_offset_ms?: number;
+          time_suspect?: boolean;
         };
       };
       player_tracking: {
@@ -283,6 +336,7 @@ export interface Database {
           star_player: number;
           trophies_gained: number;
           trophies_lost: number;
+          club_tag: string | null;
         };
         Insert: {
           id?: number;
@@ -294,6 +348,7 @@ export interface Database {
           star_player?: number;
           trophies_gained?: number;
           trophies_lost?: number;
+          club_tag?: string | null;
         };
         Update: {
           id?: number;
@@ -305,6 +360,7 @@ export interface Database {
           star_player?: number;
           trophies_gained?: number;
           trophies_lost?: number;
+          club_tag?: string | null;
         };
       };
       brawler_snapshots: {
@@ -319,6 +375,10 @@ export interface Database {
           gadgets_count: number;
           star_powers_count: number;
           gears_count: number;
+          gadgets: Json | null;
+          star_powers: Json | null;
+          gears: Json | null;
+          hypercharges: Json | null;
           recorded_at: string;
         };
         Insert: {
@@ -332,6 +392,10 @@ export interface Database {
           gadgets_count?: number;
           star_powers_count?: number;
           gears_count?: number;
+          gadgets?: Json | null;
+          star_powers?: Json | null;
+          gears?: Json | null;
+          hypercharges?: Json | null;
           recorded_at?: string;
         };
         Update: {
@@ -345,6 +409,10 @@ export interface Database {
           gadgets_count?: number;
           star_powers_count?: number;
           gears_count?: number;
+          gadgets?: Json | null;
+          star_powers?: Json | null;
+          gears?: Json | null;
+          hypercharges?: Json | null;
           recorded_at?: string;
         };
       };
@@ -359,6 +427,8 @@ export interface Database {
           dedupe_key: string;
           is_read: boolean;
           created_at: string;
+          club_tag: string | null;
+          show_in_panel: boolean;
         };
         Insert: {
           id?: number;
@@ -370,6 +440,8 @@ export interface Database {
           dedupe_key: string;
           is_read?: boolean;
           created_at?: string;
+          club_tag?: string | null;
+          show_in_panel?: boolean;
         };
         Update: {
           id?: number;
@@ -381,6 +453,744 @@ export interface Database {
           dedupe_key?: string;
           is_read?: boolean;
           created_at?: string;
+          club_tag?: string | null;
+          show_in_panel?: boolean;
+        };
+      };
+      sync_jobs: {
+        Row: {
+          id: number;
+          status: string;
+          is_initial_setup: boolean;
+          rosters: Json;
+          club_index: number;
+          member_cursor: number;
+          processed_members: number;
+          total_members: number;
+          state: Json;
+          error: string | null;
+          started_at: string;
+          updated_at: string;
+          completed_at: string | null;
+          summary: Json | null;
+        };
+        Insert: {
+          id?: number;
+          status?: string;
+          is_initial_setup?: boolean;
+          rosters: Json;
+          club_index?: number;
+          member_cursor?: number;
+          processed_members?: number;
+          total_members?: number;
+          state?: Json;
+          error?: string | null;
+          started_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+          summary?: Json | null;
+        };
+        Update: {
+          id?: number;
+          status?: string;
+          is_initial_setup?: boolean;
+          rosters?: Json;
+          club_index?: number;
+          member_cursor?: number;
+          processed_members?: number;
+          total_members?: number;
+          state?: Json;
+          error?: string | null;
+          started_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+          summary?: Json | null;
+        };
+      };
+      sync_runs: {
+        Row: {
+          id: number;
+          job_id: number | null;
+          trigger: string;
+          status: string;
+          invocations: number;
+          members_synced: number;
+          members_skipped: number;
+          official_api_calls: number;
+          rnt_api_calls: number;
+          rate_limit_retries: number;
+          clock_skew: Json | null;
+          error: string | null;
+          started_at: string;
+          finished_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          job_id?: number | null;
+          trigger: string;
+          status?: string;
+          invocations?: number;
+          members_synced?: number;
+          members_skipped?: number;
+          official_api_calls?: number;
+          rnt_api_calls?: number;
+          rate_limit_retries?: number;
+          clock_skew?: Json | null;
+          error?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          job_id?: number | null;
+          trigger?: string;
+          status?: string;
+          invocations?: number;
+          members_synced?: number;
+          members_skipped?: number;
+          official_api_calls?: number;
+          rnt_api_calls?: number;
+          rate_limit_retries?: number;
+          clock_skew?: Json | null;
+          error?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+        };
+      };
+      sync_run_failures: {
+        Row: {
+          id: number;
+          run_id: number;
+          club_tag: string | null;
+          player_tag: string;
+          player_name: string | null;
+          error: string;
+          occurred_at: string;
+        };
+        Insert: {
+          id?: number;
+          run_id: number;
+          club_tag?: string | null;
+          player_tag: string;
+          player_name?: string | null;
+          error: string;
+          occurred_at?: string;
+        };
+        Update: {
+          id?: number;
+          run_id?: number;
+          club_tag?: string | null;
+          player_tag?: string;
+          player_name?: string | null;
+          error?: string;
+          occurred_at?: string;
+        };
+      };
+      sync_lock: {
+        Row: {
+          name: string;
+          holder: string;
+          acquired_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          name: string;
+          holder: string;
+          acquired_at?: string;
+          expires_at: string;
+        };
+        Update: {
+          name?: string;
+          holder?: string;
+          acquired_at?: string;
+          expires_at?: string;
+        };
+      };
+      api_cache: {
+        Row: {
+          cache_key: string;
+          data: Json;
+          fetched_at: string;
+        };
+        Insert: {
+          cache_key: string;
+          data: Json;
+          fetched_at?: string;
+        };
+        Update: {
+          cache_key?: string;
+          data?: Json;
+          fetched_at?: string;
+        };
+      };
+      ranked_snapshots: {
+        Row: {
+          id: number;
+          player_tag: string;
+          club_tag: string | null;
+          current_points: number;
+          highest_points: number;
+          current_rank: string | null;
+          recorded_at: string;
+        };
+        Insert: {
+          id?: number;
+          player_tag: string;
+          club_tag?: string | null;
+          current_points?: number;
+          highest_points?: number;
+          current_rank?: string | null;
+          recorded_at?: string;
+        };
+        Update: {
+          id?: number;
+          player_tag?: string;
+          club_tag?: string | null;
+          current_points?: number;
+          highest_points?: number;
+          current_rank?: string | null;
+          recorded_at?: string;
+        };
+      };
+      monthly_stats: {
+        Row: {
+          id: number;
+          player_tag: string;
+          club_tag: string | null;
+          month: string;
+          battles: number;
+          wins: number;
+          losses: number;
+          star_player: number;
+          trophies_gained: number;
+          trophies_lost: number;
+          active_days: number;
+        };
+        Insert: {
+          id?: number;
+          player_tag: string;
+          club_tag?: string | null;
+          month: string;
+          battles?: number;
+          wins?: number;
+          losses?: number;
+          star_player?: number;
+          trophies_gained?: number;
+          trophies_lost?: number;
+          active_days?: number;
+        };
+        Update: {
+          id?: number;
+          player_tag?: string;
+          club_tag?: string | null;
+          month?: string;
+          battles?: number;
+          wins?: number;
+          losses?: number;
+          star_player?: number;
+          trophies_gained?: number;
+          trophies_lost?: number;
+          active_days?: number;
+        };
+      };
+      monthly_brawler_stats: {
+        Row: {
+          id: number;
+          player_tag: string;
+          club_tag: string | null;
+          month: string;
+          brawler_name: string;
+          battles: number;
+          wins: number;
+          losses: number;
+          star_player: number;
+          trophy_change: number;
+        };
+        Insert: {
+          id?: number;
+          player_tag: string;
+          club_tag?: string | null;
+          month: string;
+          brawler_name: string;
+          battles?: number;
+          wins?: number;
+          losses?: number;
+          star_player?: number;
+          trophy_change?: number;
+        };
+        Update: {
+          id?: number;
+          player_tag?: string;
+          club_tag?: string | null;
+          month?: string;
+          brawler_name?: string;
+          battles?: number;
+          wins?: number;
+          losses?: number;
+          star_player?: number;
+          trophy_change?: number;
+        };
+      };
+      matches: {
+        Row: {
+          id: number;
+          match_key: string;
+          battle_time: string;
+          mode: string | null;
+          map: string | null;
+          is_showdown: boolean;
+          teams: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          match_key: string;
+          battle_time: string;
+          mode?: string | null;
+          map?: string | null;
+          is_showdown?: boolean;
+          teams?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          match_key?: string;
+          battle_time?: string;
+          mode?: string | null;
+          map?: string | null;
+          is_showdown?: boolean;
+          teams?: Json | null;
+          created_at?: string;
+        };
+      };
+      match_participants: {
+        Row: {
+          id: number;
+          match_id: number;
+          player_tag: string;
+          club_tag: string | null;
+          team_index: number | null;
+          brawler_name: string | null;
+          brawler_power: number | null;
+          result: string | null;
+          trophy_change: number;
+          is_star_player: boolean;
+        };
+        Insert: {
+          id?: number;
+          match_id: number;
+          player_tag: string;
+          club_tag?: string | null;
+          team_index?: number | null;
+          brawler_name?: string | null;
+          brawler_power?: number | null;
+          result?: string | null;
+          trophy_change?: number;
+          is_star_player?: boolean;
+        };
+        Update: {
+          id?: number;
+          match_id?: number;
+          player_tag?: string;
+          club_tag?: string | null;
+          team_index?: number | null;
+          brawler_name?: string | null;
+          brawler_power?: number | null;
+          result?: string | null;
+          trophy_change?: number;
+          is_star_player?: boolean;
+        };
+      };
+      brawler_events: {
+        Row: {
+          id: number;
+          player_tag: string;
+          brawler_id: number;
+          brawler_name: string;
+          event_type: string;
+          from_value: number | null;
+          to_value: number;
+          item_name: string | null;
+          occurred_at: string;
+          recorded_at: string;
+        };
+        Insert: {
+          id?: number;
+          player_tag: string;
+          brawler_id: number;
+          brawler_name: string;
+          event_type: string;
+          from_value?: number | null;
+          to_value: number;
+          item_name?: string | null;
+          occurred_at: string;
+          recorded_at?: string;
+        };
+        Update: {
+          id?: number;
+          player_tag?: string;
+          brawler_id?: number;
+          brawler_name?: string;
+          event_type?: string;
+          from_value?: number | null;
+          to_value?: number;
+          item_name?: string | null;
+          occurred_at?: string;
+          recorded_at?: string;
+        };
+      };
+      club_snapshots: {
+        Row: {
+          id: number;
+          club_tag: string;
+          club_name: string | null;
+          description: string | null;
+          type: string | null;
+          badge_id: number | null;
+          required_trophies: number | null;
+          trophies: number;
+          member_count: number;
+          recorded_at: string;
+          sync_job_id: number | null;
+        };
+        Insert: {
+          id?: number;
+          club_tag: string;
+          club_name?: string | null;
+          description?: string | null;
+          type?: string | null;
+          badge_id?: number | null;
+          required_trophies?: number | null;
+          trophies?: number;
+          member_count?: number;
+          recorded_at?: string;
+          sync_job_id?: number | null;
+        };
+        Update: {
+          id?: number;
+          club_tag?: string;
+          club_name?: string | null;
+          description?: string | null;
+          type?: string | null;
+          badge_id?: number | null;
+          required_trophies?: number | null;
+          trophies?: number;
+          member_count?: number;
+          recorded_at?: string;
+          sync_job_id?: number | null;
+        };
+      };
+      member_changes: {
+        Row: {
+          id: number;
+          player_tag: string;
+          club_tag: string | null;
+          field: string;
+          old_value: string | null;
+          new_value: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: number;
+          player_tag: string;
+          club_tag?: string | null;
+          field: string;
+          old_value?: string | null;
+          new_value?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: number;
+          player_tag?: string;
+          club_tag?: string | null;
+          field?: string;
+          old_value?: string | null;
+          new_value?: string | null;
+          changed_at?: string;
+        };
+      };
+      player_names: {
+        Row: {
+          id: number;
+          player_tag: string;
+          player_name: string;
+          first_seen: string;
+          last_seen: string;
+        };
+        Insert: {
+          id?: number;
+          player_tag: string;
+          player_name: string;
+          first_seen?: string;
+          last_seen?: string;
+        };
+        Update: {
+          id?: number;
+          player_tag?: string;
+          player_name?: string;
+          first_seen?: string;
+          last_seen?: string;
+        };
+      };
+      role_history: {
+        Row: {
+          id: number;
+          club_tag: string;
+          player_tag: string;
+          role: string;
+          started_at: string;
+          ended_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          club_tag: string;
+          player_tag: string;
+          role: string;
+          started_at?: string;
+          ended_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          club_tag?: string;
+          player_tag?: string;
+          role?: string;
+          started_at?: string;
+          ended_at?: string | null;
+        };
+      };
+      notification_rules: {
+        Row: {
+          id: number;
+          name: string;
+          condition: string;
+          threshold: number | null;
+          rank_tier: string | null;
+          club_tag: string | null;
+          channels: string[];
+          cooldown_hours: number;
+          enabled: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          condition: string;
+          threshold?: number | null;
+          rank_tier?: string | null;
+          club_tag?: string | null;
+          channels?: string[];
+          cooldown_hours?: number;
+          enabled?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          condition?: string;
+          threshold?: number | null;
+          rank_tier?: string | null;
+          club_tag?: string | null;
+          channels?: string[];
+          cooldown_hours?: number;
+          enabled?: boolean;
+          created_at?: string;
+        };
+      };
+      notification_rule_state: {
+        Row: {
+          rule_id: number;
+          player_tag: string;
+          matched: boolean;
+          last_fired_at: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          rule_id: number;
+          player_tag: string;
+          matched?: boolean;
+          last_fired_at?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          rule_id?: number;
+          player_tag?: string;
+          matched?: boolean;
+          last_fired_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      milestones: {
+        Row: {
+          id: number;
+          player_tag: string;
+          milestone_key: string;
+          kind: string;
+          value: number;
+          achieved_at: string;
+        };
+        Insert: {
+          id?: number;
+          player_tag: string;
+          milestone_key: string;
+          kind: string;
+          value?: number;
+          achieved_at?: string;
+        };
+        Update: {
+          id?: number;
+          player_tag?: string;
+          milestone_key?: string;
+          kind?: string;
+          value?: number;
+          achieved_at?: string;
+        };
+      };
+      notification_channels: {
+        Row: {
+          id: number;
+          kind: string;
+          name: string;
+          config: Json;
+          enabled: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          kind: string;
+          name: string;
+          config?: Json;
+          enabled?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          kind?: string;
+          name?: string;
+          config?: Json;
+          enabled?: boolean;
+          created_at?: string;
+        };
+      };
+      notification_routes: {
+        Row: {
+          notification_type: string;
+          channel_id: number;
+        };
+        Insert: {
+          notification_type: string;
+          channel_id: number;
+        };
+        Update: {
+          notification_type?: string;
+          channel_id?: number;
+        };
+      };
+      notification_deliveries: {
+        Row: {
+          id: number;
+          notification_id: number;
+          channel_id: number;
+          status: string;
+          attempts: number;
+          last_error: string | null;
+          next_attempt_at: string | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          notification_id: number;
+          channel_id: number;
+          status?: string;
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          notification_id?: number;
+          channel_id?: number;
+          status?: string;
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+      };
+      webhook_subscriptions: {
+        Row: {
+          id: number;
+          name: string;
+          url: string;
+          secret: string;
+          events: string[];
+          enabled: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          url: string;
+          secret: string;
+          events?: string[];
+          enabled?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          url?: string;
+          secret?: string;
+          events?: string[];
+          enabled?: boolean;
+          created_at?: string;
+        };
+      };
+      webhook_deliveries: {
+        Row: {
+          id: number;
+          subscription_id: number;
+          event: string;
+          payload: Json;
+          status: string;
+          attempts: number;
+          response_status: number | null;
+          last_error: string | null;
+          next_attempt_at: string | null;
+          delivered_at: string | null;
+          redelivery_of: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          subscription_id: number;
+          event: string;
+          payload: Json;
+          status?: string;
+          attempts?: number;
+          response_status?: number | null;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          delivered_at?: string | null;
+          redelivery_of?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          subscription_id?: number;
+          event?: string;
+          payload?: Json;
+          status?: string;
+          attempts?: number;
+          response_status?: number | null;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          delivered_at?: string | null;
+          redelivery_of?: number | null;
+          created_at?: string;
         };
       };
     };
@@ -397,3 +1207,26 @@ export type PlayerTracking = Database["public"]["Tables"]["player_tracking"]["Ro
 export type DailyStats = Database["public"]["Tables"]["daily_stats"]["Row"];
 export type BrawlerSnapshot = Database["public"]["Tables"]["brawler_snapshots"]["Row"];
 export type Notification = Database["public"]["Tables"]["notifications"]["Row"];
+export type Club = Database["public"]["Tables"]["clubs"]["Row"];
+export type SyncJob = Database["public"]["Tables"]["sync_jobs"]["Row"];
+export type SyncRun = Database["public"]["Tables"]["sync_runs"]["Row"];
+export type SyncRunFailure = Database["public"]["Tables"]["sync_run_failures"]["Row"];
+export type ApiCacheEntry = Database["public"]["Tables"]["api_cache"]["Row"];
+export type RankedSnapshot = Database["public"]["Tables"]["ranked_snapshots"]["Row"];
+export type MonthlyStats = Database["public"]["Tables"]["monthly_stats"]["Row"];
+export type MonthlyBrawlerStats = Database["public"]["Tables"]["monthly_brawler_stats"]["Row"];
+export type Match = Database["public"]["Tables"]["matches"]["Row"];
+export type MatchParticipant = Database["public"]["Tables"]["match_participants"]["Row"];
+export type BrawlerEvent = Database["public"]["Tables"]["brawler_events"]["Row"];
+export type ClubSnapshot = Database["public"]["Tables"]["club_snapshots"]["Row"];
+export type MemberChange = Database["public"]["Tables"]["member_changes"]["Row"];
+export type PlayerName = Database["public"]["Tables"]["player_names"]["Row"];
+export type RolePeriod = Database["public"]["Tables"]["role_history"]["Row"];
+export type NotificationRule = Database["public"]["Tables"]["notification_rules"]["Row"];
+export type NotificationRuleState = Database["public"]["Tables"]["notification_rule_state"]["Row"];
+export type MilestoneRecord = Database["public"]["Tables"]["milestones"]["Row"];
+export type NotificationChannelRecord = Database["public"]["Tables"]["notification_channels"]["Row"];
+export type NotificationRoute = Database["public"]["Tables"]["notification_routes"]["Row"];
+export type NotificationDelivery = Database["public"]["Tables"]["notification_deliveries"]["Row"];
+export type WebhookSubscription = Database["public"]["Tables"]["webhook_subscriptions"]["Row"];
+export type WebhookDelivery = Database["public"]["Tables"]["webhook_deliveries"]["Row"];
@@ -169,7 +169,7 @@ CREATE TABLE IF NOT EXISTS player_tracking (
   best_streak INT DEFAULT 0,
   peak_day_battles INT DEFAULT 0,
   last_battle_date DATE,
-  -- Brawler tracking
+  -- Brawler tracking (no longer written; totals are summed from brawler_events)
   power_ups INT DEFAULT 0,
   unlocks INT DEFAULT 0,
   -- Tracking info
@@ -231,7 +231,7 @@ $$ LANGUAGE plpgsql;
 
 CREATE TABLE IF NOT EXISTS notifications (
   id SERIAL PRIMARY KEY,
-  type VARCHAR(30) NOT NULL,            -- join, leave, inactive, sync_error, milestone
+  type VARCHAR(30) NOT NULL,            -- join, leave, transfer, inactive, promotion, demotion, rule, ...
   title VARCHAR(100) NOT NULL,
   message TEXT NOT NULL,
   player_tag VARCHAR(20),               -- optional, related player
@@ -271,3 +271,670 @@ BEGIN
   WHERE created_at < NOW() - INTERVAL '90 days';
 END;
 $$ LANGUAGE plpgsql;
+
+-- =============================================
+-- MULTI-CLUB SUPPORT
+-- =============================================
+
+-- Registry of tracked clubs (sister clubs in the same alliance)
+CREATE TABLE IF NOT EXISTS clubs (
+  club_tag VARCHAR(20) PRIMARY KEY,
+  club_name VARCHAR(50),
+  required_trophies INT,
+  sort_order INT DEFAULT 0,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Seed the registry from the legacy single-club setting, normalized like
+-- normalizeClubTag (uppercase, one leading '#')
+INSERT INTO clubs (club_tag, club_name)
+SELECT '#' || LTRIM(UPPER(TRIM(s.value)), '#'), (SELECT value FROM settings WHERE key = 'club_name')
+FROM settings s
+WHERE s.key = 'club_tag' AND TRIM(s.value) <> ''
+ON CONFLICT (club_tag) DO NOTHING;
+
+-- Migration: Scope club data by club_tag
+DO $$
+DECLARE
+  legacy_club_tag VARCHAR(20) := COALESCE(
+    (SELECT '#' || LTRIM(UPPER(TRIM(value)), '#') FROM settings WHERE key = 'club_tag' AND TRIM(value) <> ''),
+    ''
+  );
+  scoped_table TEXT;
+BEGIN
+  FOREACH scoped_table IN ARRAY ARRAY['members', 'activity_log', 'club_events', 'member_history', 'battle_history', 'daily_stats', 'notifications']
+  LOOP
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = scoped_table AND column_name = 'club_tag') THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN club_tag VARCHAR(20)', scoped_table);
+      EXECUTE format('UPDATE %I SET club_tag = %L WHERE club_tag IS NULL', scoped_table, legacy_club_tag);
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'club_events' AND column_name = 'from_club_tag') THEN
+    ALTER TABLE club_events ADD COLUMN from_club_tag VARCHAR(20);
+  END IF;
+
+  -- Member history is kept per club, so a player can have a record in each sister club
+  IF EXISTS (
+    SELECT 1 FROM information_schema.key_column_usage
+    WHERE table_name = 'member_history' AND constraint_name = 'member_history_pkey' AND column_name = 'player_tag'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.key_column_usage
+    WHERE table_name = 'member_history' AND constraint_name = 'member_history_pkey' AND column_name = 'club_tag'
+  ) THEN
+    UPDATE member_history SET club_tag = legacy_club_tag WHERE club_tag IS NULL;
+    ALTER TABLE member_history ALTER COLUMN club_tag SET NOT NULL;
+    ALTER TABLE member_history DROP CONSTRAINT member_history_pkey;
+    ALTER TABLE member_history ADD PRIMARY KEY (club_tag, player_tag);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_members_club ON members(club_tag);
+CREATE INDEX IF NOT EXISTS idx_activity_log_club ON activity_log(club_tag, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_club_events_club ON club_events(club_tag, event_time DESC);
+CREATE INDEX IF NOT EXISTS idx_member_history_club ON member_history(club_tag, is_current_member);
+CREATE INDEX IF NOT EXISTS idx_battle_history_club ON battle_history(club_tag, battle_time DESC);
+CREATE INDEX IF NOT EXISTS idx_daily_stats_club ON daily_stats(club_tag, date DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_club ON notifications(club_tag, created_at DESC);
+
+-- =============================================
+-- SYNC JOBS (resumable, chunked sync)
+-- =============================================
+
+-- Each sync is a persisted job. An invocation processes slices of the rosters
+-- until its time budget runs out, saves the cursor and returns; the next call
+-- resumes from the cursor and finishes with the cross-member steps.
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id SERIAL PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, finalizing, completed, failed
+  is_initial_setup BOOLEAN DEFAULT false,
+  rosters JSONB NOT NULL,                         -- club rosters fetched when the job started
+  club_index INT NOT NULL DEFAULT 0,              -- cursor: roster being processed
+  member_cursor INT NOT NULL DEFAULT 0,           -- cursor: next member within that roster
+  processed_members INT NOT NULL DEFAULT 0,
+  total_members INT NOT NULL DEFAULT 0,
+  state JSONB NOT NULL DEFAULT '{}',              -- run-start snapshot and results carried between slices
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status, started_at DESC);
+
+-- =============================================
+-- SYNC RUN LEDGER
+-- =============================================
+
+-- One row per sync job: what triggered it, how it went and what it cost
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id SERIAL PRIMARY KEY,
+  job_id INT REFERENCES sync_jobs(id) ON DELETE SET NULL,
+  trigger VARCHAR(20) NOT NULL,                   -- cron, manual, setup
+  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, completed, failed
+  invocations INT NOT NULL DEFAULT 0,             -- function calls the job took to finish
+  members_synced INT NOT NULL DEFAULT 0,
+  members_skipped INT NOT NULL DEFAULT 0,
+  official_api_calls INT NOT NULL DEFAULT 0,
+  rnt_api_calls INT NOT NULL DEFAULT 0,
+  rate_limit_retries INT NOT NULL DEFAULT 0,      -- 429 retries
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Members whose stats could not be fetched during a run
+CREATE TABLE IF NOT EXISTS sync_run_failures (
+  id SERIAL PRIMARY KEY,
+  run_id INT NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+  club_tag VARCHAR(20),
+  player_tag VARCHAR(20) NOT NULL,
+  player_name VARCHAR(50),
+  error TEXT NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_job ON sync_runs(job_id);
+CREATE INDEX IF NOT EXISTS idx_sync_run_failures_run ON sync_run_failures(run_id);
+CREATE INDEX IF NOT EXISTS idx_sync_run_failures_player ON sync_run_failures(player_tag, occurred_at DESC);
+
+-- =============================================
+-- SYNC LOCK
+-- =============================================
+
+-- Lease held by the invocation currently working on the sync job. The holder
+-- renews it after each slice; an expired lease (crashed invocation) can be taken over.
+CREATE TABLE IF NOT EXISTS sync_lock (
+  name VARCHAR(20) PRIMARY KEY,
+  holder VARCHAR(64) NOT NULL,
+  acquired_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Final result of a completed job, returned to callers that attached to it
+ALTER TABLE sync_jobs
+ADD COLUMN IF NOT EXISTS summary JSONB;
+
+-- =============================================
+-- API RESPONSE CACHE
+-- =============================================
+
+-- Optional shared tier of the upstream response cache (API_CACHE_DB=true), so
+-- a sync's fetches are reused by page loads served from other instances
+CREATE TABLE IF NOT EXISTS api_cache (
+  cache_key VARCHAR(64) PRIMARY KEY,
+  data JSONB NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_cache_fetched ON api_cache(fetched_at);
+
+-- =============================================
+-- RANKED SNAPSHOTS
+-- =============================================
+
+-- Ranked points per member per sync (members only keeps the derived rank names)
+CREATE TABLE IF NOT EXISTS ranked_snapshots (
+  id SERIAL PRIMARY KEY,
+  player_tag VARCHAR(20) NOT NULL,
+  club_tag VARCHAR(20),
+  current_points INT NOT NULL DEFAULT 0,
+  highest_points INT NOT NULL DEFAULT 0,
+  current_rank VARCHAR(30),
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ranked_snapshots_player ON ranked_snapshots(player_tag, recorded_at DESC);
+
+-- =============================================
+-- RETENTION ROLLUPS
+-- =============================================
+
+-- Per-month totals of daily_stats, written before old daily rows are purged.
+-- Raw rows on/after the rollup_watermark:daily_stats setting are not included yet.
+CREATE TABLE IF NOT EXISTS monthly_stats (
+  id SERIAL PRIMARY KEY,
+  player_tag VARCHAR(20) NOT NULL,
+  club_tag VARCHAR(20),
+  month DATE NOT NULL, -- first day of the month
+  battles INT DEFAULT 0,
+  wins INT DEFAULT 0,
+  losses INT DEFAULT 0,
+  star_player INT DEFAULT 0,
+  trophies_gained INT DEFAULT 0,
+  trophies_lost INT DEFAULT 0,
+  active_days INT DEFAULT 0,
+  UNIQUE(player_tag, month)
+);
+
+-- Per-month, per-brawler totals of battle_history, written before old battles are purged
+CREATE TABLE IF NOT EXISTS monthly_brawler_stats (
+  id SERIAL PRIMARY KEY,
+  player_tag VARCHAR(20) NOT NULL,
+  club_tag VARCHAR(20),
+  month DATE NOT NULL,
+  brawler_name VARCHAR(50) NOT NULL,
+  battles INT DEFAULT 0,
+  wins INT DEFAULT 0,
+  losses INT DEFAULT 0,
+  star_player INT DEFAULT 0,
+  trophy_change INT DEFAULT 0,
+  UNIQUE(player_tag, month, brawler_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_monthly_stats_player ON monthly_stats(player_tag, month DESC);
+CREATE INDEX IF NOT EXISTS idx_monthly_brawler_stats_player ON monthly_brawler_stats(player_tag, month DESC);
+
+-- Each rollup is one transaction: rows with p_from <= time < p_to (p_from NULL: from
+-- the start) are added to the monthly table and the rollup_watermark:<table> setting
+-- moves to p_to together, so a failed run leaves both as they were and no range is
+-- added twice. Returns the number of monthly rows written, or NULL without touching
+-- anything when the watermark is no longer p_from (another run rolled it up first).
+CREATE OR REPLACE FUNCTION rollup_daily_stats(p_from TEXT, p_to TEXT)
+RETURNS INT AS $$
+DECLARE
+  rolled INT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('rollup_watermark:daily_stats'));
+  IF (SELECT value FROM settings WHERE key = 'rollup_watermark:daily_stats') IS DISTINCT FROM p_from THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO monthly_stats AS m (player_tag, club_tag, month, battles, wins, losses, star_player, trophies_gained, trophies_lost, active_days)
+  SELECT
+    player_tag,
+    (ARRAY_AGG(club_tag ORDER BY date DESC) FILTER (WHERE club_tag IS NOT NULL))[1],
+    DATE_TRUNC('month', date)::DATE,
+    SUM(COALESCE(battles, 0)),
+    SUM(COALESCE(wins, 0)),
+    SUM(COALESCE(losses, 0)),
+    SUM(COALESCE(star_player, 0)),
+    SUM(COALESCE(trophies_gained, 0)),
+    SUM(COALESCE(trophies_lost, 0)),
+    COUNT(*) FILTER (WHERE battles > 0)
+  FROM daily_stats
+  WHERE date < p_to::DATE AND (p_from IS NULL OR date >= p_from::DATE)
+  GROUP BY player_tag, DATE_TRUNC('month', date)
+  ON CONFLICT (player_tag, month) DO UPDATE SET
+    club_tag = COALESCE(EXCLUDED.club_tag, m.club_tag),
+    battles = COALESCE(m.battles, 0) + EXCLUDED.battles,
+    wins = COALESCE(m.wins, 0) + EXCLUDED.wins,
+    losses = COALESCE(m.losses, 0) + EXCLUDED.losses,
+    star_player = COALESCE(m.star_player, 0) + EXCLUDED.star_player,
+    trophies_gained = COALESCE(m.trophies_gained, 0) + EXCLUDED.trophies_gained,
+    trophies_lost = COALESCE(m.trophies_lost, 0) + EXCLUDED.trophies_lost,
+    active_days = COALESCE(m.active_days, 0) + EXCLUDED.active_days;
+  GET DIAGNOSTICS rolled = ROW_COUNT;
+
+  INSERT INTO settings (key, value) VALUES ('rollup_watermark:daily_stats', p_to)
+  ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value;
+  RETURN rolled;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rollup_battle_history(p_from TEXT, p_to TEXT)
+RETURNS INT AS $$
+DECLARE
+  rolled INT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('rollup_watermark:battle_history'));
+  IF (SELECT value FROM settings WHERE key = 'rollup_watermark:battle_history') IS DISTINCT FROM p_from THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO monthly_brawler_stats AS m (player_tag, club_tag, month, brawler_name, battles, wins, losses, star_player, trophy_change)
+  SELECT
+    player_tag,
+    (ARRAY_AGG(club_tag ORDER BY battle_time DESC) FILTER (WHERE club_tag IS NOT NULL))[1],
+    DATE_TRUNC('month', battle_time AT TIME ZONE 'UTC')::DATE,
+    COALESCE(brawler_name, 'Unknown'),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE result = 'victory'),
+    COUNT(*) FILTER (WHERE result = 'defeat'),
+    COUNT(*) FILTER (WHERE is_star_player),
+    SUM(COALESCE(trophy_change, 0))
+  FROM battle_history
+  WHERE battle_time < p_to::TIMESTAMPTZ AND (p_from IS NULL OR battle_time >= p_from::TIMESTAMPTZ)
+  GROUP BY player_tag, DATE_TRUNC('month', battle_time AT TIME ZONE 'UTC'), COALESCE(brawler_name, 'Unknown')
+  ON CONFLICT (player_tag, month, brawler_name) DO UPDATE SET
+    club_tag = COALESCE(EXCLUDED.club_tag, m.club_tag),
+    battles = COALESCE(m.battles, 0) + EXCLUDED.battles,
+    wins = COALESCE(m.wins, 0) + EXCLUDED.wins,
+    losses = COALESCE(m.losses, 0) + EXCLUDED.losses,
+    star_player = COALESCE(m.star_player, 0) + EXCLUDED.star_player,
+    trophy_change = COALESCE(m.trophy_change, 0) + EXCLUDED.trophy_change;
+  GET DIAGNOSTICS rolled = ROW_COUNT;
+
+  INSERT INTO settings (key, value) VALUES ('rollup_watermark:battle_history', p_to)
+  ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value;
+  RETURN rolled;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- BATTLE CLOCK SKEW
+-- =============================================
+
+-- Which source reported each battle, the offset subtracted from its reported time,
+-- and whether the time still looked wrong (in the future) after that correction
+ALTER TABLE battle_history
+ADD COLUMN IF NOT EXISTS data_source VARCHAR(20),
+ADD COLUMN IF NOT EXISTS clock_offset_ms INT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS time_suspect BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_battle_history_suspect ON battle_history(battle_time) WHERE time_suspect;
+
+-- Offset detected per source during the run, with sample and correction counts
+ALTER TABLE sync_runs
+ADD COLUMN IF NOT EXISTS clock_skew JSONB;
+
+-- =============================================
+-- MATCHES
+-- =============================================
+
+-- One row per real match, however many club members' battle logs reported it.
+-- match_key hashes battle time, mode, map and every player tag in the match.
+CREATE TABLE IF NOT EXISTS matches (
+  id SERIAL PRIMARY KEY,
+  match_key VARCHAR(64) NOT NULL UNIQUE,
+  battle_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  mode VARCHAR(50),
+  map VARCHAR(100),
+  is_showdown BOOLEAN DEFAULT false,
+  teams JSONB, -- [[{ tag, name, brawler, power, trophies }]], one array per team
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Club members who played in a match, with their side and outcome
+CREATE TABLE IF NOT EXISTS match_participants (
+  id SERIAL PRIMARY KEY,
+  match_id INT NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  player_tag VARCHAR(20) NOT NULL,
+  club_tag VARCHAR(20),
+  team_index INT, -- index into matches.teams
+  brawler_name VARCHAR(50),
+  brawler_power INT,
+  result VARCHAR(20),
+  trophy_change INT DEFAULT 0,
+  is_star_player BOOLEAN DEFAULT false,
+  UNIQUE(match_id, player_tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matches_battle_time ON matches(battle_time DESC);
+CREATE INDEX IF NOT EXISTS idx_matches_mode ON matches(mode);
+CREATE INDEX IF NOT EXISTS idx_match_participants_player ON match_participants(player_tag);
+CREATE INDEX IF NOT EXISTS idx_match_participants_club ON match_participants(club_tag);
+
+-- =============================================
+-- BRAWLER PROGRESSION LEDGER
+-- =============================================
+
+-- Changes found by diffing consecutive brawler snapshots. Kept when the snapshots
+-- themselves are purged; cumulative power-up / unlock totals are summed from here.
+CREATE TABLE IF NOT EXISTS brawler_events (
+  id BIGSERIAL PRIMARY KEY,
+  player_tag VARCHAR(20) NOT NULL,
+  brawler_id INT NOT NULL,
+  brawler_name VARCHAR(50) NOT NULL,
+  event_type VARCHAR(20) NOT NULL, -- 'unlock', 'power_up', 'gadget', 'star_power', 'gear', 'rank'
+  from_value INT, -- power level, item count or rank before (NULL for unlocks)
+  to_value INT NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL, -- when the sync saw the change
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The ledger used to be unique per (player, brawler, type, to_value), which dropped
+-- real repeats such as a rank going 20 -> 21 -> 20 -> 21. Duplicates are now skipped
+-- by comparing with the brawler's last event of the same type (brawler-events.ts).
+ALTER TABLE brawler_events DROP CONSTRAINT IF EXISTS brawler_events_player_tag_brawler_id_event_type_to_value_key;
+
+CREATE INDEX IF NOT EXISTS idx_brawler_events_player_time ON brawler_events(player_tag, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_brawler_events_brawler ON brawler_events(player_tag, brawler_id, event_type, id DESC);
+
+-- Every brawler row of each player's most recent snapshot day (UTC), for a batch of players
+CREATE OR REPLACE FUNCTION latest_brawler_snapshots(p_player_tags TEXT[])
+RETURNS SETOF brawler_snapshots AS $$
+  SELECT s.*
+  FROM brawler_snapshots s
+  JOIN (
+    SELECT player_tag, MAX(recorded_at AT TIME ZONE 'UTC')::DATE AS day
+    FROM brawler_snapshots
+    WHERE player_tag = ANY(p_player_tags)
+    GROUP BY player_tag
+  ) latest ON latest.player_tag = s.player_tag AND (s.recorded_at AT TIME ZONE 'UTC')::DATE = latest.day
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- BRAWLER LOADOUTS
+-- =============================================
+
+-- The items behind the *_count columns: [{ id, name }] ([{ id, name, level }] for gears)
+ALTER TABLE brawler_snapshots
+ADD COLUMN IF NOT EXISTS gadgets JSONB,
+ADD COLUMN IF NOT EXISTS star_powers JSONB,
+ADD COLUMN IF NOT EXISTS gears JSONB,
+ADD COLUMN IF NOT EXISTS hypercharges JSONB;
+
+-- Names of the items a gadget / star power / gear event added, when the snapshots have them
+ALTER TABLE brawler_events
+ADD COLUMN IF NOT EXISTS item_name VARCHAR(200);
+
+-- =============================================
+-- CLUB SNAPSHOTS
+-- =============================================
+
+-- The club profile and totals as seen by each sync run (one row per club per run)
+CREATE TABLE IF NOT EXISTS club_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  club_tag VARCHAR(20) NOT NULL,
+  club_name VARCHAR(100),
+  description TEXT,
+  type VARCHAR(20), -- 'open', 'inviteOnly', 'closed'
+  badge_id INT,
+  required_trophies INT,
+  trophies INT DEFAULT 0,
+  member_count INT DEFAULT 0,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_club_snapshots_club_time ON club_snapshots(club_tag, recorded_at DESC);
+
+-- Snapshots and events written while finalizing carry their sync job, so a club
+-- finalized again after a failed attempt doesn't store them twice
+ALTER TABLE club_snapshots ADD COLUMN IF NOT EXISTS sync_job_id INT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_club_snapshots_job ON club_snapshots(club_tag, sync_job_id);
+ALTER TABLE club_events ADD COLUMN IF NOT EXISTS sync_job_id INT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_club_events_job ON club_events(sync_job_id, club_tag, event_type, player_tag);
+
+-- =============================================
+-- MEMBER CHANGES
+-- =============================================
+
+-- Every tracked member field that changed between syncs, old and new values as text
+CREATE TABLE IF NOT EXISTS member_changes (
+  id BIGSERIAL PRIMARY KEY,
+  player_tag VARCHAR(20) NOT NULL,
+  club_tag VARCHAR(20),
+  field VARCHAR(40) NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_changes_player_time ON member_changes(player_tag, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_member_changes_field_time ON member_changes(field, changed_at DESC);
+
+-- =============================================
+-- PLAYER NAMES
+-- =============================================
+
+-- Every name seen per player tag, so former names stay searchable after a rename
+CREATE TABLE IF NOT EXISTS player_names (
+  id BIGSERIAL PRIMARY KEY,
+  player_tag VARCHAR(20) NOT NULL,
+  player_name VARCHAR(100) NOT NULL,
+  first_seen TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(player_tag, player_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_names_tag ON player_names(player_tag);
+
+-- Seed from the names already stored: member history, members and recorded renames
+INSERT INTO player_names (player_tag, player_name, first_seen, last_seen)
+SELECT player_tag, player_name, MIN(first_seen), MAX(last_seen)
+FROM member_history
+GROUP BY player_tag, player_name
+ON CONFLICT (player_tag, player_name) DO NOTHING;
+
+INSERT INTO player_names (player_tag, player_name, first_seen, last_seen)
+SELECT player_tag, player_name, last_updated, last_updated
+FROM members
+ON CONFLICT (player_tag, player_name) DO NOTHING;
+
+INSERT INTO player_names (player_tag, player_name, first_seen, last_seen)
+SELECT player_tag, old_value, MIN(changed_at), MAX(changed_at)
+FROM member_changes
+WHERE field = 'player_name' AND old_value IS NOT NULL
+GROUP BY player_tag, old_value
+ON CONFLICT (player_tag, player_name) DO NOTHING;
+
+-- Renames from before member_changes existed only survive in notification text
+-- ("<old> is now <new> (<tag>).")
+INSERT INTO player_names (player_tag, player_name, first_seen, last_seen)
+SELECT player_tag, substring(message FROM '^(.*) is now '), MIN(created_at), MAX(created_at)
+FROM notifications
+WHERE type = 'name_change' AND player_tag IS NOT NULL AND message LIKE '% is now %'
+GROUP BY player_tag, substring(message FROM '^(.*) is now ')
+ON CONFLICT (player_tag, player_name) DO NOTHING;
+
+-- =============================================
+-- ROLE HISTORY
+-- =============================================
+
+-- One row per role period of a player in a club; ended_at is NULL for the current one
+CREATE TABLE IF NOT EXISTS role_history (
+  id BIGSERIAL PRIMARY KEY,
+  club_tag VARCHAR(20) NOT NULL,
+  player_tag VARCHAR(20) NOT NULL,
+  role VARCHAR(20) NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_history_player ON role_history(player_tag, started_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_role_history_open ON role_history(club_tag, player_tag) WHERE ended_at IS NULL;
+
+-- Seed the current role of every current member. The start is the last role change
+-- notification when one survives, otherwise when the player joined the club.
+INSERT INTO role_history (club_tag, player_tag, role, started_at)
+SELECT m.club_tag, m.player_tag, m.role,
+  COALESCE(
+    (SELECT MAX(n.created_at) FROM notifications n
+      WHERE n.player_tag = m.player_tag AND n.type IN ('promotion', 'demotion', 'role_change')),
+    mh.first_seen,
+    m.last_updated
+  )
+FROM members m
+JOIN member_history mh ON mh.club_tag = m.club_tag AND mh.player_tag = m.player_tag AND mh.is_current_member
+WHERE m.club_tag IS NOT NULL
+ON CONFLICT (club_tag, player_tag) WHERE ended_at IS NULL DO NOTHING;
+
+-- =============================================
+-- NOTIFICATION RULES
+-- =============================================
+
+-- User-defined triggers evaluated against every club member after each sync
+CREATE TABLE IF NOT EXISTS notification_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  condition VARCHAR(30) NOT NULL,       -- trophies_above, rank_tier, inactive_days, win_streak, below_required
+  threshold INT,                        -- trophies, days or wins, depending on the condition
+  rank_tier VARCHAR(30),                -- for rank_tier, e.g. 'Mythic I'
+  club_tag VARCHAR(20),                 -- NULL = every club
+  channels TEXT[] DEFAULT '{panel}',    -- 'panel' (notification panel) and/or 'external'
+  cooldown_hours INT DEFAULT 24,
+  enabled BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Whether each player matched each rule at the last evaluation, so a rule fires when
+-- its condition becomes true rather than on every sync while it stays true
+CREATE TABLE IF NOT EXISTS notification_rule_state (
+  rule_id INT NOT NULL REFERENCES notification_rules(id) ON DELETE CASCADE,
+  player_tag VARCHAR(20) NOT NULL,
+  matched BOOLEAN DEFAULT false,
+  last_fired_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (rule_id, player_tag)
+);
+
+-- =============================================
+-- MILESTONES
+-- =============================================
+
+-- Milestones already announced, one row per player and milestone ('trophies:50000',
+-- 'personal_best:42000', 'exp_level:200', 'brawler_rank:16000000:35'), so each fires once
+CREATE TABLE IF NOT EXISTS milestones (
+  id BIGSERIAL PRIMARY KEY,
+  player_tag VARCHAR(20) NOT NULL,
+  milestone_key VARCHAR(60) NOT NULL,
+  kind VARCHAR(20) NOT NULL,            -- trophies, personal_best, exp_level, brawler_rank
+  value INT,
+  achieved_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(player_tag, milestone_key)
+);
+
+-- =============================================
+-- NOTIFICATION CHANNELS
+-- =============================================
+
+-- Where notifications are delivered besides the panel. config holds what the kind needs:
+-- discord {url, username, avatar_url}, slack {url}, telegram {bot_token, chat_id},
+-- webhook {url}
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id SERIAL PRIMARY KEY,
+  kind VARCHAR(20) NOT NULL,            -- discord, slack, telegram, webhook
+  name VARCHAR(50) NOT NULL,            -- e.g. '#officers'
+  config JSONB NOT NULL DEFAULT '{}',
+  enabled BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Which channels each notification type is delivered to
+CREATE TABLE IF NOT EXISTS notification_routes (
+  notification_type VARCHAR(30) NOT NULL,
+  channel_id INT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+  PRIMARY KEY (notification_type, channel_id)
+);
+
+-- The single discord_webhook setting, routed to the types it used to receive
+INSERT INTO notification_channels (kind, name, config)
+SELECT 'discord', 'Default', jsonb_build_object('url', value) FROM settings
+WHERE key = 'discord_webhook' AND value LIKE 'https://discord.com/api/webhooks/%'
+  AND NOT EXISTS (SELECT 1 FROM notification_channels);
+
+INSERT INTO notification_routes (notification_type, channel_id)
+SELECT t.type, c.id
+FROM notification_channels c
+CROSS JOIN (VALUES ('join'), ('leave'), ('transfer'), ('inactive'), ('club_settings'), ('milestone'), ('rule')) AS t(type)
+WHERE c.name = 'Default' AND NOT EXISTS (SELECT 1 FROM notification_routes)
+ON CONFLICT DO NOTHING;
+
+-- Rule firings that only go to channels are stored too, so they can be delivered and
+-- retried like the rest, but stay out of the panel
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS show_in_panel BOOLEAN NOT NULL DEFAULT true;
+
+-- One row per stored notification and channel it is routed to. The sync only queues
+-- them; runners send what is due and retry failures with exponential backoff.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  notification_id INT NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  channel_id INT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, sending (claimed by a runner), delivered, failed
+  attempts INT NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- while sending: when the claim runs out
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(notification_id, channel_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due ON notification_deliveries(status, next_attempt_at);
+
+-- =============================================
+-- EVENT WEBHOOKS
+-- =============================================
+
+-- External integrations that receive raw events as signed JSON
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(50) NOT NULL,
+  url TEXT NOT NULL,
+  secret VARCHAR(128) NOT NULL,         -- HMAC-SHA256 key for the X-Brawl-Signature header
+  events TEXT[] NOT NULL DEFAULT '{}',  -- join, leave, transfer, role_change, milestone, sync_completed
+  enabled BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Every attempt to deliver an event, retried with exponential backoff until it
+-- succeeds or runs out of attempts
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  subscription_id INT NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event VARCHAR(30) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, sending (claimed by a runner), delivered, failed
+  attempts INT NOT NULL DEFAULT 0,
+  response_status INT,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- while sending: when the claim runs out
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  redelivery_of BIGINT,                 -- the delivery this one resends
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);